@@ -0,0 +1,37 @@
+import { MOCK_LLM_BEHAVIORS, MockLLMBehavior, startMockLLMServer } from './mockLLMServer';
+
+// Runs the mock LLM server for manual testing:
+//   npm run mock-llm -- --port 8787 --script illegal,legal --default legal
+// then start the app with VITE_OPENAI_BASE_URL=http://127.0.0.1:8787/v1 and any API key.
+// POST /__mock/script {"behaviors": [...]} queues more behaviors while it runs.
+
+const readOption = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const parseBehavior = (value: string): MockLLMBehavior => {
+  if (!MOCK_LLM_BEHAVIORS.includes(value as MockLLMBehavior)) {
+    throw new Error(`Unknown behavior "${value}"; expected one of ${MOCK_LLM_BEHAVIORS.join(', ')}`);
+  }
+  return value as MockLLMBehavior;
+};
+
+const main = async () => {
+  const defaultOption = readOption('default');
+  const server = await startMockLLMServer({
+    port: Number(readOption('port') ?? 8787),
+    defaultBehavior: defaultOption ? parseBehavior(defaultOption) : undefined
+  });
+  server.script((readOption('script') ?? '').split(',').filter(Boolean).map(parseBehavior));
+  console.log(`🧪 Mock LLM server listening on ${server.url}`);
+
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+};
+
+main().catch(error => {
+  console.error('❌ Mock LLM server failed to start:', error);
+  process.exit(1);
+});
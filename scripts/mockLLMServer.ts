@@ -0,0 +1,290 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// A stand-in for the OpenAI API, covering the chat completions and assistants endpoints the app and
+// the chess-ai-move function call. Each request for a move takes the next scripted behavior, so
+// retries and fallbacks can be exercised without a network or a key. Moves asked for as structured
+// output or through a tool call come back in the same shape, without the schema being enforced, so
+// an illegal move still reaches the caller's validation. Point a service at it by setting its base
+// URL to the server's url.
+
+export type MockLLMBehavior = 'legal' | 'illegal' | 'malformed' | 'timeout' | 'rate-limit';
+
+export const MOCK_LLM_BEHAVIORS: MockLLMBehavior[] = ['legal', 'illegal', 'malformed', 'timeout', 'rate-limit'];
+
+export interface MockLLMServerOptions {
+  port?: number;
+  // Used once the script runs out
+  defaultBehavior?: MockLLMBehavior;
+}
+
+// Only the legal moves, and whether a promotion piece is asked for, are read from a schema
+interface MockJSONSchema {
+  properties?: { move?: { enum?: string[] }; promotionPiece?: unknown };
+}
+
+// The fields of the OpenAI requests, and of the scripting endpoint, that the mock reads
+export interface MockLLMRequestBody {
+  model?: string;
+  messages?: { role: string; content: string }[];
+  response_format?: { type: string; json_schema?: { name: string; schema?: MockJSONSchema } };
+  content?: string;
+  instructions?: string;
+  tools?: { type: string; function?: { name: string; parameters?: MockJSONSchema } }[];
+  tool_outputs?: { tool_call_id: string; output: string }[];
+  metadata?: Record<string, string>;
+  behaviors?: MockLLMBehavior[];
+  defaultBehavior?: MockLLMBehavior;
+}
+
+export interface MockLLMRequest {
+  method: string;
+  path: string;
+  body: MockLLMRequestBody | null;
+  behavior?: MockLLMBehavior;
+}
+
+export interface MockLLMServer {
+  // Base URL to give the services, ending in /v1
+  url: string;
+  // Behaviors for the next requests, in order
+  script: (behaviors: MockLLMBehavior[], defaultBehavior?: MockLLMBehavior) => void;
+  requests: MockLLMRequest[];
+  close: () => Promise<void>;
+}
+
+interface ThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: { value: string } }[];
+}
+
+interface ThreadRun {
+  id: string;
+  object: 'thread.run';
+  thread_id: string;
+  status: 'requires_action' | 'completed';
+  required_action?: {
+    type: 'submit_tool_outputs';
+    submit_tool_outputs: { tool_calls: { id: string; type: 'function'; function: { name: string; arguments: string } }[] };
+  };
+}
+
+const readBody = (request: IncomingMessage): Promise<MockLLMRequestBody | null> => new Promise((resolve, reject) => {
+  let data = '';
+  request.on('data', chunk => { data += chunk; });
+  request.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : null);
+    } catch (error) {
+      reject(error);
+    }
+  });
+  request.on('error', reject);
+});
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  response.end(JSON.stringify(body));
+};
+
+const COORDINATE_MOVE = /\b[a-h][1-8]-[a-h][1-8]\b/g;
+
+// The prompts list legal moves under a "LEGAL MOVES ..." heading or after "Legal moves:"; chat has none
+export const findLegalMoves = (text: string): string[] =>
+  text.match(/LEGAL MOVES[^:\n]*:\s*([^\n]+)/i)?.[1].match(COORDINATE_MOVE) ?? [];
+
+const findIllegalMove = (legalMoves: string[]) =>
+  ['e1-e8', 'a1-h8', 'h8-a1'].find(move => !legalMoves.includes(move));
+
+const newMessage = (id: string, role: ThreadMessage['role'], value: string): ThreadMessage =>
+  ({ id, role, content: [{ type: 'text', text: { value } }] });
+
+// The assistant's text for a prompt: a JSON move, a promotion choice, or plain text for chat and analysis.
+// A move schema's enum, when there is one, gives the legal moves instead of the prompt.
+const composeReply = (behavior: MockLLMBehavior, prompt: string, schema?: MockJSONSchema): string => {
+  if (behavior === 'malformed') return '{"move": "e2-e4", "chatMessage": "I forgot to close this';
+
+  if (prompt.includes('PAWN PROMOTION REQUIRED')) {
+    return JSON.stringify({ promotionPiece: 'queen', chatMessage: 'Mock promotion to a queen.' });
+  }
+
+  const legalMoves = schema?.properties?.move?.enum ?? findLegalMoves(prompt);
+  if (legalMoves.length === 0) return 'Mock reply.';
+
+  const move = behavior === 'illegal' ? findIllegalMove(legalMoves) : legalMoves[0];
+  // An underpromotion, so a caller that ignores the choice and queens is caught out
+  const promotion = schema?.properties?.promotionPiece ? { promotionPiece: 'knight' } : {};
+  return JSON.stringify({ move, chatMessage: `Mock ${behavior} move ${move}.`, aiName: 'Mock LLM', ...promotion });
+};
+
+export const startMockLLMServer = (options: MockLLMServerOptions = {}): Promise<MockLLMServer> => {
+  let queue: MockLLMBehavior[] = [];
+  let defaultBehavior = options.defaultBehavior ?? 'legal';
+  const requests: MockLLMRequest[] = [];
+  const threads = new Map<string, ThreadMessage[]>();
+  const runs = new Map<string, ThreadRun>();
+  let nextId = 1;
+
+  const takeBehavior = () => queue.shift() ?? defaultBehavior;
+
+  // Timeouts and rate limits answer for themselves; true when the request was handled
+  const misbehave = (behavior: MockLLMBehavior, response: ServerResponse) => {
+    if (behavior === 'timeout') {
+      // Never answered; the connection is dropped when the server closes
+      return true;
+    }
+    if (behavior === 'rate-limit') {
+      send(response, 429, { error: { message: 'Rate limit reached', type: 'requests', code: 'rate_limit_exceeded' } });
+      return true;
+    }
+    return false;
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+      });
+      response.end();
+      return;
+    }
+
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname.replace(/\/+$/, '');
+    const body = request.method === 'POST' ? await readBody(request) : null;
+    const logged: MockLLMRequest = { method: request.method ?? 'GET', path, body };
+    requests.push(logged);
+
+    // Scripting over HTTP, for a server started from the command line
+    if (path === '/__mock/script' && request.method === 'POST') {
+      queue = [...(body?.behaviors ?? [])];
+      defaultBehavior = body?.defaultBehavior ?? defaultBehavior;
+      send(response, 200, { queued: queue.length, defaultBehavior });
+      return;
+    }
+    if (path === '/__mock/requests') {
+      send(response, 200, requests);
+      return;
+    }
+
+    if (path === '/v1/chat/completions' && request.method === 'POST') {
+      const behavior = logged.behavior = takeBehavior();
+      if (misbehave(behavior, response)) return;
+      const prompt = (body?.messages ?? []).map(message => message.content).join('\n');
+      send(response, 200, {
+        id: `chatcmpl-mock-${nextId++}`,
+        object: 'chat.completion',
+        model: body?.model,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: composeReply(behavior, prompt, body?.response_format?.json_schema?.schema) },
+          finish_reason: 'stop'
+        }]
+      });
+      return;
+    }
+
+    if (path === '/v1/assistants' && request.method === 'POST') {
+      send(response, 200, { id: `asst_mock_${nextId++}`, object: 'assistant', ...body });
+      return;
+    }
+
+    if (path === '/v1/threads' && request.method === 'POST') {
+      const id = `thread_mock_${nextId++}`;
+      threads.set(id, []);
+      send(response, 200, { id, object: 'thread', metadata: body?.metadata ?? {} });
+      return;
+    }
+
+    const threadMatch = path.match(/^\/v1\/threads\/([^/]+)\/(messages|runs)(?:\/([^/]+))?(\/submit_tool_outputs)?$/);
+    const messages = threadMatch && threads.get(threadMatch[1]);
+    if (threadMatch && messages) {
+      const [, threadId, resource, runId, submittingOutputs] = threadMatch;
+
+      if (resource === 'messages' && request.method === 'POST') {
+        const message = newMessage(`msg_mock_${nextId++}`, 'user', body?.content ?? '');
+        messages.push(message);
+        send(response, 200, message);
+        return;
+      }
+
+      if (resource === 'messages') {
+        // Newest first, as the API lists them
+        send(response, 200, { object: 'list', data: [...messages].reverse() });
+        return;
+      }
+
+      if (resource === 'runs' && request.method === 'POST') {
+        const behavior = logged.behavior = takeBehavior();
+        if (misbehave(behavior, response)) return;
+        // The reply answers the run's instructions and the latest message
+        const latest = messages[messages.length - 1]?.content[0].text.value ?? '';
+        const prompt = `${latest}\n${body?.instructions ?? ''}`;
+        const run: ThreadRun = { id: `run_mock_${nextId++}`, object: 'thread.run', thread_id: threadId, status: 'completed' };
+        const tool = body?.tools?.find(candidate => candidate.type === 'function')?.function;
+        if (tool) {
+          // A run with a tool stops to call it, and completes once its output is submitted
+          run.status = 'requires_action';
+          run.required_action = {
+            type: 'submit_tool_outputs',
+            submit_tool_outputs: {
+              tool_calls: [{ id: `call_mock_${nextId++}`, type: 'function', function: { name: tool.name, arguments: composeReply(behavior, prompt, tool.parameters) } }]
+            }
+          };
+        } else {
+          messages.push(newMessage(`msg_mock_${nextId++}`, 'assistant', composeReply(behavior, prompt)));
+        }
+        runs.set(run.id, run);
+        send(response, 200, run);
+        return;
+      }
+
+      const run = runId && runs.get(runId);
+      if (resource === 'runs' && run && submittingOutputs && request.method === 'POST') {
+        run.status = 'completed';
+        delete run.required_action;
+        messages.push(newMessage(`msg_mock_${nextId++}`, 'assistant', 'Mock commentary.'));
+        send(response, 200, run);
+        return;
+      }
+
+      if (resource === 'runs' && run) {
+        send(response, 200, run);
+        return;
+      }
+    }
+
+    send(response, 404, { error: { message: `Mock LLM server has no route for ${request.method} ${path}` } });
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch(error => {
+      console.error('❌ Mock LLM request failed:', error);
+      send(response, 400, { error: { message: 'Invalid request body' } });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/v1`,
+        script: (behaviors, nextDefault) => {
+          queue = [...behaviors];
+          if (nextDefault) defaultBehavior = nextDefault;
+        },
+        requests,
+        close: () => new Promise(done => {
+          server.closeAllConnections();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+};
@@ -4,27 +4,58 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useEffect } from "react";
 import { AuthProvider } from "@/hooks/useAuth";
+import { flushPendingGames } from "@/utils/gamePersistence";
 import Index from "./pages/Index";
+import Auth from "./pages/Auth";
+import Setup from "./pages/Setup";
+import Play from "./pages/Play";
+import Battle from "./pages/Battle";
+import Analysis from "./pages/Analysis";
+import Profile from "./pages/Profile";
+import ImportPgn from "./pages/ImportPgn";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </AuthProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  useEffect(() => {
+    // Retry game saves that were queued while Supabase was unreachable
+    const retryPendingGames = () => {
+      flushPendingGames().catch(error => console.error("❌ Retrying queued games failed:", error));
+    };
+
+    retryPendingGames();
+    window.addEventListener("online", retryPendingGames);
+    return () => window.removeEventListener("online", retryPendingGames);
+  }, []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/setup" element={<Setup />} />
+              <Route path="/setup/:mode" element={<Setup />} />
+              <Route path="/play/:gameId" element={<Play />} />
+              <Route path="/battle/:gameId" element={<Battle />} />
+              <Route path="/analysis/:gameId" element={<Analysis />} />
+              <Route path="/profile" element={<Profile />} />
+              <Route path="/profile/:username" element={<Profile />} />
+              <Route path="/import" element={<ImportPgn />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </AuthProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
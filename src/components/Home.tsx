@@ -2,21 +2,32 @@
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useAuth } from '@/hooks/useAuth';
-import { Crown, Play, User, LogOut, Trophy, Clock, LogIn } from 'lucide-react';
+import { useSavedGames } from '@/hooks/useSavedGames';
+import { SavedGameSnapshot } from '@/utils/savedGames';
+import { Crown, Play, User, LogOut, Trophy, Clock, LogIn, FileText, Trash2 } from 'lucide-react';
 
 interface HomeProps {
   onStartGame: () => void;
+  onContinueGame: (game: SavedGameSnapshot) => void;
   onShowProfile: () => void;
   onShowAuth: () => void;
+  onImportPGN: () => void;
 }
 
-const Home = ({ onStartGame, onShowProfile, onShowAuth }: HomeProps) => {
+const Home = ({ onStartGame, onContinueGame, onShowProfile, onShowAuth, onImportPGN }: HomeProps) => {
   const { user, signOut } = useAuth();
+  const { savedGames, discardGame } = useSavedGames();
 
   const handleSignOut = async () => {
     await signOut();
   };
 
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
       {/* Header */}
@@ -74,7 +85,7 @@ const Home = ({ onStartGame, onShowProfile, onShowAuth }: HomeProps) => {
         </div>
 
         {/* Action Cards */}
-        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8 mb-12">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-8 mb-12">
           <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6 hover:bg-slate-800/70 transition-colors">
             <div className="text-center">
               <div className="w-16 h-16 bg-blue-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -112,6 +123,25 @@ const Home = ({ onStartGame, onShowProfile, onShowAuth }: HomeProps) => {
             </div>
           </Card>
 
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6 hover:bg-slate-800/70 transition-colors">
+            <div className="text-center">
+              <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+                <FileText className="w-8 h-8 text-green-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-white mb-2">Replay a Game</h3>
+              <p className="text-slate-300 mb-4">
+                Import a PGN and step through it move by move
+              </p>
+              <Button 
+                onClick={onImportPGN}
+                variant="outline"
+                className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                Import PGN
+              </Button>
+            </div>
+          </Card>
+
           <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6 hover:bg-slate-800/70 transition-colors">
             <div className="text-center">
               <div className="w-16 h-16 bg-amber-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -132,6 +162,49 @@ const Home = ({ onStartGame, onShowProfile, onShowAuth }: HomeProps) => {
           </Card>
         </div>
 
+        {/* Continue Game */}
+        {savedGames.length > 0 && (
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6 mb-8">
+            <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+              <Play className="w-5 h-5 mr-2 text-slate-400" />
+              Continue Game
+            </h3>
+            <div className="space-y-3">
+              {savedGames.map(game => (
+                <div key={game.id} className="flex items-center justify-between bg-slate-700/50 rounded-lg p-3">
+                  <div>
+                    <div className="text-white font-medium">
+                      {game.whiteName} vs {game.blackName}
+                    </div>
+                    <div className="text-slate-400 text-sm">
+                      Move {Math.floor(game.moves.length / 2) + 1} · {formatTime(game.gameTime)} played · {new Date(game.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      onClick={() => onContinueGame(game)}
+                      size="sm"
+                      className="bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700"
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      Continue
+                    </Button>
+                    <Button
+                      onClick={() => discardGame(game.id)}
+                      size="sm"
+                      variant="ghost"
+                      className="text-slate-400 hover:bg-slate-700"
+                      aria-label="Discard saved game"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Recent Activity */}
         <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
           <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
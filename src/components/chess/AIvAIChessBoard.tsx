@@ -1,15 +1,45 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Play, Pause, RotateCcw, Clock, Brain, Zap } from 'lucide-react';
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
+import { ArrowLeft, Play, Pause, RotateCcw, Clock, Brain, Zap, Download, Microscope } from 'lucide-react';
+import { ChessPiece, PieceColor, Move, Position, DrawReason, GameResult, TimeControl } from '@/types/chess';
 import ChessSquare from './ChessSquare';
-import { initializeBoard, makeMove } from '@/utils/chessLogic';
-import { validateGameState } from '@/utils/chessRuleEnforcement';
-import { AIPlayer, getRandomAIPlayer, getAIPlayerMove, AIBattleResult } from '@/utils/aiPlayerManager';
+import ChessClock from './ChessClock';
+import ReplayControls from './ReplayControls';
+import EvaluationBar from './EvaluationBar';
+import BoardArrows from './BoardArrows';
+import LiveAnalysisPanel from './LiveAnalysisPanel';
+import { createInitialPosition, makeMove } from '@/utils/chessLogic';
+import { moveToSAN } from '@/utils/chessNotation';
+import { downloadPGN, exportPGN, PGNResult, toPGNResult } from '@/utils/chessPGN';
+import { saveFinishedGame } from '@/utils/gamePersistence';
+import { discardSavedGame, removeLocalSnapshot, restoreSnapshotPositions, saveGameSnapshot, SavedGameSnapshot, toSnapshotPositions } from '@/utils/savedGames';
+import { describeDrawReason } from '@/utils/chessDrawRules';
+import { AIPlayer, getAIPlayers, getRandomAIPlayer, getAIPlayerMove, getAIPlayerModel, AIBattleResult } from '@/utils/aiPlayerManager';
+import { createClock, describeTimeout, getMoveTimeBudgetMs, getTimeoutWinner, stopClock, toPGNTimeControl } from '@/utils/chessClock';
+import { evaluateForColor, shouldClaimDraw } from '@/utils/chessDrawOffers';
+import { AnalysisGame } from '@/utils/chessAnalysis';
+import { useChessEngine } from '@/hooks/useChessEngine';
+import { useChessClock } from '@/hooks/useChessClock';
+import { useReplay } from '@/hooks/useReplay';
+import { useLiveAnalysis } from '@/hooks/useLiveAnalysis';
 
 interface AIvAIChessBoardProps {
   onEndGame: () => void;
+  initialPosition?: Position;
+  // Untimed when omitted
+  timeControl?: TimeControl;
+  // AI personalities chosen on the setup screen; random when omitted
+  whitePlayerId?: string;
+  blackPlayerId?: string;
+  // Id for a new game, such as the one in its URL
+  initialGameId?: string;
+  // Restores an autosaved battle instead of starting a new one
+  savedGame?: SavedGameSnapshot;
+  // Opens the post-game analysis screen
+  onAnalyzeGame?: (game: AnalysisGame) => void;
+  // Told the id of every game started on this board after the first
+  onGameIdChange?: (gameId: string) => void;
 }
 
 interface BattleCommentary {
@@ -20,36 +50,88 @@ interface BattleCommentary {
   player?: AIPlayer;
 }
 
-const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
-  const [board, setBoard] = useState<(ChessPiece | null)[][]>(initializeBoard());
-  const [currentPlayer, setCurrentPlayer] = useState<PieceColor>('white');
-  const [gameHistory, setGameHistory] = useState<Move[]>([]);
+const AIvAIChessBoard = ({ onEndGame, initialPosition, timeControl, whitePlayerId, blackPlayerId, initialGameId, savedGame, onAnalyzeGame, onGameIdChange }: AIvAIChessBoardProps) => {
+  const [restored] = useState(() => savedGame ? restoreSnapshotPositions(savedGame) : null);
+  const [gameId, setGameId] = useState(() => savedGame?.id ?? initialGameId ?? crypto.randomUUID());
+  const startPosition = restored?.startPosition ?? initialPosition;
+  const [position, setPosition] = useState<Position>(() => restored?.position ?? initialPosition ?? createInitialPosition());
+  const [gameHistory, setGameHistory] = useState<Move[]>(savedGame?.moves ?? []);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [gameTime, setGameTime] = useState(0);
+  const [gameTime, setGameTime] = useState(savedGame?.gameTime ?? 0);
   const [whitePlayer, setWhitePlayer] = useState<AIPlayer | null>(null);
   const [blackPlayer, setBlackPlayer] = useState<AIPlayer | null>(null);
   const [currentThinking, setCurrentThinking] = useState<AIPlayer | null>(null);
   const [lastMoveResult, setLastMoveResult] = useState<AIBattleResult | null>(null);
   const [commentary, setCommentary] = useState<BattleCommentary[]>([]);
   const [gameOver, setGameOver] = useState(false);
-  const [winner, setWinner] = useState<PieceColor | 'draw' | null>(null);
+  const [winner, setWinner] = useState<GameResult['winner']>(null);
+  const [drawReason, setDrawReason] = useState<DrawReason | undefined>(undefined);
+  const [endReason, setEndReason] = useState<GameResult['reason'] | null>(null);
+  // Read by async AI moves, which must not be played once the battle has ended
+  const gameOverRef = useRef(gameOver);
+  gameOverRef.current = gameOver;
+  // Every position before the current one, for threefold repetition
+  const [positionHistory, setPositionHistory] = useState<Position[]>(restored?.positionHistory ?? []);
   const [battleStats, setBattleStats] = useState({
     totalMoves: 0,
     averageThinkingTime: 0,
     positionEvaluation: 0
   });
 
+  const { board, turn: currentPlayer } = position;
+  const { clock, whiteMs, blackMs, flagged, press: pressClock, reset: resetClock } = useChessClock(
+    savedGame?.clock ?? (timeControl ? createClock(timeControl, position.turn) : null),
+    isPlaying && !isPaused && !gameOver
+  );
+  // Validated in the engine worker once per move; null until the current position has been analyzed
+  const { analysis } = useChessEngine(position, positionHistory);
+  const gameValidation = analysis?.validation ?? null;
+  // Earlier positions can be viewed while the battle continues; positionHistory[n] follows n moves
+  const replay = useReplay(gameHistory.length);
+  const displayedPosition = replay.isViewingHistory ? positionHistory[replay.viewPly] : position;
+  const [liveAnalysisEnabled, setLiveAnalysisEnabled] = useState(true);
+  const [showBestMoveArrows, setShowBestMoveArrows] = useState(false);
+  const { evaluation: liveEvaluation, isSearching: isLiveSearching } = useLiveAnalysis(displayedPosition, liveAnalysisEnabled);
+  const displayedLastMove = replay.viewPly > 0 ? gameHistory[replay.viewPly - 1] : null;
+
+  // Read once on mount; a different saved game remounts the board
+  const savedGameRef = useRef(savedGame);
+  const chosenPlayerIdsRef = useRef({ white: whitePlayerId, black: blackPlayerId });
+
   useEffect(() => {
+    const savedGame = savedGameRef.current;
+    const players = getAIPlayers();
+    const savedWhite = players.find(player => player.id === savedGame?.whitePlayerId);
+    const savedBlack = players.find(player => player.id === savedGame?.blackPlayerId);
+
+    if (savedWhite && savedBlack) {
+      setWhitePlayer(savedWhite);
+      setBlackPlayer(savedBlack);
+      setCommentary([
+        ...(savedGame.commentary ?? []).map(({ playerId, ...entry }) => ({
+          ...entry,
+          player: players.find(player => player.id === playerId)
+        })),
+        {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          message: `Battle resumed after ${savedGame.moves.length} moves. Press Start to continue.`,
+          type: 'event'
+        }
+      ]);
+      return;
+    }
+
     // Initialize AI players
-    const white = getRandomAIPlayer();
-    const black = getRandomAIPlayer();
+    const chosenIds = chosenPlayerIdsRef.current;
+    const chosenBlack = players.find(player => player.id === chosenIds.black);
+    const white = players.find(player => player.id === chosenIds.white) ?? getRandomAIPlayer();
+    let black = chosenBlack ?? getRandomAIPlayer();
     
-    // Ensure different players
-    while (black.id === white.id) {
-      const newBlack = getRandomAIPlayer();
-      setBlackPlayer(newBlack);
-      break;
+    // Ensure different players unless both were picked
+    while (!chosenBlack && black.id === white.id) {
+      black = getRandomAIPlayer();
     }
     
     setWhitePlayer(white);
@@ -74,23 +156,24 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
   }, [isPlaying, isPaused, gameOver]);
 
   useEffect(() => {
-    if (isPlaying && !isPaused && !gameOver && whitePlayer && blackPlayer) {
+    // Wait for the worker to validate the position so no move is made after the game has ended
+    if (gameValidation && !gameValidation.gameOver && isPlaying && !isPaused && !gameOver && whitePlayer && blackPlayer) {
       handleAIBattleMove();
     }
-  }, [currentPlayer, isPlaying, isPaused, gameOver]);
+  }, [gameValidation, isPlaying, isPaused, gameOver]);
 
   useEffect(() => {
     // Check for game over conditions
-    const gameValidation = validateGameState(board, currentPlayer);
-    
-    if (gameValidation.gameOver && !gameOver) {
+    if (gameValidation?.gameOver && !gameOver) {
       setGameOver(true);
       setWinner(gameValidation.winner || null);
+      setDrawReason(gameValidation.drawReason);
+      setEndReason(gameValidation.isCheckmate ? 'checkmate' : gameValidation.drawReason);
       setIsPlaying(false);
       
       const gameOverMessage = gameValidation.isCheckmate 
         ? `Checkmate! ${gameValidation.winner === 'white' ? whitePlayer?.name : blackPlayer?.name} wins!`
-        : 'Stalemate! The battle ends in a draw.';
+        : `The battle ends in a draw. ${describeDrawReason(gameValidation.drawReason!)}.`;
       
       const gameOverCommentary: BattleCommentary = {
         id: Date.now().toString(),
@@ -99,8 +182,121 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
         type: 'event'
       };
       setCommentary(prev => [...prev, gameOverCommentary]);
+      persistFinishedGameRef.current(
+        gameValidation.winner || 'draw',
+        gameValidation.isCheckmate ? 'checkmate' : gameValidation.drawReason,
+        gameOverCommentary
+      );
     }
-  }, [board, currentPlayer, gameOver, whitePlayer, blackPlayer]);
+  }, [gameValidation, gameOver, whitePlayer, blackPlayer]);
+
+  const handleFlagFall = (flaggedColor: PieceColor) => {
+    if (gameOver) return;
+
+    const result = getTimeoutWinner(board, flaggedColor);
+    setGameOver(true);
+    setWinner(result);
+    setEndReason('time');
+    setIsPlaying(false);
+
+    const flaggedName = flaggedColor === 'white' ? whitePlayer?.name : blackPlayer?.name;
+    const timeoutCommentary: BattleCommentary = {
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      message: result === 'draw'
+        ? `${flaggedName} ran out of time, but the opponent cannot checkmate. The battle is drawn.`
+        : `${flaggedName} ran out of time! ${result === 'white' ? whitePlayer?.name : blackPlayer?.name} wins on the clock!`,
+      type: 'event'
+    };
+    setCommentary(prev => [...prev, timeoutCommentary]);
+    persistFinishedGame(result, 'time', timeoutCommentary);
+  };
+  // Called through a ref so the effect only fires when the flag falls
+  const handleFlagFallRef = useRef(handleFlagFall);
+  handleFlagFallRef.current = handleFlagFall;
+
+  useEffect(() => {
+    if (flagged) {
+      handleFlagFallRef.current(flagged);
+    }
+  }, [flagged]);
+
+  const persistFinishedGame = (result: GameResult['winner'], reason: GameResult['reason'], finalCommentary: BattleCommentary) => {
+    if (!whitePlayer || !blackPlayer) return;
+
+    const battleCommentary = [...commentary, finalCommentary];
+
+    removeLocalSnapshot(gameId);
+
+    saveFinishedGame({
+      id: gameId,
+      gameMode: 'ai-vs-ai',
+      opponent1Type: getAIPlayerModel(whitePlayer),
+      opponent2Type: getAIPlayerModel(blackPlayer),
+      winner: result,
+      reason,
+      moves: gameHistory,
+      pgn: buildPGN(toPGNResult(result), finalCommentary.message, reason),
+      durationSeconds: gameTime,
+      whiteName: whitePlayer.name,
+      blackName: blackPlayer.name,
+      commentary: battleCommentary.map(entry => ({
+        sender: entry.player?.name ?? 'Arena',
+        message: entry.message,
+        timestamp: entry.timestamp
+      }))
+    }).catch(error => console.error('❌ Game save failed:', error));
+  };
+  // The game-over effect saves through this ref so it always sees the latest moves and commentary
+  const persistFinishedGameRef = useRef(persistFinishedGame);
+  persistFinishedGameRef.current = persistFinishedGame;
+
+  const autosaveBattle = () => {
+    if (gameOver || gameHistory.length === 0 || !whitePlayer || !blackPlayer) return;
+
+    saveGameSnapshot({
+      id: gameId,
+      board: 'ai-battle',
+      gameMode: 'ai-vs-ai',
+      opponent1Type: getAIPlayerModel(whitePlayer),
+      opponent2Type: getAIPlayerModel(blackPlayer),
+      whiteName: whitePlayer.name,
+      blackName: blackPlayer.name,
+      ...toSnapshotPositions(startPosition ?? createInitialPosition(), position, positionHistory),
+      moves: gameHistory,
+      gameTime,
+      whitePlayerId: whitePlayer.id,
+      blackPlayerId: blackPlayer.id,
+      commentary: commentary.map(({ player, ...entry }) => ({ ...entry, playerId: player?.id })),
+      clock: clock && stopClock(clock, Date.now()),
+      updatedAt: Date.now()
+    });
+  };
+  // Saved through a ref so the autosave effect runs once per move but sees the latest state
+  const autosaveBattleRef = useRef(autosaveBattle);
+  autosaveBattleRef.current = autosaveBattle;
+
+  useEffect(() => {
+    autosaveBattleRef.current();
+  }, [gameHistory]);
+
+  const claimDraw = (claimant: AIPlayer, reason: DrawReason) => {
+    setGameOver(true);
+    setWinner('draw');
+    setDrawReason(reason);
+    setEndReason(reason);
+    setIsPlaying(false);
+
+    const claimCommentary: BattleCommentary = {
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      message: `${claimant.name} claims a draw. ${describeDrawReason(reason)}.`,
+      type: 'event',
+      player: claimant
+    };
+    setCommentary(prev => [...prev, claimCommentary]);
+    persistFinishedGameRef.current('draw', reason, claimCommentary);
+  };
 
   const handleAIBattleMove = async () => {
     if (!whitePlayer || !blackPlayer || gameOver) return;
@@ -111,14 +307,35 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
     setCurrentThinking(currentAI);
     
     try {
-      const result = await getAIPlayerMove(currentAI, board, currentPlayer, gameHistory, opponent);
+      const claimableDraw = gameValidation?.claimableDraw;
+      if (claimableDraw) {
+        const evaluation = await evaluateForColor(position, currentPlayer);
+        if (gameOverRef.current) return;
+
+        if (shouldClaimDraw(currentAI.personality, evaluation)) {
+          claimDraw(currentAI, claimableDraw);
+          return;
+        }
+      }
+
+      const budgetMs = clock ? getMoveTimeBudgetMs(clock, currentPlayer, Date.now()) : undefined;
+      const result = await getAIPlayerMove(currentAI, position, gameHistory, opponent, budgetMs);
+      
+      // The flag may have fallen while the AI was thinking
+      if (gameOverRef.current) return;
       
       if (result.move) {
         // Handle move execution with potential promotion using the existing makeMove function
-        const newBoard = makeMove(board, result.move.from, result.move.to, result.promotionPiece);
-        
-        setBoard(newBoard);
-        setGameHistory(prev => [...prev, result.move!]);
+        const playedMove: Move = {
+          ...result.move,
+          promotion: result.promotionPiece,
+          san: moveToSAN(position, result.move.from, result.move.to, result.promotionPiece),
+          comment: `${currentAI.name}: ${result.analysis}`
+        };
+        setPositionHistory(prev => [...prev, position]);
+        setPosition(makeMove(position, result.move.from, result.move.to, result.promotionPiece));
+        setGameHistory(prev => [...prev, playedMove]);
+        pressClock();
         setLastMoveResult(result);
         
         // Enhanced move commentary with promotion info
@@ -142,8 +359,6 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
           averageThinkingTime: (prev.averageThinkingTime * prev.totalMoves + result.thinkingTime) / (prev.totalMoves + 1),
           positionEvaluation: result.evaluation
         }));
-        
-        setCurrentPlayer(currentPlayer === 'white' ? 'black' : 'white');
       }
     } catch (error) {
       console.error('AI battle move failed:', error);
@@ -171,14 +386,24 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
   };
 
   const resetBattle = () => {
-    setBoard(initializeBoard());
-    setCurrentPlayer('white');
+    // The abandoned battle should no longer be offered for resuming
+    if (!gameOver) {
+      discardSavedGame(gameId).catch(error => console.error('❌ Failed to discard saved game:', error));
+    }
+    const newGameId = crypto.randomUUID();
+    setGameId(newGameId);
+    onGameIdChange?.(newGameId);
+    setPosition(startPosition ?? createInitialPosition());
+    setPositionHistory([]);
     setGameHistory([]);
     setIsPlaying(false);
     setIsPaused(false);
     setGameTime(0);
     setGameOver(false);
     setWinner(null);
+    setDrawReason(undefined);
+    setEndReason(null);
+    resetClock(timeControl ? createClock(timeControl, (startPosition ?? createInitialPosition()).turn) : null);
     setLastMoveResult(null);
     setCommentary([{
       id: Date.now().toString(),
@@ -208,7 +433,43 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
 
   const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
   const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
-  const gameValidation = validateGameState(board, currentPlayer);
+  const buildPGN = (result: PGNResult, finalComment?: string, reason?: GameResult['reason']) =>
+    exportPGN({
+      moves: gameHistory,
+      startPosition,
+      result,
+      finalComment,
+      tags: {
+        Event: 'AI vs AI Battle',
+        White: whitePlayer.name,
+        Black: blackPlayer.name,
+        WhitePersonality: whitePlayer.personality,
+        BlackPersonality: blackPlayer.personality,
+        WhiteModel: getAIPlayerModel(whitePlayer),
+        BlackModel: getAIPlayerModel(blackPlayer),
+        ...(clock && { TimeControl: toPGNTimeControl(clock.timeControl) }),
+        ...(reason === 'time' && { Termination: 'time forfeit' })
+      }
+    });
+
+  const handleAnalyzeGame = () => {
+    onAnalyzeGame?.({
+      id: gameId,
+      startPosition: startPosition ?? createInitialPosition(),
+      moves: gameHistory,
+      whiteName: whitePlayer?.name ?? 'White',
+      blackName: blackPlayer?.name ?? 'Black',
+      result: toPGNResult(winner)
+    });
+  };
+
+  const handleExportPGN = () => {
+    if (!whitePlayer || !blackPlayer) return;
+
+    const lastEvent = [...commentary].reverse().find(entry => entry.type === 'event');
+    const pgn = buildPGN(gameOver ? toPGNResult(winner || 'draw') : '*', gameOver ? lastEvent?.message : undefined, endReason);
+    downloadPGN(pgn, `${whitePlayer.name}-vs-${blackPlayer.name}.pgn`.replace(/\s+/g, '_'));
+  };
 
   return (
     <div className="min-h-screen p-4">
@@ -250,6 +511,28 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
               </Button>
             )}
             
+            <Button 
+              onClick={handleExportPGN}
+              variant="outline" 
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              disabled={gameHistory.length === 0}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export PGN
+            </Button>
+            
+            {gameOver && onAnalyzeGame && (
+              <Button 
+                onClick={handleAnalyzeGame}
+                variant="outline" 
+                className="border-amber-600 text-amber-300 hover:bg-amber-600/20"
+                disabled={gameHistory.length === 0}
+              >
+                <Microscope className="w-4 h-4 mr-2" />
+                Analyze Game
+              </Button>
+            )}
+            
             <Button 
               onClick={resetBattle}
               variant="outline" 
@@ -311,8 +594,10 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
               Battle Complete!
             </h2>
             <p className="text-amber-200 mt-2">
-              {winner === 'draw' 
-                ? 'The battle ends in a strategic draw!' 
+              {endReason === 'time'
+                ? describeTimeout(flagged, winner)
+                : winner === 'draw' 
+                ? `The battle ends in a draw: ${drawReason ? describeDrawReason(drawReason) : 'agreed'}` 
                 : `${winner === 'white' ? whitePlayer?.name : blackPlayer?.name} emerges victorious!`}
             </p>
           </div>
@@ -324,69 +609,109 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
           <div className="lg:col-span-2">
             <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
               <div className="max-w-2xl mx-auto">
-                <div className="inline-block">
-                  <div className="grid grid-cols-10 grid-rows-10 gap-0 aspect-square border-4 border-amber-400 rounded-lg overflow-hidden">
-                    {/* Top-left corner */}
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                {clock && (
+                  <div className="mb-4">
+                    <ChessClock
+                      color="black"
+                      name={blackPlayer?.name ?? 'Black'}
+                      remainingMs={blackMs}
+                      isActive={isPlaying && !gameOver && clock.active === 'black'}
+                      flagged={flagged === 'black'}
+                    />
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  {liveAnalysisEnabled && <EvaluationBar evaluation={liveEvaluation} />}
+                  <div className="inline-block">
+                    <div className="relative grid grid-cols-10 grid-rows-10 gap-0 aspect-square border-4 border-amber-400 rounded-lg overflow-hidden">
+                      {liveAnalysisEnabled && showBestMoveArrows && liveEvaluation?.bestMove && (
+                        <BoardArrows arrows={[liveEvaluation.bestMove]} />
+                      )}
+                      {/* Top-left corner */}
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
                     
-                    {/* Top file labels */}
-                    {files.map(file => (
-                      <div key={`top-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {file}
-                      </div>
-                    ))}
+                      {/* Top file labels */}
+                      {files.map(file => (
+                        <div key={`top-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {file}
+                        </div>
+                      ))}
                     
-                    {/* Top-right corner */}
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
-
-                    {/* Board rows */}
-                    {board.map((row, rowIndex) => [
-                      // Left rank label
-                      <div key={`left-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {ranks[rowIndex]}
-                      </div>,
+                      {/* Top-right corner */}
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
+
+                      {/* Board rows */}
+                      {displayedPosition.board.map((row, rowIndex) => [
+                        // Left rank label
+                        <div key={`left-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {ranks[rowIndex]}
+                        </div>,
                       
-                      // Chess squares
-                      ...row.map((piece, colIndex) => {
-                        const position = `${String.fromCharCode(97 + colIndex)}${8 - rowIndex}`;
-                        const isLight = (rowIndex + colIndex) % 2 === 0;
-                        const isLastMove = gameHistory.length > 0 && 
-                          (gameHistory[gameHistory.length - 1].from === position || 
-                           gameHistory[gameHistory.length - 1].to === position);
+                        // Chess squares
+                        ...row.map((piece, colIndex) => {
+                          const square = `${String.fromCharCode(97 + colIndex)}${8 - rowIndex}`;
+                          const isLight = (rowIndex + colIndex) % 2 === 0;
+                          const isLastMove = !!displayedLastMove && 
+                            (displayedLastMove.from === square || displayedLastMove.to === square);
                         
-                        return (
-                          <ChessSquare
-                            key={position}
-                            position={position}
-                            piece={piece}
-                            isLight={isLight}
-                            isSelected={isLastMove}
-                            onClick={() => {}}
-                            pieceSymbol={getPieceSymbol(piece)}
-                          />
-                        );
-                      }),
+                          return (
+                            <ChessSquare
+                              key={square}
+                              position={square}
+                              piece={piece}
+                              isLight={isLight}
+                              isSelected={isLastMove}
+                              onClick={() => {}}
+                              pieceSymbol={getPieceSymbol(piece)}
+                            />
+                          );
+                        }),
                       
-                      // Right rank label
-                      <div key={`right-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {ranks[rowIndex]}
-                      </div>
-                    ])}
-
-                    {/* Bottom-left corner */}
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                        // Right rank label
+                        <div key={`right-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {ranks[rowIndex]}
+                        </div>
+                      ])}
+
+                      {/* Bottom-left corner */}
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
                     
-                    {/* Bottom file labels */}
-                    {files.map(file => (
-                      <div key={`bottom-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {file}
-                      </div>
-                    ))}
+                      {/* Bottom file labels */}
+                      {files.map(file => (
+                        <div key={`bottom-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {file}
+                        </div>
+                      ))}
                     
-                    {/* Bottom-right corner */}
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                      {/* Bottom-right corner */}
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
+                    </div>
                   </div>
                 </div>
+                {clock && (
+                  <div className="mt-4">
+                    <ChessClock
+                      color="white"
+                      name={whitePlayer?.name ?? 'White'}
+                      remainingMs={whiteMs}
+                      isActive={isPlaying && !gameOver && clock.active === 'white'}
+                      flagged={flagged === 'white'}
+                    />
+                  </div>
+                )}
+                <div className="mt-4">
+                  <LiveAnalysisPanel
+                    enabled={liveAnalysisEnabled}
+                    onEnabledChange={setLiveAnalysisEnabled}
+                    showArrows={showBestMoveArrows}
+                    onShowArrowsChange={setShowBestMoveArrows}
+                    evaluation={liveEvaluation}
+                    isSearching={isLiveSearching}
+                  />
+                </div>
+                <div className="mt-4">
+                  <ReplayControls replay={replay} />
+                </div>
               </div>
               
               {/* Battle Status */}
@@ -394,7 +719,7 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
                 <div className={`inline-flex items-center px-6 py-3 rounded-full ${
                   gameOver 
                     ? 'bg-gradient-to-r from-amber-600 to-amber-700 text-white'
-                    : gameValidation.isInCheck
+                    : gameValidation?.isInCheck
                     ? 'bg-gradient-to-r from-red-600 to-red-700 text-white'
                     : currentPlayer === 'white' 
                     ? 'bg-gradient-to-r from-slate-100 to-slate-200 text-slate-900' 
@@ -403,13 +728,13 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
                   <div className={`w-3 h-3 rounded-full mr-3 ${
                     gameOver
                       ? 'bg-amber-300'
-                      : gameValidation.isInCheck
+                      : gameValidation?.isInCheck
                       ? 'bg-red-300'
                       : currentPlayer === 'white' ? 'bg-white border-2 border-slate-400' : 'bg-slate-900'
                   }`} />
                   {gameOver 
                     ? `Battle Complete!`
-                    : gameValidation.isInCheck
+                    : gameValidation?.isInCheck
                     ? `${currentPlayer === 'white' ? whitePlayer?.name : blackPlayer?.name} in CHECK!`
                     : currentThinking
                     ? `${currentThinking.name} analyzing position...`
@@ -490,16 +815,25 @@ const AIvAIChessBoard = ({ onEndGame }: AIvAIChessBoardProps) => {
             <Card className="bg-slate-800/50 border-slate-700 p-4">
               <h3 className="text-lg font-bold text-white mb-4">Recent Moves</h3>
               <div className="space-y-2 max-h-48 overflow-y-auto">
-                {gameHistory.slice(-10).reverse().map((move, index) => (
-                  <div key={index} className="flex justify-between text-sm">
-                    <span className="text-slate-300">
-                      {gameHistory.length - index}. {move.notation}
-                    </span>
-                    <span className="text-slate-400">
-                      {move.piece.color === 'white' ? whitePlayer?.avatar : blackPlayer?.avatar}
-                    </span>
-                  </div>
-                ))}
+                {gameHistory.slice(-10).reverse().map((move, index) => {
+                  const ply = gameHistory.length - index;
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => replay.goTo(ply)}
+                      className={`w-full flex justify-between text-sm px-1 rounded text-left ${
+                        replay.viewPly === ply ? 'bg-amber-500/30' : 'hover:bg-slate-700'
+                      }`}
+                    >
+                      <span className="text-slate-300">
+                        {ply}. {move.san || move.notation}
+                      </span>
+                      <span className="text-slate-400">
+                        {move.piece.color === 'white' ? whitePlayer?.avatar : blackPlayer?.avatar}
+                      </span>
+                    </button>
+                  );
+                })}
               </div>
             </Card>
           </div>
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ArrowLeft, Microscope } from 'lucide-react';
+import { analyzeGame, AnalysisGame, EVALUATION_CAP, GameAnalysis, MOVE_CLASSIFICATIONS, MoveClassification, SideSummary } from '@/utils/chessAnalysis';
+
+interface AnalysisViewerProps {
+  game: AnalysisGame;
+  onBack: () => void;
+}
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; symbol: string; className: string }> = {
+  brilliant: { label: 'Brilliant', symbol: '!!', className: 'text-cyan-300' },
+  best: { label: 'Best', symbol: '', className: 'text-green-400' },
+  good: { label: 'Good', symbol: '', className: 'text-slate-300' },
+  inaccuracy: { label: 'Inaccuracy', symbol: '?!', className: 'text-yellow-400' },
+  mistake: { label: 'Mistake', symbol: '?', className: 'text-orange-400' },
+  blunder: { label: 'Blunder', symbol: '??', className: 'text-red-400' }
+};
+
+const chartConfig = {
+  evaluation: { label: 'Evaluation', color: '#fbbf24' }
+} satisfies ChartConfig;
+
+const formatEvaluation = (centipawns: number) => {
+  if (Math.abs(centipawns) >= EVALUATION_CAP) return centipawns > 0 ? '+∞' : '-∞';
+  return `${centipawns > 0 ? '+' : ''}${(centipawns / 100).toFixed(1)}`;
+};
+
+const AnalysisViewer = ({ game, onBack }: AnalysisViewerProps) => {
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [progress, setProgress] = useState({ analyzed: 0, total: game.moves.length + 1 });
+  const [error, setError] = useState('');
+  const [selectedPly, setSelectedPly] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    analyzeGame(game.startPosition, game.moves, {
+      signal: controller.signal,
+      onProgress: (analyzed, total) => setProgress({ analyzed, total })
+    })
+      .then(result => {
+        if (result) setAnalysis(result);
+      })
+      .catch(err => {
+        console.error('❌ Game analysis failed:', err);
+        setError(err instanceof Error ? err.message : 'Analysis failed');
+      });
+
+    return () => controller.abort();
+  }, [game]);
+
+  const firstMoveNumber = game.startPosition.fullmoveNumber;
+  const blackStarts = game.startPosition.turn === 'black';
+  const getMoveLabel = (index: number) => {
+    const slot = index + (blackStarts ? 1 : 0);
+    const number = firstMoveNumber + Math.floor(slot / 2);
+    return slot % 2 === 0 ? `${number}.` : `${number}...`;
+  };
+
+  const chartData = analysis?.evaluations.map((evaluation, ply) => ({
+    ply,
+    move: ply === 0 ? 'Start' : `${getMoveLabel(ply - 1)} ${game.moves[ply - 1].san || game.moves[ply - 1].notation}`,
+    evaluation: evaluation / 100
+  })) ?? [];
+
+  const renderSummary = (name: string, color: 'white' | 'black', summary: SideSummary) => (
+    <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <div className={`w-3 h-3 rounded-full mr-2 ${color === 'white' ? 'bg-white border border-slate-400' : 'bg-slate-900 border border-slate-500'}`} />
+          <h3 className="text-lg font-bold text-white">{name}</h3>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-bold text-amber-300">
+            {summary.accuracy === null ? '—' : `${summary.accuracy.toFixed(1)}%`}
+          </div>
+          <div className="text-xs text-slate-400">accuracy</div>
+        </div>
+      </div>
+      <div className="space-y-1 text-sm">
+        {MOVE_CLASSIFICATIONS.map(type => (
+          <div key={type} className="flex justify-between">
+            <span className={CLASSIFICATION_STYLES[type].className}>{CLASSIFICATION_STYLES[type].label}</span>
+            <span className="text-slate-300">{summary.counts[type]}</span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-2 border-t border-slate-700">
+          <span className="text-slate-400">Average centipawn loss</span>
+          <span className="text-slate-300">{summary.averageCentipawnLoss ?? '—'}</span>
+        </div>
+      </div>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Menu
+          </Button>
+
+          <div className="text-center">
+            <h2 className="text-xl font-bold text-white flex items-center justify-center">
+              <Microscope className="w-5 h-5 mr-2 text-amber-400" />
+              {game.whiteName} vs {game.blackName}
+            </h2>
+            {game.result && <p className="text-amber-300">{game.result}</p>}
+          </div>
+
+          <div className="w-32" />
+        </div>
+
+        {error ? (
+          <Card className="bg-slate-800/50 border-slate-700 p-6 text-center text-red-400">{error}</Card>
+        ) : !analysis ? (
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6 max-w-xl mx-auto space-y-3">
+            <p className="text-slate-300 text-center">
+              Analyzing position {progress.analyzed} of {progress.total}...
+            </p>
+            <Progress value={(progress.analyzed / progress.total) * 100} />
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {/* Evaluation Graph */}
+            <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Evaluation</h3>
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <AreaChart
+                  data={chartData}
+                  onClick={(state) => {
+                    if (typeof state?.activeLabel === 'number') setSelectedPly(state.activeLabel);
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="ply" stroke="#94a3b8" />
+                  <YAxis domain={[-EVALUATION_CAP / 100, EVALUATION_CAP / 100]} stroke="#94a3b8" />
+                  <ReferenceLine y={0} stroke="#64748b" />
+                  {selectedPly !== null && <ReferenceLine x={selectedPly} stroke="#fbbf24" />}
+                  <ChartTooltip content={<ChartTooltipContent labelKey="move" />} />
+                  <Area
+                    type="monotone"
+                    dataKey="evaluation"
+                    stroke="var(--color-evaluation)"
+                    fill="var(--color-evaluation)"
+                    fillOpacity={0.3}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </Card>
+
+            <div className="grid lg:grid-cols-3 gap-6">
+              {renderSummary(game.whiteName, 'white', analysis.white)}
+              {renderSummary(game.blackName, 'black', analysis.black)}
+
+              {/* Move List */}
+              <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
+                <h3 className="text-lg font-bold text-white mb-4">Moves</h3>
+                <div className="max-h-96 overflow-y-auto space-y-1 text-sm">
+                  {analysis.moves.map((analyzed, index) => {
+                    const style = CLASSIFICATION_STYLES[analyzed.classification];
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => setSelectedPly(index + 1)}
+                        className={`w-full grid grid-cols-[3.5rem_1fr_3rem] gap-2 px-1 rounded text-left ${
+                          selectedPly === index + 1 ? 'bg-amber-500/30' : 'hover:bg-slate-700'
+                        }`}
+                        title={analyzed.bestMove ? `Best was ${analyzed.bestMove}` : style.label}
+                      >
+                        <span className="text-slate-500">{getMoveLabel(index)}</span>
+                        <span className={style.className}>
+                          {analyzed.move.san || analyzed.move.notation}{style.symbol}
+                          {analyzed.bestMove && analyzed.centipawnLoss > 0 && (
+                            <span className="text-slate-500 text-xs ml-2">best {analyzed.bestMove}</span>
+                          )}
+                        </span>
+                        <span className="text-slate-400 text-right">{formatEvaluation(analyzed.evaluationAfter)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisViewer;
@@ -9,11 +9,13 @@ import { Key, Lock, Loader2 } from 'lucide-react';
 
 interface ApiKeyDialogProps {
   isOpen: boolean;
+  // Whose key is asked for, e.g. OpenAI, Anthropic or Google
+  providerName?: string;
   onApiKeySubmit: (apiKey: string) => Promise<void>;
   onCancel: () => void;
 }
 
-const ApiKeyDialog = ({ isOpen, onApiKeySubmit, onCancel }: ApiKeyDialogProps) => {
+const ApiKeyDialog = ({ isOpen, providerName = 'OpenAI', onApiKeySubmit, onCancel }: ApiKeyDialogProps) => {
   const [apiKey, setApiKey] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -22,7 +24,7 @@ const ApiKeyDialog = ({ isOpen, onApiKeySubmit, onCancel }: ApiKeyDialogProps) =
     e.preventDefault();
     
     if (!apiKey.trim()) {
-      setError('Please enter your OpenAI API key');
+      setError(`Please enter your ${providerName} API key`);
       return;
     }
 
@@ -44,23 +46,23 @@ const ApiKeyDialog = ({ isOpen, onApiKeySubmit, onCancel }: ApiKeyDialogProps) =
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-white">
             <Key className="w-5 h-5 text-amber-400" />
-            OpenAI API Key Required
+            {providerName} API Key Required
           </DialogTitle>
           <DialogDescription className="text-slate-300">
-            To start playing chess with AI opponents, please enter your OpenAI API key. 
-            Your key will be stored securely and only used for this chess game.
+            To start playing chess with this AI opponent, please enter your {providerName} API key. 
+            Your key is kept in this browser and only used for chess AI requests.
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="apiKey" className="text-white">OpenAI API Key</Label>
+            <Label htmlFor="apiKey" className="text-white">{providerName} API Key</Label>
             <Input
               id="apiKey"
               type="password"
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
-              placeholder="sk-..."
+              placeholder={providerName === 'OpenAI' ? 'sk-...' : 'API key'}
               className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400"
               disabled={isSubmitting}
             />
@@ -78,8 +80,8 @@ const ApiKeyDialog = ({ isOpen, onApiKeySubmit, onCancel }: ApiKeyDialogProps) =
               <span className="text-sm font-medium">Security Information</span>
             </div>
             <ul className="text-xs text-slate-400 space-y-1">
-              <li>• Your API key is encrypted before storage</li>
-              <li>• Only used for OpenAI chess AI requests</li>
+              <li>• Your API key stays in this browser</li>
+              <li>• Only used for {providerName} chess AI requests</li>
               <li>• Never shared with third parties</li>
               <li>• You can remove it anytime from your profile</li>
             </ul>
@@ -0,0 +1,61 @@
+export interface BoardArrow {
+  from: string;
+  to: string;
+  color?: string;
+}
+
+interface BoardArrowsProps {
+  arrows: BoardArrow[];
+}
+
+// Square centers in a 10x10 grid whose outer ring holds the rank and file labels
+const squareCenter = (square: string) => ({
+  x: square.charCodeAt(0) - 97 + 1.5,
+  y: 8 - parseInt(square[1]) + 1.5
+});
+
+// Drawn over the board grid; the grid element must be positioned
+const BoardArrows = ({ arrows }: BoardArrowsProps) => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none z-10" viewBox="0 0 10 10">
+    <defs>
+      {arrows.map((arrow, index) => (
+        <marker
+          key={index}
+          id={`arrowhead-${index}`}
+          markerWidth="3"
+          markerHeight="3"
+          refX="1.5"
+          refY="1.5"
+          orient="auto"
+        >
+          <path d="M0,0 L3,1.5 L0,3 Z" fill={arrow.color ?? '#22c55e'} />
+        </marker>
+      ))}
+    </defs>
+    {arrows.map((arrow, index) => {
+      const from = squareCenter(arrow.from);
+      const to = squareCenter(arrow.to);
+      // Stop short of the target center so the head sits on the square
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      const shorten = Math.min(0.3, length / 2);
+      const endX = to.x - ((to.x - from.x) / length) * shorten;
+      const endY = to.y - ((to.y - from.y) / length) * shorten;
+
+      return (
+        <line
+          key={index}
+          x1={from.x}
+          y1={from.y}
+          x2={endX}
+          y2={endY}
+          stroke={arrow.color ?? '#22c55e'}
+          strokeWidth="0.15"
+          strokeOpacity="0.8"
+          markerEnd={`url(#arrowhead-${index})`}
+        />
+      );
+    })}
+  </svg>
+);
+
+export default BoardArrows;
@@ -1,18 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, RotateCcw, Flag, Clock } from 'lucide-react';
-import { GameMode, ChessPiece, PieceColor, Move, PieceType } from '@/types/chess';
+import { ArrowLeft, RotateCcw, Flag, Clock, Download, Handshake, Scale, Ban, Undo2, Redo2, Microscope } from 'lucide-react';
+import { GameMode, ChessPiece, PieceColor, Move, PieceType, Position, DrawReason, GameResult, TimeControl } from '@/types/chess';
 import ChessSquare from './ChessSquare';
 import GameInfo from './GameInfo';
 import ChatBox from './ChatBox';
 import MoveHistory from './MoveHistory';
 import PromotionDialog from './PromotionDialog';
-import { initializeBoard, makeMove, isPawnPromotion, isCastlingMove } from '@/utils/chessLogic';
+import ChessClock from './ChessClock';
+import ReplayControls from './ReplayControls';
+import EvaluationBar from './EvaluationBar';
+import BoardArrows from './BoardArrows';
+import LiveAnalysisPanel from './LiveAnalysisPanel';
+import { createInitialPosition, makeMove, isPawnPromotion, isCastlingMove, getCapturedPiece } from '@/utils/chessLogic';
 import { getAIMove } from '@/utils/aiService';
-import { getOpenAIMove } from '@/utils/openaiChessService';
-import { createChessAssistant, createGameThread, getAssistantChessMove, sendChatToAssistant } from '@/utils/openaiAssistantsService';
-import { isLegalMove, getAllLegalMoves, validateGameState } from '@/utils/chessRuleEnforcement';
+import { getLLMChatReply, getLLMMove } from '@/utils/llmChessService';
+import { getOpponentProvider, isLLMOpponent, LLM_OPPONENTS } from '@/utils/chessLLMProviders';
+import { addThreadNote, createChessAssistant, createGameThread, getAssistantChessMove, sendChatToAssistant } from '@/utils/openaiAssistantsService';
+import { isLegalMove } from '@/utils/chessRuleEnforcement';
+import { generateFEN, moveToSAN, STARTING_FEN } from '@/utils/chessNotation';
+import { describeDrawReason } from '@/utils/chessDrawRules';
+import { downloadPGN, exportPGN, PGNResult, toPGNResult } from '@/utils/chessPGN';
+import { getUnratedNote, saveFinishedGame } from '@/utils/gamePersistence';
+import { removeLocalSnapshot, restoreSnapshotPositions, saveGameSnapshot, SavedGameSnapshot, toSnapshotPositions } from '@/utils/savedGames';
+import { createClock, describeTimeout, getEngineTimeLimitMs, getMoveTimeBudgetMs, getTimeoutWinner, ENGINE_FALLBACK_RESERVE_MS, raceTimeBudget, stopClock, toPGNTimeControl } from '@/utils/chessClock';
+import { evaluateForColor, getOpponentPersonality, shouldAcceptDraw, shouldClaimDraw } from '@/utils/chessDrawOffers';
+import { describeMoves, getOpponentDifficulty, getRedoPlies, getTakebackPlies, shouldAllowTakeback } from '@/utils/chessTakebacks';
+import { AnalysisGame } from '@/utils/chessAnalysis';
+import { useChessEngine } from '@/hooks/useChessEngine';
+import { useChessClock } from '@/hooks/useChessClock';
+import { useReplay } from '@/hooks/useReplay';
+import { useLiveAnalysis } from '@/hooks/useLiveAnalysis';
 
 interface ChessBoardProps {
   gameMode: GameMode;
@@ -20,6 +39,19 @@ interface ChessBoardProps {
   opponent1Type?: string;
   opponent2Type?: string;
   playerColor?: PieceColor;
+  initialPosition?: Position;
+  // Untimed when omitted
+  timeControl?: TimeControl;
+  // Unrated, with unlimited undo and redo
+  casual?: boolean;
+  // Id for a new game, such as the one in its URL
+  initialGameId?: string;
+  // Restores an autosaved game instead of starting a new one
+  savedGame?: SavedGameSnapshot;
+  // Opens the post-game analysis screen
+  onAnalyzeGame?: (game: AnalysisGame) => void;
+  // Told the id of every game started on this board after the first
+  onGameIdChange?: (gameId: string) => void;
 }
 
 interface ChatMessage {
@@ -29,24 +61,69 @@ interface ChatMessage {
   timestamp: number;
 }
 
-const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerColor }: ChessBoardProps) => {
-  const [board, setBoard] = useState<(ChessPiece | null)[][]>(initializeBoard());
-  const [currentPlayer, setCurrentPlayer] = useState<PieceColor>('white');
+// Chat messages sent to opponents without an assistant thread, which are given the conversation each time
+const CHAT_HISTORY_LIMIT = 20;
+
+const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerColor, initialPosition, timeControl, casual, initialGameId, savedGame, onAnalyzeGame, onGameIdChange }: ChessBoardProps) => {
+  const [restored] = useState(() => savedGame ? restoreSnapshotPositions(savedGame) : null);
+  const [gameId, setGameId] = useState(() => savedGame?.id ?? initialGameId ?? crypto.randomUUID());
+  const startPosition = restored?.startPosition ?? initialPosition;
+  const [position, setPosition] = useState<Position>(() => restored?.position ?? initialPosition ?? createInitialPosition());
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
-  const [gameHistory, setGameHistory] = useState<Move[]>([]);
+  const [gameHistory, setGameHistory] = useState<Move[]>(savedGame?.moves ?? []);
   const [isThinking, setIsThinking] = useState(false);
-  const [gameTime, setGameTime] = useState(0);
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [gameTime, setGameTime] = useState(savedGame?.gameTime ?? 0);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>(savedGame?.chatMessages ?? []);
   const [gameOver, setGameOver] = useState(false);
-  const [winner, setWinner] = useState<PieceColor | 'draw' | null>(null);
+  const [winner, setWinner] = useState<GameResult['winner']>(null);
+  const [drawReason, setDrawReason] = useState<DrawReason | undefined>(undefined);
+  const [endReason, setEndReason] = useState<GameResult['reason'] | null>(null);
+  // Read by async AI moves, which must not be played once the game has ended
+  const gameOverRef = useRef(gameOver);
+  gameOverRef.current = gameOver;
+  // Every position before the current one, for threefold repetition
+  const [positionHistory, setPositionHistory] = useState<Position[]>(restored?.positionHistory ?? []);
   const [showPromotionDialog, setShowPromotionDialog] = useState(false);
   const [pendingPromotion, setPendingPromotion] = useState<{from: string, to: string, piece: ChessPiece} | null>(null);
+  // Number of moves played when the human last offered a draw; one offer per move
+  const [drawOfferPly, setDrawOfferPly] = useState<number | null>(null);
+  // Moves undone in a casual game, next to replay first; cleared by any new move
+  const [redoMoves, setRedoMoves] = useState<Move[]>([]);
+  const [takebacksGranted, setTakebacksGranted] = useState(savedGame?.takebacksGranted ?? 0);
   
   // Assistant-specific state
-  const [assistantId, setAssistantId] = useState<string>('');
-  const [threadId, setThreadId] = useState<string>('');
-  const [aiName, setAiName] = useState<string>('');
-  const [useAssistantsAPI, setUseAssistantsAPI] = useState(false);
+  const [assistantId, setAssistantId] = useState<string>(savedGame?.assistantId ?? '');
+  const [threadId, setThreadId] = useState<string>(savedGame?.threadId ?? '');
+  const [aiName, setAiName] = useState<string>(savedGame?.aiName ?? '');
+  const [useAssistantsAPI, setUseAssistantsAPI] = useState(!!savedGame?.threadId);
+  const aiOpponentType = playerColor === 'white' ? opponent2Type : opponent1Type;
+  const clockSettings = timeControl ?? savedGame?.clock?.timeControl;
+  // Two players sharing the board; neither side is an AI and the game is never rated
+  const isHotSeat = gameMode === 'human-vs-human';
+  // Ratings replay games from the standard start, so a game from a loaded position cannot be rated
+  const isCustomStart = !!startPosition && generateFEN(startPosition) !== STARTING_FEN;
+  const isCasual = isHotSeat || isCustomStart || (casual ?? savedGame?.casual ?? false);
+
+  const { board, turn: currentPlayer } = position;
+  // In a hot-seat game whoever is to move holds the board
+  const humanColor: PieceColor = isHotSeat ? currentPlayer : playerColor ?? 'white';
+  const { clock, whiteMs, blackMs, flagged, press: pressClock, reset: resetClock } = useChessClock(
+    savedGame?.clock ?? (timeControl ? createClock(timeControl, position.turn) : null),
+    !gameOver
+  );
+  // Validated in the engine worker once per move; null until the current position has been analyzed
+  const { analysis } = useChessEngine(position, positionHistory);
+  const gameValidation = analysis?.validation ?? null;
+  // The board can show an earlier position while the game goes on; positionHistory[n] follows n moves
+  const replay = useReplay(gameHistory.length);
+  const displayedPosition = replay.isViewingHistory ? positionHistory[replay.viewPly] : position;
+  // Locked in rated games until they end, where it would be an unfair aid
+  const canUseLiveAnalysis = isCasual || gameOver;
+  const [liveAnalysisEnabled, setLiveAnalysisEnabled] = useState(isCasual);
+  const [showBestMoveArrows, setShowBestMoveArrows] = useState(false);
+  const showLiveAnalysis = liveAnalysisEnabled && canUseLiveAnalysis;
+  const { evaluation: liveEvaluation, isSearching: isLiveSearching } = useLiveAnalysis(displayedPosition, showLiveAnalysis);
+  const viewedMove = replay.isViewingHistory && replay.viewPly > 0 ? gameHistory[replay.viewPly - 1] : null;
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -67,11 +144,30 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
   const initializeAssistant = async () => {
     console.log('🚀 Initializing Assistant API integration');
     
-    // Determine which opponent is the AI
-    const aiOpponentType = playerColor === 'white' ? opponent2Type : opponent1Type;
-    
     if (!aiOpponentType || aiOpponentType === 'human') return;
     
+    if (aiOpponentType === 'engine') {
+      // The local engine plays offline and needs no assistant or thread
+      setAiName('Local Engine');
+      return;
+    }
+
+    if (isLLMOpponent(aiOpponentType) && aiOpponentType !== 'gpt-4o') {
+      // Claude and Gemini play through their own provider; the chat log is their memory of the game
+      const { name } = LLM_OPPONENTS[aiOpponentType];
+      setAiName(name);
+      if (!savedGame) {
+        addChatMessage('ai', `Hello! I'm ${name}, your chess partner for this game. I'm excited to play with you and discuss our moves as we go. Good luck!`);
+      }
+      return;
+    }
+    
+    if (savedGame?.threadId) {
+      // The assistant already remembers this game on its thread
+      console.log('♻️ Resuming assistant thread:', savedGame.threadId);
+      return;
+    }
+    
     setUseAssistantsAPI(true);
     
     try {
@@ -107,45 +203,282 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
   };
 
   useEffect(() => {
-    // Validate game state after each move
-    const gameValidation = validateGameState(board, currentPlayer);
+    // Validate game state after each move, once the worker has analyzed it
+    if (!gameValidation) return;
+
     console.log('🎮 Game State Check:', {
       currentPlayer,
       isInCheck: gameValidation.isInCheck,
       isCheckmate: gameValidation.isCheckmate,
       isStalemate: gameValidation.isStalemate,
+      drawReason: gameValidation.drawReason,
       gameOver: gameValidation.gameOver,
       legalMoves: gameValidation.legalMoves.length
     });
 
     if (gameValidation.gameOver && !gameOver) {
       console.log('🏁 Game Over Detected:', {
-        reason: gameValidation.isCheckmate ? 'checkmate' : 'stalemate',
+        reason: gameValidation.isCheckmate ? 'checkmate' : gameValidation.drawReason,
         winner: gameValidation.winner
       });
       
-      setGameOver(true);
-      setWinner(gameValidation.winner || null);
-      
-      const gameOverMessage = gameValidation.isCheckmate 
-        ? `Checkmate! ${gameValidation.winner === 'white' ? 'White' : 'Black'} wins!`
-        : 'Stalemate! The game is a draw.';
-      
-      const gameOverChatMessage: ChatMessage = {
-        id: Date.now().toString(),
-        sender: 'ai',
-        message: gameOverMessage,
-        timestamp: Date.now()
-      };
-      setChatMessages(prev => [...prev, gameOverChatMessage]);
-      
+      setDrawReason(gameValidation.drawReason);
+      finishGame(
+        gameValidation.winner || 'draw',
+        gameValidation.isCheckmate ? 'checkmate' : gameValidation.drawReason,
+        gameValidation.isCheckmate 
+          ? `Checkmate! ${gameValidation.winner === 'white' ? 'White' : 'Black'} wins!`
+          : `Draw! ${describeDrawReason(gameValidation.drawReason!)}.`
+      );
       return;
     }
 
     if (!gameOver && (gameMode === 'ai-vs-ai' || (gameMode === 'human-vs-ai' && currentPlayer !== playerColor))) {
-      handleAIMove();
+      if (gameValidation.claimableDraw) {
+        handleAIDrawClaim(gameValidation.claimableDraw);
+      } else {
+        handleAIMove();
+      }
+    }
+  }, [gameValidation, gameMode, playerColor, gameOver]);
+
+  const finishGame = (result: GameResult['winner'], reason: GameResult['reason'], message: string) => {
+    if (gameOver) return;
+
+    console.log('🏁 Game finished:', { result, reason });
+    setGameOver(true);
+    setWinner(result);
+    setEndReason(reason);
+    persistFinishedGame(result, reason);
+
+    const gameOverChatMessage: ChatMessage = {
+      id: Date.now().toString(),
+      sender: 'ai',
+      message,
+      timestamp: Date.now()
+    };
+    setChatMessages(prev => [...prev, gameOverChatMessage]);
+  };
+  // Async handlers finish the game through this ref so they record the latest moves
+  const finishGameRef = useRef(finishGame);
+  finishGameRef.current = finishGame;
+
+  const handleFlagFall = (flaggedColor: PieceColor) => {
+    const result = getTimeoutWinner(board, flaggedColor);
+    finishGame(result, 'time', describeTimeout(flaggedColor, result));
+  };
+  // Called through a ref so the effect only fires when the flag falls
+  const handleFlagFallRef = useRef(handleFlagFall);
+  handleFlagFallRef.current = handleFlagFall;
+
+  useEffect(() => {
+    if (flagged) {
+      handleFlagFallRef.current(flagged);
+    }
+  }, [flagged]);
+
+  // Without a move on the board there is nothing to resign; the game is aborted instead
+  const canAbort = !gameOver && gameHistory.length < 2;
+  const canOfferDraw = !gameOver && gameMode !== 'ai-vs-ai' && drawOfferPly !== gameHistory.length;
+  const claimableDraw = !gameOver && currentPlayer === humanColor ? gameValidation?.claimableDraw : undefined;
+  // Takebacks only happen on the human's turn, so the AI is never interrupted mid-thought.
+  // Hot-seat players undo and redo one move at a time.
+  const takebackPlies = isHotSeat ? Math.min(1, gameHistory.length) : getTakebackPlies(gameHistory, humanColor);
+  const canTakeBack = !gameOver && !isThinking && gameMode !== 'ai-vs-ai' && currentPlayer === humanColor && takebackPlies > 0;
+  const canRedo = isCasual && !gameOver && !isThinking && currentPlayer === humanColor && redoMoves.length > 0;
+  // Results the server cannot check, such as a win on time, are not rated and the banner says so
+  const unratedNote = gameOver && endReason
+    ? getUnratedNote({ gameMode, playerColor, winner, reason: endReason, casual: isCasual })
+    : null;
+
+  const handleResign = () => {
+    if (gameOver) return;
+
+    if (canAbort) {
+      finishGame(null, 'aborted', 'Game aborted before both sides had moved.');
+      return;
+    }
+
+    const result: PieceColor = humanColor === 'white' ? 'black' : 'white';
+    finishGame(result, 'resignation', `${humanColor === 'white' ? 'White' : 'Black'} resigns. ${result === 'white' ? 'White' : 'Black'} wins!`);
+  };
+
+  const handleOfferDraw = async () => {
+    if (!canOfferDraw) return;
+    setDrawOfferPly(gameHistory.length);
+
+    // Both players are at the board, so offering a draw is agreeing to it
+    if (isHotSeat) {
+      finishGame('draw', 'draw', `${currentPlayer === 'white' ? 'White' : 'Black'} and ${currentPlayer === 'white' ? 'Black' : 'White'} agree to a draw.`);
+      return;
+    }
+
+    const offerMessage: ChatMessage = {
+      id: Date.now().toString(),
+      sender: 'human',
+      message: 'I offer a draw.',
+      timestamp: Date.now()
+    };
+    setChatMessages(prev => [...prev, offerMessage]);
+
+    const aiColor: PieceColor = humanColor === 'white' ? 'black' : 'white';
+    const evaluation = await evaluateForColor(position, aiColor);
+    if (gameOverRef.current) return;
+
+    const aiLabel = aiName || 'AI';
+    if (shouldAcceptDraw(getOpponentPersonality(aiOpponentType), evaluation, gameHistory.length)) {
+      finishGameRef.current('draw', 'draw', `${aiLabel} accepts the draw offer. The game is drawn by agreement.`);
+      return;
+    }
+
+    console.log('🤝 Draw offer declined:', { evaluation });
+    const declineMessage: ChatMessage = {
+      id: Date.now().toString(),
+      sender: 'ai',
+      message: `${aiLabel} declines the draw offer and plays on.`,
+      timestamp: Date.now()
+    };
+    setChatMessages(prev => [...prev, declineMessage]);
+  };
+
+  const handleClaimDraw = () => {
+    if (!claimableDraw) return;
+    setDrawReason(claimableDraw);
+    finishGame('draw', claimableDraw, `Draw claimed. ${describeDrawReason(claimableDraw)}.`);
+  };
+
+  // The AI claims a draw it is offered by the rules unless it still hopes to win
+  const handleAIDrawClaim = async (reason: DrawReason) => {
+    const evaluation = await evaluateForColor(position, currentPlayer);
+    if (gameOverRef.current) return;
+
+    if (shouldClaimDraw(getOpponentPersonality(aiOpponentType), evaluation)) {
+      setDrawReason(reason);
+      finishGameRef.current('draw', reason, `${aiName || 'AI'} claims a draw. ${describeDrawReason(reason)}.`);
+      return;
+    }
+    handleAIMove();
+  };
+
+  const handleNewGame = () => {
+    if (!gameOver && !canAbort) return;
+    // An abandoned game with moves is still recorded as aborted
+    if (!gameOver && gameHistory.length > 0) {
+      finishGame(null, 'aborted', 'Game aborted.');
+    }
+
+    const newGameId = crypto.randomUUID();
+    setGameId(newGameId);
+    onGameIdChange?.(newGameId);
+    setPosition(startPosition ?? createInitialPosition());
+    setPositionHistory([]);
+    setGameHistory([]);
+    setSelectedSquare(null);
+    setPendingPromotion(null);
+    setShowPromotionDialog(false);
+    setGameTime(0);
+    setGameOver(false);
+    setWinner(null);
+    setDrawReason(undefined);
+    setEndReason(null);
+    setDrawOfferPly(null);
+    setRedoMoves([]);
+    setTakebacksGranted(0);
+    resetClock(clockSettings ? createClock(clockSettings, (startPosition ?? createInitialPosition()).turn) : null);
+
+    const newGameMessage: ChatMessage = {
+      id: Date.now().toString(),
+      sender: 'ai',
+      message: 'New game started. Good luck!',
+      timestamp: Date.now()
+    };
+    setChatMessages(prev => [...prev, newGameMessage]);
+  };
+
+  const addChatMessage = (sender: ChatMessage['sender'], message: string) => {
+    const chatMessage: ChatMessage = {
+      id: Date.now().toString(),
+      sender,
+      message,
+      timestamp: Date.now()
+    };
+    setChatMessages(prev => [...prev, chatMessage]);
+  };
+
+  // Tells the assistant's thread about moves that left or rejoined the game, so its memory matches the board.
+  // The Chat Completions opponent is sent the whole move list each turn and needs no note.
+  const noteBoardChange = (note: string, newPosition: Position) => {
+    if (!useAssistantsAPI || !assistantId || !threadId) return;
+    addThreadNote(assistantId, threadId, `${note} The current position is ${generateFEN(newPosition)}.`);
+  };
+
+  const describePlies = (moves: Move[], firstPly: number) => {
+    const start = startPosition ?? createInitialPosition();
+    return describeMoves(moves, firstPly, start.fullmoveNumber, start.turn);
+  };
+
+  // positionHistory[i] is the position before move i, so undoing is a matter of slicing
+  const takeBack = (plies: number) => {
+    const keep = gameHistory.length - plies;
+    const undone = gameHistory.slice(keep);
+    const restoredPosition = positionHistory[keep];
+
+    setPosition(restoredPosition);
+    setPositionHistory(positionHistory.slice(0, keep));
+    setGameHistory(gameHistory.slice(0, keep));
+    setSelectedSquare(null);
+    setRedoMoves(prev => [...undone, ...prev]);
+
+    const moves = describePlies(undone, keep);
+    console.log('↩️ Moves taken back:', moves);
+    addChatMessage('ai', `Took back ${moves}.`);
+    noteBoardChange(`The moves ${moves} were taken back and are no longer part of the game.`, restoredPosition);
+  };
+
+  const handleTakeback = () => {
+    if (!canTakeBack) return;
+
+    if (isCasual) {
+      takeBack(takebackPlies);
+      return;
+    }
+
+    addChatMessage('human', 'May I take back my last move?');
+    const aiLabel = aiName || 'AI';
+    if (!shouldAllowTakeback(getOpponentPersonality(aiOpponentType), getOpponentDifficulty(aiOpponentType), takebacksGranted)) {
+      addChatMessage('ai', `${aiLabel} refuses the takeback. The move stands.`);
+      return;
     }
-  }, [currentPlayer, gameMode, playerColor, gameOver]);
+
+    setTakebacksGranted(prev => prev + 1);
+    addChatMessage('ai', `${aiLabel} allows the takeback.`);
+    takeBack(takebackPlies);
+  };
+
+  // Replays undone moves up to the human's next turn
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const plies = isHotSeat ? 1 : getRedoPlies(redoMoves, humanColor);
+    const replayed = redoMoves.slice(0, plies);
+
+    const newPositionHistory = [...positionHistory];
+    let newPosition = position;
+    replayed.forEach(move => {
+      newPositionHistory.push(newPosition);
+      newPosition = makeMove(newPosition, move.from, move.to, move.promotion);
+    });
+
+    setPosition(newPosition);
+    setPositionHistory(newPositionHistory);
+    setGameHistory([...gameHistory, ...replayed]);
+    setSelectedSquare(null);
+    setRedoMoves(redoMoves.slice(plies));
+
+    const moves = describePlies(replayed, gameHistory.length);
+    console.log('↪️ Moves replayed:', moves);
+    addChatMessage('ai', `Replayed ${moves}.`);
+    noteBoardChange(`The moves ${moves} were played again and are part of the game once more.`, newPosition);
+  };
 
   const handleAIMove = async () => {
     if (gameOver) {
@@ -166,76 +499,92 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
       let aiMove;
       let chatMessage = '';
       let promotionPiece: PieceType | undefined;
+      let remoteAnswered = false;
+      // On the clock the AI thinks for a share of its remaining time
+      const budgetMs = clock ? getMoveTimeBudgetMs(clock, currentPlayer, Date.now()) : undefined;
+      const remoteBudgetMs = budgetMs !== undefined ? Math.max(0, budgetMs - ENGINE_FALLBACK_RESERVE_MS) : undefined;
 
       if (gameMode === 'human-vs-ai' && useAssistantsAPI && assistantId && threadId) {
         console.log('🎯 Using OpenAI Assistants API');
-        const result = await getAssistantChessMove(assistantId, threadId, board, currentPlayer, gameHistory);
-        aiMove = result.move;
-        chatMessage = result.chatMessage;
-        
-        console.log('📤 Assistants API Result:', {
-          moveNotation: aiMove?.notation,
-          hasMove: !!aiMove,
-          chatMessage: chatMessage.substring(0, 100) + '...'
-        });
+        const result = await raceTimeBudget(getAssistantChessMove(assistantId, threadId, position, gameHistory), remoteBudgetMs);
         
-        if (chatMessage) {
-          const newChatMessage: ChatMessage = {
-            id: Date.now().toString(),
-            sender: 'ai',
-            message: chatMessage,
-            timestamp: Date.now()
-          };
-          setChatMessages(prev => [...prev, newChatMessage]);
+        if (result) {
+          remoteAnswered = true;
+          aiMove = result.move;
+          chatMessage = result.chatMessage;
+          promotionPiece = result.promotionPiece;
+          
+          console.log('📤 Assistants API Result:', {
+            moveNotation: aiMove?.notation,
+            hasMove: !!aiMove,
+            chatMessage: chatMessage.substring(0, 100) + '...'
+          });
         }
-      } else if (gameMode === 'human-vs-ai') {
-        console.log('🎯 Using Enhanced OpenAI Service');
-        const result = await getOpenAIMove(board, currentPlayer, gameHistory, 'Player', aiName);
-        aiMove = result.move;
-        chatMessage = result.chatMessage;
-        promotionPiece = result.promotionPiece;
+      } else if (gameMode === 'human-vs-ai' && isLLMOpponent(aiOpponentType)) {
+        console.log('🎯 Using LLM Provider:', LLM_OPPONENTS[aiOpponentType].provider);
+        const result = await raceTimeBudget(getLLMMove(getOpponentProvider(aiOpponentType), position, gameHistory, 'Player', aiName), remoteBudgetMs);
         
-        if (result.aiName && !aiName) {
-          setAiName(result.aiName);
+        if (result) {
+          remoteAnswered = true;
+          aiMove = result.move;
+          chatMessage = result.chatMessage;
+          promotionPiece = result.promotionPiece;
+          
+          if (result.aiName && !aiName) {
+            setAiName(result.aiName);
+          }
         }
-        
-        if (chatMessage) {
-          const newChatMessage: ChatMessage = {
-            id: Date.now().toString(),
-            sender: 'ai',
-            message: chatMessage,
-            timestamp: Date.now()
-          };
-          setChatMessages(prev => [...prev, newChatMessage]);
+      }
+
+      if (chatMessage) {
+        const newChatMessage: ChatMessage = {
+          id: Date.now().toString(),
+          sender: 'ai',
+          message: chatMessage,
+          timestamp: Date.now()
+        };
+        setChatMessages(prev => [...prev, newChatMessage]);
+      }
+
+      if (!remoteAnswered) {
+        const usedRemote = gameMode === 'human-vs-ai' && isLLMOpponent(aiOpponentType);
+        if (usedRemote) {
+          console.warn('⏰ AI did not answer within its time budget, falling back to the local engine');
         }
-      } else {
-        console.log('🎯 Using Basic AI Service for AI vs AI');
-        aiMove = await getAIMove(board, currentPlayer, gameHistory);
+        console.log('🎯 Using Local Engine');
+        const engineOptions = budgetMs === undefined
+          ? {}
+          : { timeLimitMs: usedRemote ? Math.min(budgetMs, ENGINE_FALLBACK_RESERVE_MS) : getEngineTimeLimitMs(budgetMs) };
+        aiMove = await getAIMove(position, gameHistory, engineOptions, positionHistory);
         
         if (aiMove && isPawnPromotion(aiMove.from, aiMove.to, aiMove.piece)) {
-          promotionPiece = 'queen';
+          promotionPiece = aiMove.promotion || 'queen';
         }
       }
 
+      // The game may have ended on time or by resignation while the AI was thinking
+      if (gameOverRef.current) {
+        console.log('🛑 AI move discarded - game ended while thinking');
+        return;
+      }
+
       if (aiMove) {
-        if (!isLegalMove(board, aiMove.from, aiMove.to, currentPlayer)) {
+        if (!isLegalMove(position, aiMove.from, aiMove.to)) {
           console.error('🚨 AI returned illegal move:', {
             from: aiMove.from,
             to: aiMove.to,
             piece: `${aiMove.piece.color} ${aiMove.piece.type}`
           });
-          
-          const legalMoves = getAllLegalMoves(board, currentPlayer);
-          if (legalMoves.length > 0) {
-            console.log('🔧 Using fallback legal move');
-            const fallbackMove = legalMoves[0].split('-');
-            aiMove.from = fallbackMove[0];
-            aiMove.to = fallbackMove[1];
-            aiMove.notation = legalMoves[0];
-          } else {
-            console.error('💀 No legal moves available');
+
+          // The local engine picks a replacement, as it does when an LLM's answer cannot be used
+          const fallbackOptions = budgetMs === undefined ? {} : { timeLimitMs: Math.min(budgetMs, ENGINE_FALLBACK_RESERVE_MS) };
+          aiMove = await getAIMove(position, gameHistory, fallbackOptions, positionHistory);
+          if (gameOverRef.current) return;
+          if (!aiMove || !isLegalMove(position, aiMove.from, aiMove.to)) {
+            console.error('💀 Engine fallback found no legal move');
             return;
           }
+          promotionPiece = isPawnPromotion(aiMove.from, aiMove.to, aiMove.piece) ? aiMove.promotion || 'queen' : undefined;
         }
 
         console.log('✅ Legal AI Move Execution:', {
@@ -244,13 +593,19 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
           piece: `${aiMove.piece.color} ${aiMove.piece.type}`,
           captured: aiMove.captured ? `${aiMove.captured.color} ${aiMove.captured.type}` : 'none',
           promotionPiece,
-          apiUsed: useAssistantsAPI ? 'Assistants' : 'Chat Completions'
+          apiUsed: useAssistantsAPI ? 'Assistants' : isLLMOpponent(aiOpponentType) ? LLM_OPPONENTS[aiOpponentType].provider : 'Local Engine'
         });
         
-        const newBoard = makeMove(board, aiMove.from, aiMove.to, promotionPiece);
-        setBoard(newBoard);
-        setGameHistory(prev => [...prev, aiMove]);
-        setCurrentPlayer(currentPlayer === 'white' ? 'black' : 'white');
+        const playedMove: Move = {
+          ...aiMove,
+          promotion: promotionPiece,
+          san: moveToSAN(position, aiMove.from, aiMove.to, promotionPiece),
+          comment: chatMessage || undefined
+        };
+        setPositionHistory(prev => [...prev, position]);
+        setPosition(makeMove(position, aiMove.from, aiMove.to, promotionPiece));
+        setGameHistory(prev => [...prev, playedMove]);
+        pressClock();
       } else {
         console.log('🏁 AI returned null move - game over scenario');
       }
@@ -264,79 +619,85 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
   const handleSquareClick = (row: number, col: number) => {
     if (gameMode === 'ai-vs-ai' || gameOver) return;
     if (gameMode === 'human-vs-ai' && currentPlayer !== playerColor) return;
+    // Moves are only played on the live position
+    if (replay.isViewingHistory) return;
 
-    const position = `${String.fromCharCode(97 + col)}${8 - row}`;
+    const square = `${String.fromCharCode(97 + col)}${8 - row}`;
     const piece = board[row][col];
 
     if (selectedSquare) {
-      if (selectedSquare === position) {
+      if (selectedSquare === square) {
         setSelectedSquare(null);
         return;
       }
 
       const [fromCol, fromRow] = [selectedSquare.charCodeAt(0) - 97, 8 - parseInt(selectedSquare[1])];
       
-      if (isLegalMove(board, selectedSquare, position, currentPlayer)) {
+      if (isLegalMove(position, selectedSquare, square)) {
         console.log('✅ Human move is legal:', {
           from: selectedSquare,
-          to: position,
+          to: square,
           player: currentPlayer
         });
 
         const movingPiece = board[fromRow][fromCol]!;
         
-        if (isPawnPromotion(selectedSquare, position, movingPiece)) {
+        if (isPawnPromotion(selectedSquare, square, movingPiece)) {
           console.log('👑 Human pawn promotion detected');
-          setPendingPromotion({ from: selectedSquare, to: position, piece: movingPiece });
+          setPendingPromotion({ from: selectedSquare, to: square, piece: movingPiece });
           setShowPromotionDialog(true);
           setSelectedSquare(null);
           return;
         }
 
-        executeMove(selectedSquare, position, movingPiece, piece);
+        const capturedPiece = getCapturedPiece(position, selectedSquare, square);
+        executeMove(selectedSquare, square, movingPiece, capturedPiece);
       } else {
         console.warn('❌ Human attempted illegal move:', {
           from: selectedSquare,
-          to: position,
+          to: square,
           player: currentPlayer
         });
 
         const illegalMoveMessage: ChatMessage = {
           id: Date.now().toString(),
           sender: 'ai',
-          message: `Illegal move! ${selectedSquare}-${position} would leave your king in check or violate chess rules.`,
+          message: `Illegal move! ${selectedSquare}-${square} would leave your king in check or violate chess rules.`,
           timestamp: Date.now()
         };
         setChatMessages(prev => [...prev, illegalMoveMessage]);
 
         if (piece && piece.color === currentPlayer) {
-          setSelectedSquare(position);
+          setSelectedSquare(square);
         } else {
           setSelectedSquare(null);
         }
       }
     } else {
       if (piece && piece.color === currentPlayer) {
-        setSelectedSquare(position);
+        setSelectedSquare(square);
       }
     }
   };
 
   const executeMove = (from: string, to: string, movingPiece: ChessPiece, capturedPiece: ChessPiece | null, promotionPiece?: PieceType) => {
-    const newBoard = makeMove(board, from, to, promotionPiece);
     const move: Move = {
       from,
       to,
       piece: movingPiece,
       captured: capturedPiece || undefined,
+      promotion: promotionPiece,
       timestamp: Date.now(),
-      notation: `${from}-${to}`
+      notation: `${from}-${to}`,
+      san: moveToSAN(position, from, to, promotionPiece)
     };
 
-    setBoard(newBoard);
+    setPositionHistory(prev => [...prev, position]);
+    setPosition(makeMove(position, from, to, promotionPiece));
     setGameHistory(prev => [...prev, move]);
-    setCurrentPlayer(currentPlayer === 'white' ? 'black' : 'white');
     setSelectedSquare(null);
+    setRedoMoves([]);
+    pressClock();
 
     if (isCastlingMove(from, to, movingPiece)) {
       const castlingMessage: ChatMessage = {
@@ -401,6 +762,13 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
       } catch (error) {
         console.error('❌ Chat message failed:', error);
       }
+    } else if (gameMode === 'human-vs-ai' && isLLMOpponent(aiOpponentType) && !useAssistantsAPI) {
+      const history = [...chatMessages, newMessage].slice(-CHAT_HISTORY_LIMIT).map(chat => ({
+        role: chat.sender === 'human' ? 'user' as const : 'assistant' as const,
+        content: chat.message
+      }));
+      const response = await getLLMChatReply(getOpponentProvider(aiOpponentType), history, position);
+      addChatMessage('ai', response);
     }
   };
 
@@ -437,7 +805,110 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
 
   const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
   const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
-  const gameValidation = validateGameState(board, currentPlayer);
+  const getPlayerTags = (): Record<string, string> => {
+    const aiLabel = aiName || 'AI';
+    if (isHotSeat) return { White: 'White', Black: 'Black' };
+    const aiModel = gameMode === 'human-vs-ai' && isLLMOpponent(aiOpponentType) ? LLM_OPPONENTS[aiOpponentType].model : 'local';
+    return gameMode === 'human-vs-ai'
+      ? playerColor === 'white'
+        ? { White: 'Player', Black: aiLabel, BlackModel: aiModel }
+        : { White: aiLabel, Black: 'Player', WhiteModel: aiModel }
+      : { White: 'AI (White)', Black: 'AI (Black)', WhiteModel: aiModel, BlackModel: aiModel };
+  };
+
+  const buildPGN = (result: PGNResult, reason?: GameResult['reason']) => {
+    const tags = getPlayerTags();
+    const pgn = exportPGN({
+      moves: gameHistory,
+      startPosition,
+      result,
+      tags: {
+        Event: gameMode === 'human-vs-ai' ? 'Human vs AI' : isHotSeat ? 'Human vs Human' : 'AI vs AI',
+        ...tags,
+        ...(clock && { TimeControl: toPGNTimeControl(clock.timeControl) }),
+        ...(reason === 'time' && { Termination: 'time forfeit' }),
+        ...(reason === 'aborted' && { Termination: 'abandoned' })
+      }
+    });
+
+    return { pgn, white: tags.White, black: tags.Black };
+  };
+
+  const handleAnalyzeGame = () => {
+    const tags = getPlayerTags();
+    onAnalyzeGame?.({
+      id: gameId,
+      startPosition: startPosition ?? createInitialPosition(),
+      moves: gameHistory,
+      whiteName: tags.White,
+      blackName: tags.Black,
+      result: toPGNResult(winner)
+    });
+  };
+
+  const handleExportPGN = () => {
+    const { pgn, white, black } = buildPGN(gameOver ? toPGNResult(winner) : '*', endReason);
+    downloadPGN(pgn, `${white}-vs-${black}.pgn`.replace(/\s+/g, '_'));
+  };
+
+  const persistFinishedGame = (result: GameResult['winner'], reason: GameResult['reason']) => {
+    const { pgn, white, black } = buildPGN(toPGNResult(result), reason);
+    const humanColor = gameMode === 'human-vs-ai' ? playerColor : undefined;
+
+    removeLocalSnapshot(gameId);
+
+    // The first opponent plays white
+    saveFinishedGame({
+      id: gameId,
+      gameMode,
+      opponent1Type: opponent1Type ?? (humanColor === 'white' ? 'human' : 'ai'),
+      opponent2Type: opponent2Type ?? (humanColor === 'black' ? 'human' : 'ai'),
+      playerColor: humanColor,
+      winner: result,
+      reason,
+      moves: gameHistory,
+      pgn,
+      durationSeconds: gameTime,
+      whiteName: white,
+      blackName: black,
+      commentary: chatMessages.map(({ sender, message, timestamp }) => ({ sender, message, timestamp })),
+      casual: isCasual
+    }).catch(error => console.error('❌ Game save failed:', error));
+  };
+
+  const autosaveGame = () => {
+    if (gameOver || gameHistory.length === 0) return;
+
+    const tags = getPlayerTags();
+    saveGameSnapshot({
+      id: gameId,
+      board: 'human-vs-ai',
+      gameMode,
+      opponent1Type: opponent1Type ?? (playerColor === 'white' ? 'human' : 'ai'),
+      opponent2Type: opponent2Type ?? (playerColor === 'black' ? 'human' : 'ai'),
+      playerColor: isHotSeat ? undefined : playerColor,
+      whiteName: tags.White,
+      blackName: tags.Black,
+      ...toSnapshotPositions(startPosition ?? createInitialPosition(), position, positionHistory),
+      moves: gameHistory,
+      gameTime,
+      chatMessages,
+      assistantId: assistantId || undefined,
+      threadId: threadId || undefined,
+      aiName: aiName || undefined,
+      clock: clock && stopClock(clock, Date.now()),
+      casual: isCasual,
+      takebacksGranted,
+      updatedAt: Date.now()
+    });
+  };
+  // Saved through a ref so the autosave effect runs once per move but sees the latest state
+  const autosaveGameRef = useRef(autosaveGame);
+  autosaveGameRef.current = autosaveGame;
+
+  useEffect(() => {
+    autosaveGameRef.current();
+  }, [gameHistory]);
 
   return (
     <div className="min-h-screen p-4">
@@ -458,13 +929,87 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
               <Clock className="w-4 h-4 mr-2" />
               {formatTime(gameTime)}
             </div>
-            <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+            <Button 
+              onClick={handleExportPGN}
+              variant="outline" 
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              disabled={gameHistory.length === 0}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export PGN
+            </Button>
+            {gameOver && onAnalyzeGame && (
+              <Button 
+                onClick={handleAnalyzeGame}
+                variant="outline" 
+                className="border-amber-600 text-amber-300 hover:bg-amber-600/20"
+                disabled={gameHistory.length === 0}
+              >
+                <Microscope className="w-4 h-4 mr-2" />
+                Analyze Game
+              </Button>
+            )}
+            {gameMode !== 'ai-vs-ai' && (
+              <Button 
+                onClick={handleTakeback}
+                variant="outline" 
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                disabled={!canTakeBack}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                {isCasual ? 'Undo' : 'Takeback'}
+              </Button>
+            )}
+            {isCasual && (
+              <Button 
+                onClick={handleRedo}
+                variant="outline" 
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                disabled={!canRedo}
+              >
+                <Redo2 className="w-4 h-4 mr-2" />
+                Redo
+              </Button>
+            )}
+            <Button 
+              onClick={handleNewGame}
+              variant="outline" 
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              disabled={!gameOver && !canAbort}
+              title={!gameOver && !canAbort ? 'Resign or agree a draw before starting a new game' : undefined}
+            >
               <RotateCcw className="w-4 h-4 mr-2" />
               New Game
             </Button>
-            <Button variant="outline" className="border-red-600 text-red-400 hover:bg-red-600/20">
-              <Flag className="w-4 h-4 mr-2" />
-              Resign
+            {claimableDraw ? (
+              <Button 
+                onClick={handleClaimDraw}
+                variant="outline" 
+                className="border-amber-600 text-amber-300 hover:bg-amber-600/20"
+                title={describeDrawReason(claimableDraw)}
+              >
+                <Scale className="w-4 h-4 mr-2" />
+                Claim Draw
+              </Button>
+            ) : (
+              <Button 
+                onClick={handleOfferDraw}
+                variant="outline" 
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                disabled={!canOfferDraw}
+              >
+                <Handshake className="w-4 h-4 mr-2" />
+                Offer Draw
+              </Button>
+            )}
+            <Button 
+              onClick={handleResign}
+              variant="outline" 
+              className="border-red-600 text-red-400 hover:bg-red-600/20"
+              disabled={gameOver || gameMode === 'ai-vs-ai'}
+            >
+              {canAbort ? <Ban className="w-4 h-4 mr-2" /> : <Flag className="w-4 h-4 mr-2" />}
+              {canAbort ? 'Abort' : 'Resign'}
             </Button>
           </div>
         </div>
@@ -473,11 +1018,24 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
         {gameOver && (
           <div className="mb-6 p-4 bg-amber-600/20 border border-amber-600 rounded-lg text-center">
             <h2 className="text-2xl font-bold text-amber-300">
-              {winner === 'draw' ? 'Stalemate - Draw!' : `${winner === 'white' ? 'White' : 'Black'} Wins!`}
+              {winner === 'draw' ? 'Draw!' : winner ? `${winner === 'white' ? 'White' : 'Black'} Wins!` : 'Game Aborted'}
             </h2>
             <p className="text-amber-200 mt-2">
-              {winner === 'draw' ? 'No legal moves available but king not in check' : 'Checkmate - King captured!'}
+              {endReason === 'time'
+                ? describeTimeout(flagged, winner)
+                : endReason === 'resignation'
+                ? `${winner === 'white' ? 'Black' : 'White'} resigned`
+                : endReason === 'draw'
+                ? 'Draw by agreement'
+                : endReason === 'aborted'
+                ? 'The game was aborted and will not be rated'
+                : winner === 'draw' && drawReason ? describeDrawReason(drawReason) : 'Checkmate - King captured!'}
             </p>
+            {unratedNote && (
+              <p className="text-amber-200 text-sm mt-1">
+                {unratedNote}
+              </p>
+            )}
             {useAssistantsAPI && (
               <p className="text-amber-200 text-sm mt-1">
                 Powered by OpenAI Assistants API
@@ -500,57 +1058,101 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
           <div className="flex-1 max-w-4xl">
             <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
               <div className="max-w-3xl mx-auto">
-                <div className="inline-block">
-                  <div className="grid grid-cols-10 grid-rows-10 gap-0 aspect-square border-4 border-amber-400 rounded-lg overflow-hidden">
-                    {/* ... keep existing code (board rendering) */}
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                {clock && (
+                  <div className="mb-4">
+                    <ChessClock
+                      color="black"
+                      name={getPlayerTags().Black}
+                      remainingMs={blackMs}
+                      isActive={!gameOver && clock.active === 'black'}
+                      flagged={flagged === 'black'}
+                    />
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  {showLiveAnalysis && <EvaluationBar evaluation={liveEvaluation} />}
+                  <div className="inline-block">
+                    <div className="relative grid grid-cols-10 grid-rows-10 gap-0 aspect-square border-4 border-amber-400 rounded-lg overflow-hidden">
+                      {showLiveAnalysis && showBestMoveArrows && liveEvaluation?.bestMove && (
+                        <BoardArrows arrows={[liveEvaluation.bestMove]} />
+                      )}
+                      {/* ... keep existing code (board rendering) */}
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
                     
-                    {files.map(file => (
-                      <div key={`top-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {file}
-                      </div>
-                    ))}
+                      {files.map(file => (
+                        <div key={`top-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {file}
+                        </div>
+                      ))}
                     
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
 
-                    {board.map((row, rowIndex) => [
-                      <div key={`left-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {ranks[rowIndex]}
-                      </div>,
+                      {displayedPosition.board.map((row, rowIndex) => [
+                        <div key={`left-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {ranks[rowIndex]}
+                        </div>,
                       
-                      ...row.map((piece, colIndex) => {
-                        const position = `${String.fromCharCode(97 + colIndex)}${8 - rowIndex}`;
-                        const isLight = (rowIndex + colIndex) % 2 === 0;
-                        const isSelected = selectedSquare === position;
+                        ...row.map((piece, colIndex) => {
+                          const square = `${String.fromCharCode(97 + colIndex)}${8 - rowIndex}`;
+                          const isLight = (rowIndex + colIndex) % 2 === 0;
+                          const isSelected = selectedSquare === square
+                            || (!!viewedMove && (viewedMove.from === square || viewedMove.to === square));
                         
-                        return (
-                          <ChessSquare
-                            key={position}
-                            position={position}
-                            piece={piece}
-                            isLight={isLight}
-                            isSelected={isSelected}
-                            onClick={() => handleSquareClick(rowIndex, colIndex)}
-                            pieceSymbol={getPieceSymbol(piece)}
-                          />
-                        );
-                      }),
+                          return (
+                            <ChessSquare
+                              key={square}
+                              position={square}
+                              piece={piece}
+                              isLight={isLight}
+                              isSelected={isSelected}
+                              onClick={() => handleSquareClick(rowIndex, colIndex)}
+                              pieceSymbol={getPieceSymbol(piece)}
+                            />
+                          );
+                        }),
                       
-                      <div key={`right-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {ranks[rowIndex]}
-                      </div>
-                    ])}
+                        <div key={`right-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {ranks[rowIndex]}
+                        </div>
+                      ])}
 
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
                     
-                    {files.map(file => (
-                      <div key={`bottom-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
-                        {file}
-                      </div>
-                    ))}
+                      {files.map(file => (
+                        <div key={`bottom-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                          {file}
+                        </div>
+                      ))}
                     
-                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                      <div className="flex items-center justify-center bg-slate-900/50"></div>
+                    </div>
+                  </div>
+                </div>
+                {clock && (
+                  <div className="mt-4">
+                    <ChessClock
+                      color="white"
+                      name={getPlayerTags().White}
+                      remainingMs={whiteMs}
+                      isActive={!gameOver && clock.active === 'white'}
+                      flagged={flagged === 'white'}
+                    />
                   </div>
+                )}
+                <div className="mt-4">
+                  <LiveAnalysisPanel
+                    enabled={showLiveAnalysis}
+                    onEnabledChange={setLiveAnalysisEnabled}
+                    disabled={!canUseLiveAnalysis}
+                    showArrows={showBestMoveArrows}
+                    onShowArrowsChange={setShowBestMoveArrows}
+                    evaluation={liveEvaluation}
+                    isSearching={isLiveSearching}
+                    note={canUseLiveAnalysis ? undefined : 'Off until the rated game ends'}
+                  />
+                </div>
+                <div className="mt-4">
+                  <ReplayControls replay={replay} />
                 </div>
               </div>
               
@@ -559,7 +1161,7 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
                 <div className={`inline-flex items-center px-6 py-3 rounded-full ${
                   gameOver 
                     ? 'bg-gradient-to-r from-amber-600 to-amber-700 text-white'
-                    : gameValidation.isInCheck
+                    : gameValidation?.isInCheck
                     ? 'bg-gradient-to-r from-red-600 to-red-700 text-white'
                     : currentPlayer === 'white' 
                     ? 'bg-gradient-to-r from-slate-100 to-slate-200 text-slate-900' 
@@ -568,13 +1170,13 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
                   <div className={`w-3 h-3 rounded-full mr-3 ${
                     gameOver
                       ? 'bg-amber-300'
-                      : gameValidation.isInCheck
+                      : gameValidation?.isInCheck
                       ? 'bg-red-300'
                       : currentPlayer === 'white' ? 'bg-white border-2 border-slate-400' : 'bg-slate-900'
                   }`} />
                   {gameOver 
-                    ? `Game Over - ${winner === 'draw' ? 'Draw' : `${winner} wins`}`
-                    : gameValidation.isInCheck
+                    ? `Game Over - ${winner === 'draw' ? 'Draw' : winner ? `${winner} wins` : 'Aborted'}`
+                    : gameValidation?.isInCheck
                     ? `${currentPlayer} in CHECK! Must escape!`
                     : isThinking 
                     ? `${aiName || 'AI'} is ${useAssistantsAPI ? 'thinking deeply' : 'analyzing position'}...` 
@@ -610,7 +1212,7 @@ const ChessBoard = ({ gameMode, onEndGame, opponent1Type, opponent2Type, playerC
             isThinking={isThinking}
             aiName={aiName}
           />
-          <MoveHistory gameHistory={gameHistory} />
+          <MoveHistory gameHistory={gameHistory} currentPly={replay.viewPly} onSelectPly={replay.goTo} />
         </div>
       </div>
     </div>
@@ -0,0 +1,41 @@
+import { Clock } from 'lucide-react';
+import { PieceColor } from '@/types/chess';
+import { formatClock } from '@/utils/chessClock';
+
+interface ChessClockProps {
+  color: PieceColor;
+  name: string;
+  remainingMs: number;
+  isActive: boolean;
+  flagged: boolean;
+}
+
+// Under this much time left the clock turns red
+const LOW_TIME_MS = 20000;
+
+const ChessClock = ({ color, name, remainingMs, isActive, flagged }: ChessClockProps) => {
+  const isLow = remainingMs < LOW_TIME_MS;
+
+  return (
+    <div className={`flex items-center justify-between rounded-lg px-4 py-2 border ${
+      flagged
+        ? 'bg-red-900/40 border-red-600'
+        : isActive
+        ? 'bg-slate-700 border-amber-400'
+        : 'bg-slate-800/50 border-slate-700'
+    }`}>
+      <div className="flex items-center text-slate-300">
+        <div className={`w-3 h-3 rounded-full mr-2 ${color === 'white' ? 'bg-white border border-slate-400' : 'bg-slate-900 border border-slate-500'}`} />
+        <span className="text-sm font-medium">{name}</span>
+      </div>
+      <div className={`flex items-center font-mono text-xl font-bold ${
+        flagged || (isActive && isLow) ? 'text-red-400' : isActive ? 'text-white' : 'text-slate-400'
+      }`}>
+        <Clock className="w-4 h-4 mr-2" />
+        {formatClock(remainingMs)}
+      </div>
+    </div>
+  );
+};
+
+export default ChessClock;
@@ -0,0 +1,29 @@
+import { LiveEvaluation, formatLiveScore, getWhiteShare } from '@/utils/chessLiveAnalysis';
+
+interface EvaluationBarProps {
+  evaluation: LiveEvaluation | null;
+}
+
+// Vertical bar beside the board: white fills from the bottom as white's advantage grows
+const EvaluationBar = ({ evaluation }: EvaluationBarProps) => {
+  const whiteShare = evaluation ? getWhiteShare(evaluation) : 50;
+  const whiteAhead = !evaluation || whiteShare >= 50;
+
+  return (
+    <div className="relative w-6 self-stretch rounded overflow-hidden border border-slate-600 bg-slate-900" title="Engine evaluation">
+      <div
+        className="absolute bottom-0 left-0 right-0 bg-slate-100 transition-all duration-500"
+        style={{ height: `${whiteShare}%` }}
+      />
+      {evaluation && (
+        <span className={`absolute left-0 right-0 text-center text-[10px] font-bold ${
+          whiteAhead ? 'bottom-1 text-slate-900' : 'top-1 text-slate-100'
+        }`}>
+          {formatLiveScore(evaluation)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationBar;
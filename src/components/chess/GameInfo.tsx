@@ -1,7 +1,7 @@
 
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Bot, User, Brain } from 'lucide-react';
+import { Bot, User, Users, Brain } from 'lucide-react';
 import { GameMode, PieceColor, Move } from '@/types/chess';
 
 interface GameInfoProps {
@@ -21,6 +21,8 @@ const GameInfo = ({ gameMode, currentPlayer, gameHistory, isThinking, aiName }:
         <Badge variant="secondary" className="bg-blue-600 text-white">
           {gameMode === 'human-vs-ai' ? (
             <><User className="w-3 h-3 mr-1" /> Human vs AI</>
+          ) : gameMode === 'human-vs-human' ? (
+            <><Users className="w-3 h-3 mr-1" /> Human vs Human</>
           ) : (
             <><Bot className="w-3 h-3 mr-1" /> AI vs AI</>
           )}
@@ -2,20 +2,61 @@
 import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, Bot, User, UserCircle, Crown } from 'lucide-react';
-import { GameMode, AIModel, PieceColor } from '@/types/chess';
+import { ArrowLeft, Bot, User, Users, UserCircle, Crown } from 'lucide-react';
+import { GameMode, Position } from '@/types/chess';
+import { parseFEN, STARTING_FEN } from '@/utils/chessNotation';
 
 interface GameSetupProps {
-  onStartGame: (mode: GameMode) => void;
+  // Prefills the position field, e.g. when coming back from the opponent screen
+  initialFen?: string;
+  onStartGame: (mode: GameMode, startPosition?: Position) => void;
   onBack: () => void;
   onShowProfile: () => void;
 }
 
-const GameSetup = ({ onStartGame, onBack, onShowProfile }: GameSetupProps) => {
-  const [selectedModel, setSelectedModel] = useState<AIModel>('gpt-4o');
-  const [playerColor, setPlayerColor] = useState<PieceColor>('white');
+const GAME_MODES = [
+  {
+    id: 'human-vs-ai' as GameMode,
+    name: 'Human vs AI',
+    icon: User,
+    description: 'Play against an AI personality or the local engine',
+    color: 'from-blue-500 to-blue-600'
+  },
+  {
+    id: 'ai-vs-ai' as GameMode,
+    name: 'AI vs AI',
+    icon: Bot,
+    description: 'Watch two AI personalities battle each other',
+    color: 'from-purple-500 to-purple-600'
+  },
+  {
+    id: 'human-vs-human' as GameMode,
+    name: 'Human vs Human',
+    icon: Users,
+    description: 'Two players taking turns on this device',
+    color: 'from-green-500 to-green-600'
+  }
+];
+
+const GameSetup = ({ initialFen, onStartGame, onBack, onShowProfile }: GameSetupProps) => {
+  const [gameMode, setGameMode] = useState<GameMode>('human-vs-ai');
+  const [fen, setFen] = useState(initialFen ?? '');
+  const [fenError, setFenError] = useState<string | null>(null);
+
+  const handleContinue = () => {
+    if (!fen.trim()) {
+      onStartGame(gameMode);
+      return;
+    }
+
+    try {
+      onStartGame(gameMode, parseFEN(fen));
+    } catch (error) {
+      setFenError(error instanceof Error ? error.message : 'Invalid FEN');
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -54,56 +95,51 @@ const GameSetup = ({ onStartGame, onBack, onShowProfile }: GameSetupProps) => {
             </div>
 
             <div className="space-y-8">
-              {/* AI Model Selection */}
+              {/* Game Mode Selection */}
               <div className="space-y-3">
-                <Label className="text-lg font-semibold text-white">AI Opponent</Label>
-                <Select value={selectedModel} onValueChange={(value: AIModel) => setSelectedModel(value)}>
-                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent className="bg-slate-700 border-slate-600">
-                    <SelectItem value="gpt-4o" className="text-white hover:bg-slate-600">
-                      <div className="flex items-center">
-                        <Bot className="w-4 h-4 mr-2" />
-                        GPT-4o (Advanced AI)
-                      </div>
-                    </SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label className="text-lg font-semibold text-white">Game Mode</Label>
+                <div className="grid grid-cols-3 gap-4">
+                  {GAME_MODES.map(mode => (
+                    <Button
+                      key={mode.id}
+                      variant={gameMode === mode.id ? 'default' : 'outline'}
+                      className={`h-20 flex-col space-y-1 ${
+                        gameMode === mode.id
+                          ? `bg-gradient-to-r ${mode.color} text-white`
+                          : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+                      }`}
+                      onClick={() => setGameMode(mode.id)}
+                    >
+                      <mode.icon className="w-6 h-6" />
+                      <span className="text-sm">{mode.name}</span>
+                    </Button>
+                  ))}
+                </div>
                 <p className="text-sm text-slate-400">
-                  GPT-4o provides strategic and challenging gameplay with advanced position evaluation.
+                  {GAME_MODES.find(mode => mode.id === gameMode)?.description}
                 </p>
               </div>
 
-              {/* Player Color Selection */}
+              {/* Load Position */}
               <div className="space-y-3">
-                <Label className="text-lg font-semibold text-white">Your Color</Label>
-                <div className="grid grid-cols-2 gap-4">
-                  <Button
-                    variant={playerColor === 'white' ? 'default' : 'outline'}
-                    className={`h-16 ${
-                      playerColor === 'white'
-                        ? 'bg-gradient-to-r from-slate-100 to-slate-200 text-slate-900 hover:from-slate-200 hover:to-slate-300'
-                        : 'border-slate-600 text-slate-300 hover:bg-slate-700'
-                    }`}
-                    onClick={() => setPlayerColor('white')}
-                  >
-                    <User className="w-6 h-6 mr-2" />
-                    White (First Move)
-                  </Button>
-                  <Button
-                    variant={playerColor === 'black' ? 'default' : 'outline'}
-                    className={`h-16 ${
-                      playerColor === 'black'
-                        ? 'bg-gradient-to-r from-slate-700 to-slate-800 text-white hover:from-slate-600 hover:to-slate-700'
-                        : 'border-slate-600 text-slate-300 hover:bg-slate-700'
-                    }`}
-                    onClick={() => setPlayerColor('black')}
-                  >
-                    <User className="w-6 h-6 mr-2" />
-                    Black (Second Move)
-                  </Button>
-                </div>
+                <Label htmlFor="start-fen" className="text-lg font-semibold text-white">Load Position</Label>
+                <Input
+                  id="start-fen"
+                  value={fen}
+                  onChange={(e) => {
+                    setFen(e.target.value);
+                    setFenError(null);
+                  }}
+                  placeholder={STARTING_FEN}
+                  className="bg-slate-700 border-slate-600 text-white font-mono text-sm placeholder:text-slate-500"
+                />
+                {fenError ? (
+                  <p className="text-sm text-red-400">{fenError}</p>
+                ) : (
+                  <p className="text-sm text-slate-400">
+                    Optional. Paste a FEN to start from any position, or leave empty for the standard starting position.
+                  </p>
+                )}
               </div>
 
               {/* Game Info */}
@@ -112,17 +148,17 @@ const GameSetup = ({ onStartGame, onBack, onShowProfile }: GameSetupProps) => {
                 <ul className="text-sm text-slate-300 space-y-1">
                   <li>• Standard chess rules apply</li>
                   <li>• Click to select pieces, click again to move</li>
-                  <li>• AI will make moves automatically</li>
-                  <li>• Score is calculated based on game outcome and difficulty</li>
+                  <li>• {gameMode === 'human-vs-human' ? 'Players take turns at the same board' : 'AI will make moves automatically'}</li>
+                  <li>• {gameMode === 'human-vs-human' ? 'Hot-seat games are not rated' : 'Score is calculated based on game outcome and difficulty'}</li>
                 </ul>
               </div>
 
               {/* Start Game Button */}
               <Button 
-                onClick={() => onStartGame('human-vs-ai')}
+                onClick={handleContinue}
                 className="w-full h-12 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-semibold"
               >
-                Continue to Game
+                Continue
               </Button>
             </div>
           </div>
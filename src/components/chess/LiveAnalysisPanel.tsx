@@ -0,0 +1,62 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Activity } from 'lucide-react';
+import { LiveEvaluation, formatLiveScore } from '@/utils/chessLiveAnalysis';
+
+interface LiveAnalysisPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  showArrows: boolean;
+  onShowArrowsChange: (showArrows: boolean) => void;
+  evaluation: LiveEvaluation | null;
+  isSearching: boolean;
+  // Locks the switch, e.g. during a rated game
+  disabled?: boolean;
+  // Shown next to the switch, e.g. when the game is rated
+  note?: string;
+}
+
+const LiveAnalysisPanel = ({
+  enabled,
+  onEnabledChange,
+  showArrows,
+  onShowArrowsChange,
+  evaluation,
+  isSearching,
+  disabled = false,
+  note
+}: LiveAnalysisPanelProps) => (
+  <div className="rounded-lg border border-slate-700 bg-slate-800/50 px-4 py-3 space-y-2">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center text-slate-300">
+        <Activity className={`w-4 h-4 mr-2 ${isSearching ? 'text-green-400 animate-pulse' : 'text-slate-400'}`} />
+        <Label htmlFor="live-analysis" className="text-sm font-medium">Engine analysis</Label>
+        {note && <span className="ml-2 text-xs text-slate-500">{note}</span>}
+      </div>
+      <div className="flex items-center space-x-4">
+        {enabled && (
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="best-move-arrows" className="text-xs text-slate-400">Arrows</Label>
+            <Switch id="best-move-arrows" checked={showArrows} onCheckedChange={onShowArrowsChange} />
+          </div>
+        )}
+        <Switch id="live-analysis" checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+      </div>
+    </div>
+    {enabled && (
+      <div className="text-sm font-mono text-slate-300 truncate">
+        {evaluation ? (
+          <>
+            <span className="font-bold text-white mr-2">{formatLiveScore(evaluation)}</span>
+            <span className="text-slate-500 mr-2">d{evaluation.depth}</span>
+            {evaluation.line}
+          </>
+        ) : (
+          <span className="text-slate-500">{isSearching ? 'Analyzing...' : 'No legal moves to analyze'}</span>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export default LiveAnalysisPanel;
@@ -6,9 +6,13 @@ import { Move } from '@/types/chess';
 
 interface MoveHistoryProps {
   gameHistory: Move[];
+  // Number of moves played in the position on the board, for highlighting
+  currentPly?: number;
+  // Jumps the board to the position after the given number of moves
+  onSelectPly?: (ply: number) => void;
 }
 
-const MoveHistory = ({ gameHistory }: MoveHistoryProps) => {
+const MoveHistory = ({ gameHistory, currentPly, onSelectPly }: MoveHistoryProps) => {
   return (
     <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
       <div className="p-4">
@@ -27,25 +31,30 @@ const MoveHistory = ({ gameHistory }: MoveHistoryProps) => {
               gameHistory.map((move, index) => {
                 const moveNumber = Math.floor(index / 2) + 1;
                 const isWhiteMove = index % 2 === 0;
+                const isCurrent = currentPly === index + 1;
                 
                 return (
-                  <div
+                  <button
                     key={index}
-                    className={`flex items-center justify-between p-2 rounded ${
-                      index % 2 === 0 ? 'bg-slate-700/30' : 'bg-slate-600/30'
-                    }`}
+                    onClick={() => onSelectPly?.(index + 1)}
+                    disabled={!onSelectPly}
+                    className={`w-full flex items-center justify-between p-2 rounded text-left ${
+                      isCurrent
+                        ? 'bg-amber-500/30 ring-1 ring-amber-400'
+                        : index % 2 === 0 ? 'bg-slate-700/30' : 'bg-slate-600/30'
+                    } ${onSelectPly ? 'hover:bg-slate-600/60' : ''}`}
                   >
                     <span className="text-slate-300 text-sm">
                       {isWhiteMove ? `${moveNumber}.` : `${moveNumber}...`}
                     </span>
-                    <span className="text-white font-mono text-sm">{move.notation}</span>
+                    <span className="text-white font-mono text-sm">{move.san || move.notation}</span>
                     <span className="text-xs text-slate-400">
                       {new Date(move.timestamp).toLocaleTimeString([], { 
                         hour: '2-digit', 
                         minute: '2-digit' 
                       })}
                     </span>
-                  </div>
+                  </button>
                 );
               })
             )}
@@ -3,29 +3,38 @@ import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { ArrowLeft, Bot, User, Zap, Brain, Sparkles } from 'lucide-react';
-import { GameMode, PieceColor } from '@/types/chess';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, User, Zap, Brain, Sparkles, Cpu, Shuffle } from 'lucide-react';
+import { GameMode, GameSettings, PieceColor, TimeControl } from '@/types/chess';
+import { formatTimeControl, TIME_CONTROL_PRESETS } from '@/utils/chessClock';
+import { getAIPlayers } from '@/utils/aiPlayerManager';
+import { isLLMOpponent, LLM_OPPONENTS, LLM_PROVIDERS } from '@/utils/chessLLMProviders';
 
-type OpponentType = 'human' | 'gpt-4o' | 'claude' | 'gemini';
+type OpponentType = 'gpt-4o' | 'claude' | 'gemini' | 'engine';
 
 interface OpponentSelectionProps {
-  onStartGame: (mode: GameMode, opponent1: OpponentType, opponent2: OpponentType, playerColor?: PieceColor) => void;
+  gameMode: GameMode;
+  onStartGame: (settings: GameSettings) => void;
   onBack: () => void;
 }
 
-const OpponentSelection = ({ onStartGame, onBack }: OpponentSelectionProps) => {
-  const [opponent1, setOpponent1] = useState<OpponentType>('human');
-  const [opponent2, setOpponent2] = useState<OpponentType>('gpt-4o');
+const RANDOM_PLAYER = 'random';
+
+const OpponentSelection = ({ gameMode, onStartGame, onBack }: OpponentSelectionProps) => {
+  const [aiOpponent, setAiOpponent] = useState<OpponentType>('gpt-4o');
+  // AI vs AI personalities by player id, or RANDOM_PLAYER
+  const [whitePlayerId, setWhitePlayerId] = useState(RANDOM_PLAYER);
+  const [blackPlayerId, setBlackPlayerId] = useState(RANDOM_PLAYER);
   const [playerColor, setPlayerColor] = useState<PieceColor>('white');
+  // A preset id, 'untimed' or 'custom'
+  const [timeControlId, setTimeControlId] = useState('untimed');
+  const [customMinutes, setCustomMinutes] = useState(10);
+  const [customBonusSeconds, setCustomBonusSeconds] = useState(5);
+  const [customBonusType, setCustomBonusType] = useState<'increment' | 'delay'>('increment');
+  const [casual, setCasual] = useState(false);
 
   const opponents = [
-    { 
-      id: 'human' as OpponentType, 
-      name: 'Human', 
-      icon: User, 
-      description: 'Play against another human player',
-      color: 'from-green-500 to-green-600'
-    },
     { 
       id: 'gpt-4o' as OpponentType, 
       name: 'GPT-4o', 
@@ -37,27 +46,114 @@ const OpponentSelection = ({ onStartGame, onBack }: OpponentSelectionProps) => {
       id: 'claude' as OpponentType, 
       name: 'Claude', 
       icon: Zap, 
-      description: 'Thoughtful AI chess mentor with persistent memory',
+      description: 'Thoughtful AI chess mentor, played by Anthropic\'s Claude',
       color: 'from-purple-500 to-purple-600'
     },
     { 
       id: 'gemini' as OpponentType, 
       name: 'Gemini', 
       icon: Sparkles, 
-      description: 'Creative AI explorer with innovative strategies',
+      description: 'Creative AI explorer, played by Google\'s Gemini',
       color: 'from-orange-500 to-orange-600'
     },
+    { 
+      id: 'engine' as OpponentType, 
+      name: 'Engine', 
+      icon: Cpu, 
+      description: 'Built-in search engine that works offline',
+      color: 'from-slate-500 to-slate-600'
+    },
+  ];
+
+  const getTimeControl = (): TimeControl | undefined => {
+    if (timeControlId === 'untimed') return undefined;
+    if (timeControlId === 'custom') {
+      const bonus = Math.max(0, customBonusSeconds);
+      return {
+        initialSeconds: Math.max(1, Math.round(customMinutes * 60)),
+        incrementSeconds: customBonusType === 'increment' ? bonus : 0,
+        delaySeconds: customBonusType === 'delay' ? bonus : 0
+      };
+    }
+    return TIME_CONTROL_PRESETS.find(preset => preset.id === timeControlId)?.timeControl;
+  };
+
+  const aiPlayers = getAIPlayers();
+  const aiPlayerOptions = [
+    { id: RANDOM_PLAYER, name: 'Random', avatar: null, model: 'Any' },
+    ...aiPlayers.map(player => ({
+      id: player.id,
+      name: player.name,
+      avatar: player.avatar,
+      model: opponents.find(opp => opp.id === player.llm)?.name ?? 'Engine'
+    }))
   ];
 
   const handleStartGame = () => {
-    const humanCount = [opponent1, opponent2].filter(opp => opp === 'human').length;
-    const gameMode: GameMode = humanCount > 0 ? 'human-vs-ai' : 'ai-vs-ai';
-    onStartGame(gameMode, opponent1, opponent2, gameMode === 'human-vs-ai' ? playerColor : undefined);
+    const timeControl = getTimeControl();
+
+    if (gameMode === 'human-vs-ai') {
+      // The first opponent plays white
+      onStartGame({
+        mode: gameMode,
+        opponent1Type: playerColor === 'white' ? 'human' : aiOpponent,
+        opponent2Type: playerColor === 'white' ? aiOpponent : 'human',
+        playerColor,
+        timeControl,
+        casual
+      });
+      return;
+    }
+
+    if (gameMode === 'ai-vs-ai') {
+      onStartGame({
+        mode: gameMode,
+        opponent1Type: 'ai',
+        opponent2Type: 'ai',
+        timeControl,
+        whitePlayerId: whitePlayerId === RANDOM_PLAYER ? undefined : whitePlayerId,
+        blackPlayerId: blackPlayerId === RANDOM_PLAYER ? undefined : blackPlayerId
+      });
+      return;
+    }
+
+    // Hot-seat games are never rated
+    onStartGame({ mode: gameMode, opponent1Type: 'human', opponent2Type: 'human', timeControl, casual: true });
   };
 
-  const humanInvolved = opponent1 === 'human' || opponent2 === 'human';
-  const aiOpponents = [opponent1, opponent2].filter(opp => opp !== 'human');
-  const useAssistantsAPI = aiOpponents.some(opp => ['gpt-4o', 'claude', 'gemini'].includes(opp));
+  const timeControl = getTimeControl();
+
+  const humanVsAI = gameMode === 'human-vs-ai';
+  const useAssistantsAPI = humanVsAI && aiOpponent === 'gpt-4o';
+  const opponentProvider = humanVsAI && isLLMOpponent(aiOpponent) ? LLM_PROVIDERS[LLM_OPPONENTS[aiOpponent].provider].label : null;
+  const battleUsesLLM = gameMode === 'ai-vs-ai' && [whitePlayerId, blackPlayerId].some(id =>
+    id === RANDOM_PLAYER || aiPlayers.some(player => player.id === id && player.llm)
+  );
+  const modeLabel = humanVsAI ? 'Human vs AI' : gameMode === 'ai-vs-ai' ? 'AI vs AI' : 'Human vs Human';
+
+  const renderAIPlayerPicker = (label: string, selectedId: string, onSelect: (id: string) => void) => (
+    <div className="space-y-3">
+      <Label className="text-lg font-semibold text-white">{label}</Label>
+      <div className="grid grid-cols-5 gap-3">
+        {aiPlayerOptions.map(option => (
+          <Button
+            key={`${label}-${option.id}`}
+            variant={selectedId === option.id ? 'default' : 'outline'}
+            className={`h-20 flex-col space-y-1 ${
+              selectedId === option.id
+                ? 'bg-gradient-to-r from-purple-500 to-purple-600 text-white'
+                : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+            }`}
+            onClick={() => onSelect(option.id)}
+          >
+            {option.avatar ? <span className="text-xl">{option.avatar}</span> : <Shuffle className="w-5 h-5" />}
+            <span className="text-xs">{option.name}</span>
+            <span className="text-[10px] opacity-75">{option.model}</span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
@@ -71,53 +167,44 @@ const OpponentSelection = ({ onStartGame, onBack }: OpponentSelectionProps) => {
             >
               <ArrowLeft className="w-4 h-4" />
             </Button>
-            <h2 className="text-3xl font-bold text-white">Select Opponents</h2>
+            <h2 className="text-3xl font-bold text-white">{gameMode === 'human-vs-human' ? 'Game Options' : 'Select Opponents'}</h2>
           </div>
 
           <div className="space-y-8">
-            <div className="space-y-3">
-              <Label className="text-lg font-semibold text-white">First Opponent</Label>
-              <div className="grid grid-cols-4 gap-3">
-                {opponents.map((opp) => (
-                  <Button
-                    key={`opp1-${opp.id}`}
-                    variant={opponent1 === opp.id ? 'default' : 'outline'}
-                    className={`h-16 flex-col space-y-1 ${
-                      opponent1 === opp.id
-                        ? `bg-gradient-to-r ${opp.color} text-white`
-                        : 'border-slate-600 text-slate-300 hover:bg-slate-700'
-                    }`}
-                    onClick={() => setOpponent1(opp.id)}
-                  >
-                    <opp.icon className="w-5 h-5" />
-                    <span className="text-xs">{opp.name}</span>
-                  </Button>
-                ))}
+            {humanVsAI && (
+              <div className="space-y-3">
+                <Label className="text-lg font-semibold text-white">AI Opponent</Label>
+                <div className="grid grid-cols-4 gap-3">
+                  {opponents.map((opp) => (
+                    <Button
+                      key={opp.id}
+                      variant={aiOpponent === opp.id ? 'default' : 'outline'}
+                      className={`h-16 flex-col space-y-1 ${
+                        aiOpponent === opp.id
+                          ? `bg-gradient-to-r ${opp.color} text-white`
+                          : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+                      }`}
+                      onClick={() => setAiOpponent(opp.id)}
+                    >
+                      <opp.icon className="w-5 h-5" />
+                      <span className="text-xs">{opp.name}</span>
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-sm text-slate-400">
+                  {opponents.find(opp => opp.id === aiOpponent)?.description}
+                </p>
               </div>
-            </div>
+            )}
 
-            <div className="space-y-3">
-              <Label className="text-lg font-semibold text-white">Second Opponent</Label>
-              <div className="grid grid-cols-4 gap-3">
-                {opponents.map((opp) => (
-                  <Button
-                    key={`opp2-${opp.id}`}
-                    variant={opponent2 === opp.id ? 'default' : 'outline'}
-                    className={`h-16 flex-col space-y-1 ${
-                      opponent2 === opp.id
-                        ? `bg-gradient-to-r ${opp.color} text-white`
-                        : 'border-slate-600 text-slate-300 hover:bg-slate-700'
-                    }`}
-                    onClick={() => setOpponent2(opp.id)}
-                  >
-                    <opp.icon className="w-5 h-5" />
-                    <span className="text-xs">{opp.name}</span>
-                  </Button>
-                ))}
-              </div>
-            </div>
+            {gameMode === 'ai-vs-ai' && (
+              <>
+                {renderAIPlayerPicker('White', whitePlayerId, setWhitePlayerId)}
+                {renderAIPlayerPicker('Black', blackPlayerId, setBlackPlayerId)}
+              </>
+            )}
 
-            {humanInvolved && (
+            {humanVsAI && (
               <div className="space-y-3">
                 <Label className="text-lg font-semibold text-white">Your Color</Label>
                 <div className="grid grid-cols-2 gap-4">
@@ -149,16 +236,124 @@ const OpponentSelection = ({ onStartGame, onBack }: OpponentSelectionProps) => {
               </div>
             )}
 
+            <div className="space-y-3">
+              <Label className="text-lg font-semibold text-white">Time Control</Label>
+              <div className="grid grid-cols-7 gap-2">
+                {[{ id: 'untimed', label: 'Untimed', category: 'none' }, ...TIME_CONTROL_PRESETS.map(preset => ({
+                  id: preset.id,
+                  label: formatTimeControl(preset.timeControl),
+                  category: preset.category
+                })), { id: 'custom', label: 'Custom', category: 'custom' }].map(option => (
+                  <Button
+                    key={option.id}
+                    variant={timeControlId === option.id ? 'default' : 'outline'}
+                    className={`h-14 flex-col space-y-0 ${
+                      timeControlId === option.id
+                        ? 'bg-gradient-to-r from-amber-500 to-amber-600 text-white'
+                        : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+                    }`}
+                    onClick={() => setTimeControlId(option.id)}
+                  >
+                    <span className="text-sm font-semibold">{option.label}</span>
+                    {option.category !== 'none' && option.category !== 'custom' && (
+                      <span className="text-[10px] capitalize opacity-75">{option.category}</span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+              {timeControlId === 'custom' && (
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-sm text-slate-300">Minutes</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={customMinutes}
+                      onChange={(e) => setCustomMinutes(Number(e.target.value))}
+                      className="bg-slate-700 border-slate-600 text-white"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm text-slate-300">Seconds per move</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={customBonusSeconds}
+                      onChange={(e) => setCustomBonusSeconds(Number(e.target.value))}
+                      className="bg-slate-700 border-slate-600 text-white"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm text-slate-300">Bonus</Label>
+                    <div className="grid grid-cols-2 gap-1">
+                      {(['increment', 'delay'] as const).map(type => (
+                        <Button
+                          key={type}
+                          variant={customBonusType === type ? 'default' : 'outline'}
+                          className={`h-10 text-xs capitalize ${
+                            customBonusType === type
+                              ? 'bg-slate-600 text-white'
+                              : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+                          }`}
+                          onClick={() => setCustomBonusType(type)}
+                        >
+                          {type}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {humanVsAI && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="casual-game" className="text-lg font-semibold text-white">Casual Game</Label>
+                  <p className="text-sm text-slate-400">Unrated, with unlimited undo and redo</p>
+                </div>
+                <Switch id="casual-game" checked={casual} onCheckedChange={setCasual} />
+              </div>
+            )}
+
             <div className="bg-slate-700/50 rounded-lg p-6 space-y-2">
               <h3 className="font-semibold text-white">Game Info</h3>
               <ul className="text-sm text-slate-300 space-y-1">
-                <li>• {humanInvolved ? 'Human vs AI' : 'AI vs AI'} match selected</li>
+                <li>• {modeLabel} match selected</li>
                 <li>• Click to select pieces, click again to move</li>
-                <li>• {humanInvolved ? 'AI will make moves automatically' : 'Watch AI models battle each other'}</li>
-                <li>• Score is calculated based on game outcome</li>
+                <li>• {humanVsAI
+                  ? 'AI will make moves automatically'
+                  : gameMode === 'ai-vs-ai'
+                  ? 'Watch AI models battle each other'
+                  : 'White and Black take turns at this board'}</li>
+                <li>• {gameMode === 'human-vs-human' || (humanVsAI && casual) ? `${humanVsAI ? 'Casual' : 'Hot-seat'} games are not rated` : 'Score is calculated based on game outcome'}</li>
+                {gameMode === 'human-vs-human' && (
+                  <li>• Undo and redo moves as often as you like</li>
+                )}
+                {humanVsAI && (
+                  <li>• {casual ? 'Take back moves as often as you like' : 'The AI may refuse to let you take back a move'}</li>
+                )}
+                {timeControl && (
+                  <li>
+                    • {formatTimeControl(timeControl)}: {timeControl.delaySeconds > 0
+                      ? `up to ${timeControl.delaySeconds}s of each move is given back`
+                      : timeControl.incrementSeconds > 0
+                      ? `${timeControl.incrementSeconds}s added after each move`
+                      : 'no time added per move'}; running out of time loses
+                  </li>
+                )}
                 {useAssistantsAPI && (
                   <li className="text-blue-400">• Enhanced with OpenAI Assistants API for persistent conversations</li>
                 )}
+                {opponentProvider && !useAssistantsAPI && (
+                  <li className="text-blue-400">• Plays through the {opponentProvider} API with your {opponentProvider} API key</li>
+                )}
+                {battleUsesLLM && (
+                  <li className="text-blue-400">• Players backed by GPT-4o, Claude or Gemini need an API key for that provider</li>
+                )}
+                {humanVsAI && aiOpponent === 'engine' && (
+                  <li className="text-slate-400">• The local engine plays offline with no API key</li>
+                )}
               </ul>
             </div>
 
@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Upload, Microscope } from 'lucide-react';
+import { ChessPiece } from '@/types/chess';
+import ChessSquare from './ChessSquare';
+import { importPGN, ImportedGame } from '@/utils/chessPGN';
+import { AnalysisGame } from '@/utils/chessAnalysis';
+
+interface PgnViewerProps {
+  onBack: () => void;
+  onAnalyzeGame?: (game: AnalysisGame) => void;
+}
+
+const PgnViewer = ({ onBack, onAnalyzeGame }: PgnViewerProps) => {
+  const [pgnText, setPgnText] = useState('');
+  const [game, setGame] = useState<ImportedGame | null>(null);
+  const [ply, setPly] = useState(0);
+  const [error, setError] = useState('');
+
+  const handleImport = () => {
+    try {
+      const imported = importPGN(pgnText);
+      setGame(imported);
+      setPly(0);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read PGN');
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setPgnText(await file.text());
+  };
+
+  const getPieceSymbol = (piece: ChessPiece | null) => {
+    if (!piece) return '';
+
+    const symbols = {
+      white: { king: '♔', queen: '♕', rook: '♖', bishop: '♗', knight: '♘', pawn: '♙' },
+      black: { king: '♚', queen: '♛', rook: '♜', bishop: '♝', knight: '♞', pawn: '♟' }
+    };
+
+    return symbols[piece.color][piece.type];
+  };
+
+  const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
+
+  if (!game) {
+    return (
+      <div className="min-h-screen p-4">
+        <div className="max-w-3xl mx-auto">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-slate-600 text-slate-300 hover:bg-slate-700 mb-6"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Menu
+          </Button>
+
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6 space-y-4">
+            <h2 className="text-2xl font-bold text-white">Import PGN</h2>
+            <div className="space-y-2">
+              <Label htmlFor="pgn-text" className="text-slate-300">Paste a game</Label>
+              <Textarea
+                id="pgn-text"
+                value={pgnText}
+                onChange={(e) => setPgnText(e.target.value)}
+                placeholder={'[Event "AI vs AI Battle"]\n\n1. e4 e5 2. Nf3 Nc6 *'}
+                className="min-h-64 font-mono text-sm bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pgn-file" className="text-slate-300">Or open a .pgn file</Label>
+              <input
+                id="pgn-file"
+                type="file"
+                accept=".pgn,text/plain"
+                onChange={handleFileChange}
+                className="block text-sm text-slate-300"
+              />
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <Button
+              onClick={handleImport}
+              disabled={!pgnText.trim()}
+              className="w-full bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Load Game
+            </Button>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { board } = game.positions[ply];
+  const lastMove = ply > 0 ? game.moves[ply - 1] : null;
+  const comment = lastMove ? lastMove.comment : game.initialComment;
+
+  // Pair moves into numbered rows; a game set up with black to move starts with an empty white slot
+  const moveRows: { number: number; white?: number; black?: number }[] = [];
+  game.moves.forEach((_, index) => {
+    const slot = index + (game.startPosition.turn === 'black' ? 1 : 0);
+    if (slot % 2 === 0 || moveRows.length === 0) {
+      moveRows.push({ number: game.startPosition.fullmoveNumber + Math.floor(slot / 2) });
+    }
+    moveRows[moveRows.length - 1][slot % 2 === 0 ? 'white' : 'black'] = index;
+  });
+
+  const extraTags = Object.entries(game.tags).filter(([name]) => !['White', 'Black', 'Result', 'FEN', 'SetUp'].includes(name));
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Menu
+          </Button>
+
+          <div className="text-center">
+            <h2 className="text-xl font-bold text-white">
+              {game.tags.White || '?'} vs {game.tags.Black || '?'}
+            </h2>
+            <p className="text-amber-300">{game.result}</p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            {onAnalyzeGame && (
+              <Button
+                onClick={() => onAnalyzeGame({
+                  startPosition: game.startPosition,
+                  moves: game.moves,
+                  whiteName: game.tags.White || 'White',
+                  blackName: game.tags.Black || 'Black',
+                  result: game.result
+                })}
+                variant="outline"
+                className="border-amber-600 text-amber-300 hover:bg-amber-600/20"
+                disabled={game.moves.length === 0}
+              >
+                <Microscope className="w-4 h-4 mr-2" />
+                Analyze
+              </Button>
+            )}
+            <Button
+              onClick={() => setGame(null)}
+              variant="outline"
+              className="border-blue-600 text-blue-400 hover:bg-blue-600/20"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Load Another
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Chess Board */}
+          <div className="lg:col-span-2">
+            <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
+              <div className="max-w-2xl mx-auto">
+                <div className="inline-block">
+                  <div className="grid grid-cols-10 grid-rows-10 gap-0 aspect-square border-4 border-amber-400 rounded-lg overflow-hidden">
+                    {/* Top-left corner */}
+                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+
+                    {/* Top file labels */}
+                    {files.map(file => (
+                      <div key={`top-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                        {file}
+                      </div>
+                    ))}
+
+                    {/* Top-right corner */}
+                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+
+                    {/* Board rows */}
+                    {board.map((row, rowIndex) => [
+                      // Left rank label
+                      <div key={`left-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                        {ranks[rowIndex]}
+                      </div>,
+
+                      // Chess squares
+                      ...row.map((piece, colIndex) => {
+                        const square = `${String.fromCharCode(97 + colIndex)}${8 - rowIndex}`;
+                        const isLight = (rowIndex + colIndex) % 2 === 0;
+                        const isLastMove = !!lastMove && (lastMove.from === square || lastMove.to === square);
+
+                        return (
+                          <ChessSquare
+                            key={square}
+                            position={square}
+                            piece={piece}
+                            isLight={isLight}
+                            isSelected={isLastMove}
+                            onClick={() => {}}
+                            pieceSymbol={getPieceSymbol(piece)}
+                          />
+                        );
+                      }),
+
+                      // Right rank label
+                      <div key={`right-${ranks[rowIndex]}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                        {ranks[rowIndex]}
+                      </div>
+                    ])}
+
+                    {/* Bottom-left corner */}
+                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+
+                    {/* Bottom file labels */}
+                    {files.map(file => (
+                      <div key={`bottom-${file}`} className="flex items-center justify-center text-amber-300 font-bold text-lg bg-slate-900/50">
+                        {file}
+                      </div>
+                    ))}
+
+                    {/* Bottom-right corner */}
+                    <div className="flex items-center justify-center bg-slate-900/50"></div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Navigation */}
+              <div className="mt-6 flex items-center justify-center space-x-2">
+                <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => setPly(0)} disabled={ply === 0}>
+                  <ChevronsLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => setPly(ply - 1)} disabled={ply === 0}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-slate-300 w-24 text-center">
+                  {ply} / {game.moves.length}
+                </span>
+                <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => setPly(ply + 1)} disabled={ply === game.moves.length}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => setPly(game.moves.length)} disabled={ply === game.moves.length}>
+                  <ChevronsRight className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {comment && (
+                <p className="mt-4 text-slate-300 text-center italic">{comment}</p>
+              )}
+            </Card>
+          </div>
+
+          {/* Side Panel */}
+          <div className="space-y-6">
+            <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
+              <h3 className="text-lg font-bold text-white mb-4">Moves</h3>
+              <div className="max-h-96 overflow-y-auto space-y-1 text-sm">
+                {moveRows.map(row => (
+                  <div key={row.number} className="grid grid-cols-[3rem_1fr_1fr] gap-2">
+                    <span className="text-slate-500">{row.number}.</span>
+                    {[row.white, row.black].map((index, column) => index === undefined ? (
+                      <span key={column} className="text-slate-500">…</span>
+                    ) : (
+                      <button
+                        key={column}
+                        onClick={() => setPly(index + 1)}
+                        className={`text-left px-1 rounded ${ply === index + 1 ? 'bg-amber-500/30 text-amber-200' : 'text-slate-300 hover:bg-slate-700'}`}
+                        title={game.moves[index].comment}
+                      >
+                        {game.moves[index].san || game.moves[index].notation}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            {extraTags.length > 0 && (
+              <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm p-6">
+                <h3 className="text-lg font-bold text-white mb-4">Game Info</h3>
+                <div className="space-y-1 text-sm">
+                  {extraTags.map(([name, value]) => (
+                    <div key={name} className="flex justify-between">
+                      <span className="text-slate-400">{name}</span>
+                      <span className="text-slate-300">{value}</span>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PgnViewer;
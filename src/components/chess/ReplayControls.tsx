@@ -0,0 +1,61 @@
+import { Button } from '@/components/ui/button';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Play, Pause } from 'lucide-react';
+import { REPLAY_SPEEDS } from '@/utils/chessReplay';
+import { ReplayState } from '@/hooks/useReplay';
+
+interface ReplayControlsProps {
+  replay: ReplayState;
+}
+
+const ReplayControls = ({ replay }: ReplayControlsProps) => {
+  const { viewPly, totalPlies, isViewingHistory, isAutoplaying, intervalMs, setIntervalMs, navigate, toggleAutoplay } = replay;
+  const atStart = viewPly === 0;
+  const atEnd = !isViewingHistory;
+
+  return (
+    <div className="space-y-3">
+      {isViewingHistory && (
+        <div className="flex items-center justify-between rounded-lg px-4 py-2 bg-blue-900/30 border border-blue-600 text-sm text-blue-200">
+          <span>Viewing history - the live game carries on</span>
+          <button onClick={() => navigate('last')} className="font-semibold text-blue-300 hover:text-blue-100">
+            Back to live
+          </button>
+        </div>
+      )}
+      <div className="flex items-center justify-center space-x-2">
+        <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => navigate('first')} disabled={atStart} title="First move (↑)">
+          <ChevronsLeft className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => navigate('previous')} disabled={atStart} title="Previous move (←)">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-slate-300 w-24 text-center">
+          {viewPly} / {totalPlies}
+        </span>
+        <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => navigate('next')} disabled={atEnd} title="Next move (→)">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => navigate('last')} disabled={atEnd} title="Live position (↓)">
+          <ChevronsRight className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700" onClick={toggleAutoplay} disabled={totalPlies === 0} title={isAutoplaying ? 'Pause replay' : 'Replay moves'}>
+          {isAutoplaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+      </div>
+      <div className="flex items-center justify-center space-x-1 text-xs">
+        <span className="text-slate-400 mr-1">Replay speed</span>
+        {REPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed.intervalMs}
+            onClick={() => setIntervalMs(speed.intervalMs)}
+            className={`px-2 py-1 rounded ${intervalMs === speed.intervalMs ? 'bg-amber-500/30 text-amber-200' : 'text-slate-400 hover:bg-slate-700'}`}
+          >
+            {speed.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
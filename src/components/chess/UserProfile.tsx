@@ -10,7 +10,11 @@ import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 
 interface UserProfileProps {
+  // Another player's public profile; the signed-in user's own profile when omitted
+  username?: string;
   onBack: () => void;
+  // Opens a finished game from the recent games list
+  onOpenGame?: (gameId: string) => void;
 }
 
 interface GameHistory {
@@ -23,17 +27,48 @@ interface GameHistory {
   created_at: string;
 }
 
-const UserProfile = ({ onBack }: UserProfileProps) => {
+// Returned by the get_public_profile database function
+interface PublicProfile {
+  username: string;
+  stats: ReturnType<typeof useUserStats>['stats'];
+  games: GameHistory[];
+}
+
+const UserProfile = ({ username, onBack, onOpenGame }: UserProfileProps) => {
   const { user } = useAuth();
-  const { stats, profile, loading } = useUserStats();
+  const { stats: ownStats, profile: ownProfile, loading } = useUserStats();
   const [gameHistory, setGameHistory] = useState<GameHistory[]>([]);
   const [historyLoading, setHistoryLoading] = useState(true);
+  const [publicProfile, setPublicProfile] = useState<PublicProfile | null>(null);
+  const isOwnProfile = !username || (!!user && ownProfile?.username === username);
+  const stats = isOwnProfile ? ownStats : publicProfile?.stats;
+  const profile = isOwnProfile ? ownProfile : publicProfile;
 
   useEffect(() => {
-    if (user) {
+    if (!isOwnProfile) {
+      fetchPublicProfile();
+    } else if (user) {
       fetchGameHistory();
     }
-  }, [user]);
+  }, [user, isOwnProfile, username]);
+
+  const fetchPublicProfile = async () => {
+    setHistoryLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_public_profile', { profile_username: username });
+
+      if (error) {
+        console.error('Error fetching public profile:', error);
+      }
+      const found = data as unknown as PublicProfile | null;
+      setPublicProfile(found);
+      setGameHistory(found?.games ?? []);
+    } catch (error) {
+      console.error('Error fetching public profile:', error);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
 
   const fetchGameHistory = async () => {
     if (!user) return;
@@ -96,7 +131,7 @@ const UserProfile = ({ onBack }: UserProfileProps) => {
     );
   }
 
-  if (!user) {
+  if (isOwnProfile && !user) {
     return (
       <div className="min-h-screen p-4 flex items-center justify-center">
         <div className="text-white text-xl">Please log in to view your profile.</div>
@@ -104,6 +139,18 @@ const UserProfile = ({ onBack }: UserProfileProps) => {
     );
   }
 
+  if (!profile) {
+    return (
+      <div className="min-h-screen p-4 flex flex-col items-center justify-center space-y-4">
+        <div className="text-white text-xl">No player named {username}.</div>
+        <Button onClick={onBack} variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen p-4">
       <div className="max-w-6xl mx-auto">
@@ -208,7 +255,13 @@ const UserProfile = ({ onBack }: UserProfileProps) => {
               {gameHistory.length > 0 ? (
                 <div className="space-y-3">
                   {gameHistory.map((game) => (
-                    <div key={game.id} className="flex items-center justify-between p-4 bg-slate-700/50 rounded-lg">
+                    <div
+                      key={game.id}
+                      className={`flex items-center justify-between p-4 bg-slate-700/50 rounded-lg ${
+                        game.result && onOpenGame ? 'cursor-pointer hover:bg-slate-700' : ''
+                      }`}
+                      onClick={game.result && onOpenGame ? () => onOpenGame(game.id) : undefined}
+                    >
                       <div className="flex items-center space-x-4">
                         <Badge 
                           variant={game.result === 'win' ? 'default' : game.result === 'loss' ? 'destructive' : 'secondary'}
@@ -237,7 +290,7 @@ const UserProfile = ({ onBack }: UserProfileProps) => {
               ) : (
                 <div className="text-center py-8 text-slate-400">
                   <User className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                  <p>No games played yet. Start your first game!</p>
+                  <p>{isOwnProfile ? 'No games played yet. Start your first game!' : 'No finished games yet.'}</p>
                 </div>
               )}
             </Card>
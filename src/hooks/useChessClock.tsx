@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { checkFlag, ClockState, getRemainingMs, pressClock, startClock, stopClock } from '@/utils/chessClock';
+
+const CLOCK_TICK_MS = 100;
+
+// Runs the side-to-move's clock while `running` is true and flags it when its time runs out.
+// A null clock means the game is untimed.
+export const useChessClock = (initialClock: ClockState | null, running: boolean) => {
+  const [clock, setClock] = useState<ClockState | null>(initialClock);
+  const [now, setNow] = useState(() => Date.now());
+  const isTicking = !!clock && clock.runningSince !== null;
+
+  useEffect(() => {
+    const tick = Date.now();
+    setNow(tick);
+    setClock(prev => prev && (running ? startClock(prev, tick) : stopClock(prev, tick)));
+  }, [running]);
+
+  useEffect(() => {
+    if (!isTicking) return;
+
+    const timer = setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      setClock(prev => prev && checkFlag(prev, tick));
+    }, CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [isTicking]);
+
+  // Called once a move has been played, handing the clock to the other side
+  const press = useCallback(() => {
+    setClock(prev => prev && pressClock(prev, Date.now()));
+  }, []);
+
+  const reset = useCallback((next: ClockState | null) => {
+    setClock(next && running ? startClock(next, Date.now()) : next);
+  }, [running]);
+
+  return {
+    clock,
+    whiteMs: clock ? getRemainingMs(clock, 'white', now) : null,
+    blackMs: clock ? getRemainingMs(clock, 'black', now) : null,
+    flagged: clock?.flagged ?? null,
+    press,
+    reset
+  };
+};
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Position } from '@/types/chess';
+import { EngineOptions, EngineResult } from '@/utils/chessEngine';
+import { ChessEngineClient, createChessEngineClient } from '@/utils/chessEngineClient';
+import { EngineAnalysis } from '@/utils/chessEngineProtocol';
+
+const NO_HISTORY: Position[] = [];
+const NO_MOVES: string[] = [];
+
+// Keeps a worker-hosted engine in sync with the given position. Analysis is null until the
+// worker has answered for the current position, so callers never act on a stale result.
+export const useChessEngine = (position: Position | null, history: Position[] = NO_HISTORY) => {
+  const clientRef = useRef<ChessEngineClient | null>(null);
+  const [analyzed, setAnalyzed] = useState<{ position: Position; analysis: EngineAnalysis } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchProgress, setSearchProgress] = useState<EngineResult | null>(null);
+
+  useEffect(() => {
+    const client = createChessEngineClient();
+    clientRef.current = client;
+
+    return () => {
+      client.terminate();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client || !position) return;
+
+    let cancelled = false;
+    client.setPosition(position, history)
+      .then(() => client.analyze())
+      .then(analysis => {
+        if (!cancelled) {
+          setAnalyzed({ position, analysis });
+        }
+      })
+      .catch(error => {
+        if (!cancelled) {
+          console.error('❌ Engine analysis failed:', error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [position, history]);
+
+  // Searches the position last passed to the hook
+  const search = useCallback(async (options?: EngineOptions) => {
+    const client = clientRef.current;
+    if (!client) return null;
+
+    setIsSearching(true);
+    setSearchProgress(null);
+    try {
+      return await client.search(options, setSearchProgress);
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    await clientRef.current?.stop();
+  }, []);
+
+  const analysis = analyzed?.position === position ? analyzed.analysis : null;
+
+  return {
+    analysis,
+    legalMoves: analysis?.validation.legalMoves ?? NO_MOVES,
+    isAnalyzing: !!position && !analysis,
+    search,
+    stop,
+    isSearching,
+    searchProgress
+  };
+};
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { Position } from '@/types/chess';
+import { ChessEngineClient, createChessEngineClient } from '@/utils/chessEngineClient';
+import { LiveEvaluation, toLiveEvaluation } from '@/utils/chessLiveAnalysis';
+
+// Long enough to reach a useful depth, short enough not to keep a core busy on a quiet board
+const LIVE_SEARCH_TIME_MS = 5000;
+
+// Searches the given position on its own worker while enabled, so the live display never
+// competes with the game's rule checks. Updates after every completed depth.
+export const useLiveAnalysis = (position: Position | null, enabled: boolean) => {
+  const clientRef = useRef<ChessEngineClient | null>(null);
+  const [live, setLive] = useState<{ position: Position; evaluation: LiveEvaluation } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // The worker only exists while the display is switched on
+  useEffect(() => {
+    if (!enabled) return;
+
+    const client = createChessEngineClient();
+    clientRef.current = client;
+    return () => {
+      client.terminate();
+      clientRef.current = null;
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!enabled || !client || !position) return;
+
+    let cancelled = false;
+    setIsSearching(true);
+    client.setPosition(position)
+      .then(() => client.search({ timeLimitMs: LIVE_SEARCH_TIME_MS }, result => {
+        if (!cancelled) {
+          setLive({ position, evaluation: toLiveEvaluation(position, result) });
+        }
+      }))
+      .catch(error => {
+        if (!cancelled) {
+          console.error('❌ Live analysis failed:', error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsSearching(false);
+      });
+
+    return () => {
+      cancelled = true;
+      client.stop().catch(() => {});
+    };
+  }, [position, enabled]);
+
+  return {
+    // Null until the current position has been searched to at least one depth
+    evaluation: enabled && live?.position === position ? live.evaluation : null,
+    isSearching: enabled && isSearching
+  };
+};
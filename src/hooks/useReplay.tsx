@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react';
+import { applyReplayAction, DEFAULT_REPLAY_INTERVAL_MS, getReplayAction, goToPly, ReplayAction } from '@/utils/chessReplay';
+
+// Lets a board show earlier positions while the live game carries on underneath.
+// Arrow keys navigate unless the user is typing, e.g. in the chat box.
+export const useReplay = (totalPlies: number) => {
+  // null while following the live game
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const [isAutoplaying, setIsAutoplaying] = useState(false);
+  const [intervalMs, setIntervalMs] = useState(DEFAULT_REPLAY_INTERVAL_MS);
+
+  // Moves taken back or a new game can remove the viewed position
+  useEffect(() => {
+    if (viewPly !== null && viewPly >= totalPlies) {
+      setViewPly(null);
+    }
+  }, [viewPly, totalPlies]);
+
+  const navigate = useCallback((action: ReplayAction) => {
+    setIsAutoplaying(false);
+    setViewPly(prev => applyReplayAction(prev, action, totalPlies));
+  }, [totalPlies]);
+
+  const goTo = useCallback((ply: number) => {
+    setIsAutoplaying(false);
+    setViewPly(goToPly(ply, totalPlies));
+  }, [totalPlies]);
+
+  // Autoplay from the live position replays the game from the start
+  const toggleAutoplay = useCallback(() => {
+    if (isAutoplaying) {
+      setIsAutoplaying(false);
+      return;
+    }
+    setViewPly(prev => prev ?? goToPly(0, totalPlies));
+    setIsAutoplaying(totalPlies > 0);
+  }, [isAutoplaying, totalPlies]);
+
+  useEffect(() => {
+    if (!isAutoplaying) return;
+
+    const timer = setInterval(() => {
+      setViewPly(prev => applyReplayAction(prev, 'next', totalPlies));
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }, [isAutoplaying, intervalMs, totalPlies]);
+
+  // Autoplay stops once it catches up with the live game
+  useEffect(() => {
+    if (isAutoplaying && viewPly === null) {
+      setIsAutoplaying(false);
+    }
+  }, [isAutoplaying, viewPly]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const action = getReplayAction(event.key);
+      if (!action) return;
+      event.preventDefault();
+      navigate(action);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [navigate]);
+
+  return {
+    // Ply shown on the board; equals totalPlies at the live position
+    viewPly: viewPly ?? totalPlies,
+    isViewingHistory: viewPly !== null,
+    totalPlies,
+    isAutoplaying,
+    intervalMs,
+    setIntervalMs,
+    navigate,
+    goTo,
+    toggleAutoplay
+  };
+};
+
+export type ReplayState = ReturnType<typeof useReplay>;
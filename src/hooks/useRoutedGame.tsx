@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from './useAuth';
+import { findSavedGame, getSnapshotRouteState, NewGameRouteState } from '@/utils/gameRoutes';
+import { SavedGameSnapshot } from '@/utils/savedGames';
+
+export type RoutedGame =
+  | { status: 'loading' }
+  | { status: 'missing'; gameId: string }
+  | { status: 'ready'; gameId: string; savedGame?: SavedGameSnapshot; newGame?: NewGameRouteState };
+
+// Resolves the game behind a /play or /battle URL: a saved game to resume, or a new game whose
+// settings the setup screen put in the history entry. A board that starts over under a new id
+// reports it through handleGameIdChange, which moves the URL along without reloading the board.
+export const useRoutedGame = (gameId: string | undefined, getPath: (gameId: string) => string) => {
+  const { user, loading: authLoading } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [game, setGame] = useState<RoutedGame>({ status: 'loading' });
+  const userId = user?.id;
+  // Read when the game is looked up; a later history entry must not restart it
+  const newGameRef = useRef(location.state as NewGameRouteState | null);
+  newGameRef.current = location.state as NewGameRouteState | null;
+  // The game the mounted board is playing, so a URL it moved to is not looked up again
+  const liveGameIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!gameId || authLoading || gameId === liveGameIdRef.current) return;
+    let cancelled = false;
+    setGame({ status: 'loading' });
+
+    // A saved game wins over the settings, which only describe how it began
+    findSavedGame(gameId, userId)
+      .catch(error => {
+        console.error('❌ Failed to look up saved game:', error);
+        return null;
+      })
+      .then(savedGame => {
+        if (cancelled) return;
+        liveGameIdRef.current = gameId;
+        const newGame = newGameRef.current;
+        if (savedGame) {
+          setGame({ status: 'ready', gameId, savedGame });
+        } else if (newGame?.settings) {
+          setGame({ status: 'ready', gameId, newGame });
+        } else {
+          setGame({ status: 'missing', gameId });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, userId, authLoading]);
+
+  const handleGameIdChange = (newGameId: string) => {
+    liveGameIdRef.current = newGameId;
+    // Keeps the settings with the entry, so reloading before the first move starts the same kind of game
+    const state = game.status === 'ready'
+      ? game.newGame ?? (game.savedGame && getSnapshotRouteState(game.savedGame))
+      : null;
+    navigate(getPath(newGameId), { replace: true, state });
+  };
+
+  return { game, handleGameIdChange };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { discardSavedGame, loadSavedGames, SavedGameSnapshot } from '@/utils/savedGames';
+
+export const useSavedGames = () => {
+  const { user } = useAuth();
+  const [savedGames, setSavedGames] = useState<SavedGameSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchSavedGames = async () => {
+      setLoading(true);
+      try {
+        const games = await loadSavedGames(user?.id);
+        if (!cancelled) setSavedGames(games);
+      } catch (error) {
+        console.error('Error fetching saved games:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSavedGames();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const discardGame = async (id: string) => {
+    setSavedGames(prev => prev.filter(game => game.id !== id));
+    await discardSavedGame(id);
+  };
+
+  return {
+    savedGames,
+    loading,
+    discardGame,
+  };
+};
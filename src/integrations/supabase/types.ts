@@ -39,6 +39,33 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_ratings: {
+        Row: {
+          games_played: number
+          opponent_type: string
+          rating: number
+          rating_deviation: number
+          rating_volatility: number
+          updated_at: string
+        }
+        Insert: {
+          games_played?: number
+          opponent_type: string
+          rating?: number
+          rating_deviation?: number
+          rating_volatility?: number
+          updated_at?: string
+        }
+        Update: {
+          games_played?: number
+          opponent_type?: string
+          rating?: number
+          rating_deviation?: number
+          rating_volatility?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       crawling_urls: {
         Row: {
           created_at: string
@@ -69,6 +96,7 @@ export type Database = {
           opponent1_type: string
           opponent2_type: string
           player_color: string | null
+          rated_at: string | null
           result: string | null
           user_id: string | null
           winner: string | null
@@ -84,6 +112,7 @@ export type Database = {
           opponent1_type: string
           opponent2_type: string
           player_color?: string | null
+          rated_at?: string | null
           result?: string | null
           user_id?: string | null
           winner?: string | null
@@ -99,6 +128,7 @@ export type Database = {
           opponent1_type?: string
           opponent2_type?: string
           player_color?: string | null
+          rated_at?: string | null
           result?: string | null
           user_id?: string | null
           winner?: string | null
@@ -444,6 +474,8 @@ export type Database = {
           high_score: number | null
           id: string
           losses: number | null
+          rating_deviation: number
+          rating_volatility: number
           updated_at: string
           user_id: string
           wins: number | null
@@ -456,6 +488,8 @@ export type Database = {
           high_score?: number | null
           id?: string
           losses?: number | null
+          rating_deviation?: number
+          rating_volatility?: number
           updated_at?: string
           user_id: string
           wins?: number | null
@@ -468,6 +502,8 @@ export type Database = {
           high_score?: number | null
           id?: string
           losses?: number | null
+          rating_deviation?: number
+          rating_volatility?: number
           updated_at?: string
           user_id?: string
           wins?: number | null
@@ -487,7 +523,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_public_profile: {
+        Args: { profile_username: string }
+        Returns: Json
+      }
+      get_shared_game: {
+        Args: { game_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
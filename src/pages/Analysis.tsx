@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import AnalysisViewer from '@/components/chess/AnalysisViewer';
+import { AnalysisGame } from '@/utils/chessAnalysis';
+import { loadAnalysisGame, ROUTES } from '@/utils/gameRoutes';
+
+const Analysis = () => {
+  const { gameId } = useParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  // Undefined while loading, null when no game has this id
+  const [game, setGame] = useState<AnalysisGame | null | undefined>(undefined);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!gameId || authLoading) return;
+    let cancelled = false;
+    setGame(undefined);
+
+    loadAnalysisGame(gameId, userId)
+      .catch(error => {
+        console.error('❌ Failed to load game for analysis:', error);
+        return null;
+      })
+      .then(found => {
+        if (!cancelled) setGame(found);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, userId, authLoading]);
+
+  if (game === undefined) {
+    return (
+      <div className="min-h-screen p-4 flex items-center justify-center">
+        <div className="text-white text-xl">Loading game...</div>
+      </div>
+    );
+  }
+
+  if (!game) {
+    return (
+      <div className="min-h-screen p-4 flex flex-col items-center justify-center space-y-4">
+        <div className="text-white text-xl">This game could not be found.</div>
+        <Button
+          onClick={() => navigate(ROUTES.home)}
+          variant="outline"
+          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Menu
+        </Button>
+      </div>
+    );
+  }
+
+  return <AnalysisViewer key={gameId} game={game} onBack={() => navigate(ROUTES.home)} />;
+};
+
+export default Analysis;
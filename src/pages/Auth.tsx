@@ -0,0 +1,10 @@
+import { useNavigate } from 'react-router-dom';
+import AuthPage from '@/components/auth/AuthPage';
+import { ROUTES } from '@/utils/gameRoutes';
+
+const Auth = () => {
+  const navigate = useNavigate();
+  return <AuthPage onBack={() => navigate(ROUTES.home)} />;
+};
+
+export default Auth;
@@ -0,0 +1,48 @@
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import AIvAIChessBoard from '@/components/chess/AIvAIChessBoard';
+import { useRoutedGame } from '@/hooks/useRoutedGame';
+import { parseFEN } from '@/utils/chessNotation';
+import { getAnalysisPath, getBattlePath, getGamePath, getSavedGamePath, getSnapshotRouteState, rememberAnalysisGame, ROUTES } from '@/utils/gameRoutes';
+
+// AI vs AI games
+const Battle = () => {
+  const { gameId } = useParams();
+  const navigate = useNavigate();
+  const { game, handleGameIdChange } = useRoutedGame(gameId, getBattlePath);
+
+  if (game.status === 'loading') {
+    return (
+      <div className="min-h-screen p-4 flex items-center justify-center">
+        <div className="text-white text-xl">Loading battle...</div>
+      </div>
+    );
+  }
+
+  // Finished games are no longer saved for resuming, but can still be reviewed
+  if (game.status === 'missing') {
+    return <Navigate to={getAnalysisPath(game.gameId)} replace />;
+  }
+
+  const { settings, startFen } = game.newGame ?? getSnapshotRouteState(game.savedGame!);
+  const path = game.savedGame ? getSavedGamePath(game.savedGame) : getGamePath(settings.mode, game.gameId);
+  if (path !== getBattlePath(game.gameId)) {
+    return <Navigate to={path} replace state={game.newGame} />;
+  }
+
+  return (
+    <AIvAIChessBoard
+      key={game.gameId}
+      onEndGame={() => navigate(ROUTES.home)}
+      initialPosition={startFen ? parseFEN(startFen) : undefined}
+      timeControl={settings.timeControl}
+      whitePlayerId={settings.whitePlayerId}
+      blackPlayerId={settings.blackPlayerId}
+      initialGameId={game.gameId}
+      savedGame={game.savedGame}
+      onAnalyzeGame={analysisGame => navigate(getAnalysisPath(rememberAnalysisGame(analysisGame)))}
+      onGameIdChange={handleGameIdChange}
+    />
+  );
+};
+
+export default Battle;
@@ -0,0 +1,16 @@
+import { useNavigate } from 'react-router-dom';
+import PgnViewer from '@/components/chess/PgnViewer';
+import { getAnalysisPath, rememberAnalysisGame, ROUTES } from '@/utils/gameRoutes';
+
+const ImportPgn = () => {
+  const navigate = useNavigate();
+
+  return (
+    <PgnViewer
+      onBack={() => navigate(ROUTES.home)}
+      onAnalyzeGame={game => navigate(getAnalysisPath(rememberAnalysisGame(game)))}
+    />
+  );
+};
+
+export default ImportPgn;
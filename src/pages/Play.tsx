@@ -0,0 +1,51 @@
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import ChessBoard from '@/components/chess/ChessBoard';
+import { useRoutedGame } from '@/hooks/useRoutedGame';
+import { parseFEN } from '@/utils/chessNotation';
+import { getAnalysisPath, getGamePath, getPlayPath, getSavedGamePath, getSnapshotRouteState, rememberAnalysisGame, ROUTES } from '@/utils/gameRoutes';
+
+// Human vs AI and hot-seat games
+const Play = () => {
+  const { gameId } = useParams();
+  const navigate = useNavigate();
+  const { game, handleGameIdChange } = useRoutedGame(gameId, getPlayPath);
+
+  if (game.status === 'loading') {
+    return (
+      <div className="min-h-screen p-4 flex items-center justify-center">
+        <div className="text-white text-xl">Loading game...</div>
+      </div>
+    );
+  }
+
+  // Finished games are no longer saved for resuming, but can still be reviewed
+  if (game.status === 'missing') {
+    return <Navigate to={getAnalysisPath(game.gameId)} replace />;
+  }
+
+  const { settings, startFen } = game.newGame ?? getSnapshotRouteState(game.savedGame!);
+  const path = game.savedGame ? getSavedGamePath(game.savedGame) : getGamePath(settings.mode, game.gameId);
+  if (path !== getPlayPath(game.gameId)) {
+    return <Navigate to={path} replace state={game.newGame} />;
+  }
+
+  return (
+    <ChessBoard
+      key={game.gameId}
+      gameMode={settings.mode}
+      onEndGame={() => navigate(ROUTES.home)}
+      opponent1Type={settings.opponent1Type}
+      opponent2Type={settings.opponent2Type}
+      playerColor={settings.playerColor}
+      initialPosition={startFen ? parseFEN(startFen) : undefined}
+      timeControl={settings.timeControl}
+      casual={settings.casual}
+      initialGameId={game.gameId}
+      savedGame={game.savedGame}
+      onAnalyzeGame={analysisGame => navigate(getAnalysisPath(rememberAnalysisGame(analysisGame)))}
+      onGameIdChange={handleGameIdChange}
+    />
+  );
+};
+
+export default Play;
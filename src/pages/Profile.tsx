@@ -0,0 +1,36 @@
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserStats } from '@/hooks/useUserStats';
+import UserProfile from '@/components/chess/UserProfile';
+import { getAnalysisPath, getProfilePath, ROUTES } from '@/utils/gameRoutes';
+
+// /profile/:username shows any player; /profile moves on to the signed-in player's own link
+const Profile = () => {
+  const { username } = useParams();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { profile, loading: profileLoading } = useUserStats();
+
+  if (!username) {
+    if (authLoading || profileLoading) {
+      return (
+        <div className="min-h-screen p-4 flex items-center justify-center">
+          <div className="text-white text-xl">Loading profile...</div>
+        </div>
+      );
+    }
+    if (!user) return <Navigate to={ROUTES.auth} replace />;
+    if (profile?.username) return <Navigate to={getProfilePath(profile.username)} replace />;
+  }
+
+  return (
+    <UserProfile
+      key={username}
+      username={username}
+      onBack={() => navigate(ROUTES.home)}
+      onOpenGame={gameId => navigate(getAnalysisPath(gameId))}
+    />
+  );
+};
+
+export default Profile;
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Navigate, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import GameSetup from '@/components/chess/GameSetup';
+import OpponentSelection from '@/components/chess/OpponentSelection';
+import ApiKeyDialog from '@/components/chess/ApiKeyDialog';
+import { GameSettings } from '@/types/chess';
+import { generateFEN, parseFEN } from '@/utils/chessNotation';
+import { getAIPlayers } from '@/utils/aiPlayerManager';
+import { getGamePath, getSetupPath, isGameMode, NewGameRouteState, ROUTES } from '@/utils/gameRoutes';
+import { hasLLMApiKey, isLLMOpponent, LLM_OPPONENTS, LLM_PROVIDERS, LLMProviderId, saveLLMApiKey } from '@/utils/chessLLMProviders';
+
+// The first provider the game's AI players need a key for and have none; the local engine and
+// hot-seat games need no key. Random AI vs AI picks are made on the board, and a player whose
+// provider has no key there plays simulated moves.
+const getMissingProvider = (settings: GameSettings): LLMProviderId | null => {
+  const opponentTypes = settings.mode === 'ai-vs-ai'
+    ? [settings.whitePlayerId, settings.blackPlayerId].map(id => getAIPlayers().find(player => player.id === id)?.llm)
+    : [settings.opponent1Type, settings.opponent2Type];
+  const providers = opponentTypes.filter(isLLMOpponent).map(type => LLM_OPPONENTS[type].provider);
+  return providers.find(provider => LLM_PROVIDERS[provider].requiresApiKey && !hasLLMApiKey(provider)) ?? null;
+};
+
+const isValidFEN = (fen: string) => {
+  try {
+    parseFEN(fen);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// /setup picks the mode and start position, /setup/:mode the opponents; the start position rides along as ?fen=
+const Setup = () => {
+  const { mode } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  // Settings waiting for an API key to be entered, and the provider it is for
+  const [pendingGame, setPendingGame] = useState<{ settings: GameSettings; provider: LLMProviderId } | null>(null);
+  const startFen = searchParams.get('fen') || undefined;
+
+  if (startFen && !isValidFEN(startFen)) {
+    return <Navigate to={ROUTES.setup} replace />;
+  }
+
+  if (!mode) {
+    return (
+      <GameSetup
+        initialFen={startFen}
+        onStartGame={(gameMode, position) => navigate(getSetupPath(gameMode, position && generateFEN(position)))}
+        onBack={() => navigate(ROUTES.home)}
+        onShowProfile={() => navigate(ROUTES.profile)}
+      />
+    );
+  }
+
+  if (!isGameMode(mode)) {
+    return <Navigate to={getSetupPath(undefined, startFen)} replace />;
+  }
+
+  const startGame = (settings: GameSettings) => {
+    const state: NewGameRouteState = { settings, startFen };
+    navigate(getGamePath(settings.mode, crypto.randomUUID()), { state });
+  };
+
+  const handleStartGame = (settings: GameSettings) => {
+    const provider = getMissingProvider(settings);
+    if (provider) {
+      setPendingGame({ settings, provider });
+      return;
+    }
+    startGame(settings);
+  };
+
+  const handleApiKeySubmit = async (apiKey: string) => {
+    if (!pendingGame) return;
+    saveLLMApiKey(pendingGame.provider, apiKey);
+    setPendingGame(null);
+    // Both players may need keys, from different providers
+    handleStartGame(pendingGame.settings);
+  };
+
+  return (
+    <>
+      <OpponentSelection
+        key={mode}
+        gameMode={mode}
+        onStartGame={handleStartGame}
+        onBack={() => navigate(getSetupPath(undefined, startFen))}
+      />
+      <ApiKeyDialog
+        key={pendingGame?.provider}
+        isOpen={!!pendingGame}
+        providerName={LLM_PROVIDERS[pendingGame?.provider ?? 'openai'].label}
+        onApiKeySubmit={handleApiKeySubmit}
+        onCancel={() => setPendingGame(null)}
+      />
+    </>
+  );
+};
+
+export default Setup;
@@ -1,7 +1,8 @@
 
 export type PieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
 export type PieceColor = 'white' | 'black';
-export type GameMode = 'human-vs-ai' | 'ai-vs-ai';
+// Human vs human is a local hot-seat game on one board
+export type GameMode = 'human-vs-ai' | 'ai-vs-ai' | 'human-vs-human';
 export type GameState = 'menu' | 'setup' | 'playing' | 'finished';
 export type AIModel = 'gpt-4o';
 
@@ -9,14 +10,41 @@ export interface ChessPiece {
   type: PieceType;
   color: PieceColor;
   position: string;
-  hasMoved?: boolean;
 }
 
+export interface CastlingRights {
+  white: { kingside: boolean; queenside: boolean };
+  black: { kingside: boolean; queenside: boolean };
+}
+
+// Complete game state needed to generate moves; positions are never mutated, makeMove returns a new one
+export interface Position {
+  readonly board: (ChessPiece | null)[][];
+  readonly turn: PieceColor;
+  readonly castling: CastlingRights;
+  readonly enPassant: string | null;
+  readonly halfmoveClock: number;
+  readonly fullmoveNumber: number;
+}
+
+// Fischer increment is added after every move; Bronstein delay refunds up to that much of the time used
+export interface TimeControl {
+  initialSeconds: number;
+  incrementSeconds: number;
+  delaySeconds: number;
+}
+
+// Everything chosen on the setup screens; the first opponent plays white
 export interface GameSettings {
   mode: GameMode;
-  aiModel: AIModel;
+  opponent1Type: string;
+  opponent2Type: string;
   playerColor?: PieceColor;
-  timeControl?: number;
+  timeControl?: TimeControl;
+  casual?: boolean;
+  // AI vs AI personalities, picked at random when missing
+  whitePlayerId?: string;
+  blackPlayerId?: string;
 }
 
 export interface Move {
@@ -24,13 +52,26 @@ export interface Move {
   to: string;
   piece: ChessPiece;
   captured?: ChessPiece;
+  promotion?: PieceType;
   timestamp: number;
   notation: string;
+  san?: string;
+  comment?: string;
 }
 
+export type DrawReason =
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'fivefold-repetition'
+  | 'fifty-move-rule'
+  | 'seventy-five-move-rule'
+  | 'insufficient-material';
+
 export interface GameResult {
-  winner: PieceColor | 'draw';
-  reason: 'checkmate' | 'stalemate' | 'resignation' | 'time' | 'draw';
+  // null when the game was aborted
+  winner: PieceColor | 'draw' | null;
+  // 'draw' is a draw by agreement; 'aborted' games ended before both sides had moved
+  reason: 'checkmate' | DrawReason | 'resignation' | 'time' | 'draw' | 'aborted';
   moves: Move[];
   duration: number;
 }
@@ -1,8 +1,10 @@
-import { ChessPiece, PieceColor, Move, PieceType } from '@/types/chess';
-import { getOpenAIMove } from './openaiChessService';
+import { ChessPiece, PieceColor, Move, PieceType, Position } from '@/types/chess';
+import { getLLMMove } from './llmChessService';
+import { createChessLLMProvider, LLM_OPPONENTS, LLMOpponentType } from './chessLLMProviders';
 import { getAIMove } from './aiService';
 import { getAllLegalMoves, validateGameState } from './chessRuleEnforcement';
 import { isPawnPromotion } from './chessLogic';
+import { ENGINE_FALLBACK_RESERVE_MS, getEngineTimeLimitMs, raceTimeBudget } from './chessClock';
 
 export interface AIPlayer {
   id: string;
@@ -10,7 +12,8 @@ export interface AIPlayer {
   personality: 'aggressive' | 'defensive' | 'balanced' | 'tactical';
   avatar: string;
   description: string;
-  useOpenAI: boolean;
+  // The language model the player thinks with; players without one use the local engine
+  llm?: LLMOpponentType;
   wins: number;
   losses: number;
   draws: number;
@@ -32,7 +35,7 @@ const AI_PLAYERS: AIPlayer[] = [
     personality: 'balanced',
     avatar: '👑',
     description: 'World champion level strategic play',
-    useOpenAI: true,
+    llm: 'gpt-4o',
     wins: 0,
     losses: 0,
     draws: 0
@@ -43,7 +46,7 @@ const AI_PLAYERS: AIPlayer[] = [
     personality: 'aggressive',
     avatar: '⚡',
     description: 'Aggressive tactical monster',
-    useOpenAI: true,
+    llm: 'claude',
     wins: 0,
     losses: 0,
     draws: 0
@@ -54,7 +57,6 @@ const AI_PLAYERS: AIPlayer[] = [
     personality: 'defensive',
     avatar: '🛡️',
     description: 'Iron defense specialist',
-    useOpenAI: false,
     wins: 0,
     losses: 0,
     draws: 0
@@ -65,7 +67,7 @@ const AI_PLAYERS: AIPlayer[] = [
     personality: 'tactical',
     avatar: '🔥',
     description: 'Brilliant tactical genius',
-    useOpenAI: true,
+    llm: 'gemini',
     wins: 0,
     losses: 0,
     draws: 0
@@ -79,17 +81,27 @@ export const getRandomAIPlayer = (): AIPlayer => {
   return AI_PLAYERS[randomIndex];
 };
 
+export const getAIPlayerModel = (player: AIPlayer): string => player.llm ? LLM_OPPONENTS[player.llm].model : 'local';
+
+// Plays under the player's own name rather than the persona the model has as an opponent
+const getAIPlayerProvider = (player: AIPlayer) => {
+  const { provider, model } = LLM_OPPONENTS[player.llm];
+  return createChessLLMProvider({ provider, model, name: player.name });
+};
+
 export const getAIPlayerMove = async (
   player: AIPlayer,
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   gameHistory: Move[],
-  opponent: AIPlayer
+  opponent: AIPlayer,
+  // Thinking time allowed by the player's clock; unlimited when untimed
+  timeBudgetMs?: number
 ): Promise<AIBattleResult> => {
+  const { board, turn: color } = position;
   console.log(`🤖 ${player.name} (${color}) analyzing position...`);
   
   const startTime = Date.now();
-  const gameValidation = validateGameState(board, color);
+  const gameValidation = validateGameState(position);
   
   if (gameValidation.gameOver) {
     return {
@@ -106,20 +118,25 @@ export const getAIPlayerMove = async (
   let promotionPiece: PieceType | undefined = undefined;
   
   try {
-    if (player.useOpenAI) {
-      const result = await getOpenAIMove(
-        board, 
-        color, 
+    if (player.llm) {
+      const remoteBudgetMs = timeBudgetMs !== undefined ? Math.max(0, timeBudgetMs - ENGINE_FALLBACK_RESERVE_MS) : undefined;
+      const result = await raceTimeBudget(getLLMMove(
+        getAIPlayerProvider(player),
+        position, 
         gameHistory, 
         opponent.name,
         player.name
-      );
+      ), remoteBudgetMs);
+      if (!result) {
+        throw new Error('No answer within the move time budget');
+      }
       move = result.move;
       promotionPiece = result.promotionPiece;
-      analysis = result.chatMessage || generatePersonalityAnalysis(player, board, color);
+      analysis = result.chatMessage || generatePersonalityAnalysis(player, position);
     } else {
-      move = await getAIMove(board, color, gameHistory);
-      analysis = generatePersonalityAnalysis(player, board, color);
+      move = await getAIMove(position, gameHistory, timeBudgetMs !== undefined ? { timeLimitMs: getEngineTimeLimitMs(timeBudgetMs) } : {});
+      promotionPiece = move?.promotion;
+      analysis = generatePersonalityAnalysis(player, position);
     }
     
     // Check if the move requires promotion and we don't have one yet
@@ -133,13 +150,14 @@ export const getAIPlayerMove = async (
     }
   } catch (error) {
     console.error(`❌ ${player.name} move generation failed:`, error);
-    // Fallback to basic AI
-    move = await getAIMove(board, color, gameHistory);
+    // Fall back to the local engine
+    move = await getAIMove(position, gameHistory, timeBudgetMs !== undefined ? { timeLimitMs: Math.min(timeBudgetMs, ENGINE_FALLBACK_RESERVE_MS) } : {});
+    promotionPiece = move?.promotion;
     analysis = `${player.name} had to use backup thinking due to technical issues.`;
     
     // Check for promotion in fallback move too
     if (move && isPawnPromotion(move.from, move.to, move.piece)) {
-      promotionPiece = selectAIPromotionPiece(player, board, move.to);
+      promotionPiece = promotionPiece || selectAIPromotionPiece(player, board, move.to);
       analysis = `${analysis} Promoting to ${promotionPiece}.`;
     }
   }
@@ -209,10 +227,9 @@ const getPromotionMessage = (player: AIPlayer, promotionPiece: PieceType): strin
 
 const generatePersonalityAnalysis = (
   player: AIPlayer, 
-  board: (ChessPiece | null)[][], 
-  color: PieceColor
+  position: Position
 ): string => {
-  const gameValidation = validateGameState(board, color);
+  const gameValidation = validateGameState(position);
   
   if (gameValidation.isInCheck) {
     switch (player.personality) {
@@ -278,6 +295,8 @@ const evaluatePosition = (board: (ChessPiece | null)[][], color: PieceColor): nu
   return evaluation;
 };
 
+// Instant label for the live battle display only; the post-game report in chessAnalysis
+// judges moves by engine evaluation instead
 const assessMoveQuality = (
   move: Move | null,
   board: (ChessPiece | null)[][],
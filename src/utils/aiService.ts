@@ -1,126 +1,65 @@
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
-import { getAllLegalMoves } from './chessRuleEnforcement';
+import { ChessPiece, PieceColor, Move, Position } from '@/types/chess';
+import { positionToCoords, getCapturedPiece } from './chessLogic';
+import { generateFEN } from './chessNotation';
+import { EngineOptions } from './chessEngine';
+import { searchInBackground } from './chessEngineClient';
 
 export const getAIMove = async (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
-  gameHistory: Move[]
+  position: Position,
+  gameHistory: Move[],
+  engineOptions: EngineOptions = {},
+  // Earlier positions of the game, so the engine knows which moves would repeat one
+  positionHistory: Position[] = []
 ): Promise<Move | null> => {
-  console.log('🤖 Basic AI Move Generation with Rule Enforcement');
+  console.log('🤖 Local Engine Move Generation');
   
-  const legalMoves = getAllLegalMoves(board, color);
+  const { board, turn: color } = position;
   
-  console.log('📊 Legal Moves Analysis:', {
-    count: legalMoves.length,
+  console.log('📊 Engine Search Starting:', {
     color,
-    gamePhase: determineGamePhase(board)
+    gamePhase: determineGamePhase(board),
+    materialBalance: calculateMaterialBalance(board),
+    historyLength: gameHistory.length,
+    fen: generateFEN(position)
   });
   
-  if (legalMoves.length === 0) {
+  // The search runs in the engine worker so the board stays responsive
+  const result = await searchInBackground(position, engineOptions, positionHistory);
+  
+  if (!result) {
     console.log('🏁 No legal moves available - game over');
     return null;
   }
   
-  try {
-    const boardState = boardToFEN(board);
-    const historyString = gameHistory.map(move => move.notation).join(' ');
-    const gamePhase = determineGamePhase(board);
-    const materialBalance = calculateMaterialBalance(board);
-    
-    console.log('🎯 AI Context:', {
-      gamePhase,
-      materialBalance,
-      legalMovesCount: legalMoves.length,
-      boardState: boardState.substring(0, 20) + '...'
-    });
-    
-    // Select intelligent move from legal moves only
-    const intelligentMove = selectIntelligentMove(legalMoves, board, color, gamePhase);
-    
-    // Simulate AI thinking time based on position complexity
-    const thinkingTime = Math.min(3000, 1000 + legalMoves.length * 100);
-    await new Promise(resolve => setTimeout(resolve, thinkingTime));
-    
-    const [from, to] = intelligentMove.split('-');
-    const [fromRow, fromCol] = [from.charCodeAt(0) - 97, 8 - parseInt(from[1])];
-    const piece = board[fromRow][fromCol];
-    const [toRow, toCol] = [to.charCodeAt(0) - 97, 8 - parseInt(to[1])];
-    const captured = board[toRow][toCol];
-    
-    if (!piece) {
-      console.error('❌ No piece found at selected square');
-      return null;
-    }
-    
-    console.log('✅ Legal AI Move Selected:', {
-      move: intelligentMove,
-      piece: `${piece.color} ${piece.type}`,
-      captured: captured ? `${captured.color} ${captured.type}` : 'none'
-    });
-    
-    return {
-      from,
-      to,
-      piece,
-      captured: captured || undefined,
-      timestamp: Date.now(),
-      notation: intelligentMove
-    };
-  } catch (error) {
-    console.error('💥 AI move generation failed:', error);
-    
-    // Fallback to random legal move
-    const randomMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
-    const [from, to] = randomMove.split('-');
-    
-    const [fromRow, fromCol] = [from.charCodeAt(0) - 97, 8 - parseInt(from[1])];
-    const piece = board[fromRow][fromCol];
-    const [toRow, toCol] = [to.charCodeAt(0) - 97, 8 - parseInt(to[1])];
-    const captured = board[toRow][toCol];
-    
-    if (!piece) return null;
-    
-    console.log('🔧 Using fallback legal move:', randomMove);
-    
-    return {
-      from,
-      to,
-      piece,
-      captured: captured || undefined,
-      timestamp: Date.now(),
-      notation: randomMove
-    };
+  const { from, to, promotion } = result;
+  const [fromRow, fromCol] = positionToCoords(from);
+  const piece = board[fromRow][fromCol];
+  const captured = getCapturedPiece(position, from, to);
+  
+  if (!piece) {
+    console.error('❌ No piece found at selected square');
+    return null;
   }
-};
-
-const boardToFEN = (board: (ChessPiece | null)[][]): string => {
-  const pieceSymbols = {
-    white: { king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P' },
-    black: { king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p' }
-  };
   
-  return board.map(row => {
-    let rowString = '';
-    let emptyCount = 0;
-    
-    row.forEach(piece => {
-      if (piece) {
-        if (emptyCount > 0) {
-          rowString += emptyCount;
-          emptyCount = 0;
-        }
-        rowString += pieceSymbols[piece.color][piece.type];
-      } else {
-        emptyCount++;
-      }
-    });
-    
-    if (emptyCount > 0) {
-      rowString += emptyCount;
-    }
-    
-    return rowString;
-  }).join('/');
+  console.log('✅ Engine Move Selected:', {
+    move: `${from}-${to}`,
+    promotion,
+    score: result.score,
+    mateIn: result.mateIn,
+    depth: result.depth,
+    nodes: result.nodes,
+    timeMs: result.timeMs
+  });
+  
+  return {
+    from,
+    to,
+    piece,
+    captured: captured || undefined,
+    promotion,
+    timestamp: Date.now(),
+    notation: `${from}-${to}`
+  };
 };
 
 const determineGamePhase = (board: (ChessPiece | null)[][]): 'opening' | 'middlegame' | 'endgame' => {
@@ -192,48 +131,3 @@ const getStrategicGuidelines = (phase: string, color: PieceColor, materialBalanc
   
   return guidelines.join('\n');
 };
-
-const selectIntelligentMove = (
-  legalMoves: string[],
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
-  gamePhase: string
-): string => {
-  console.log('🧠 Selecting intelligent move from legal moves:', {
-    total: legalMoves.length,
-    gamePhase,
-    color
-  });
-
-  // Prioritize captures from legal moves
-  const captures = legalMoves.filter(move => {
-    const [, to] = move.split('-');
-    const [toRow, toCol] = [to.charCodeAt(0) - 97, 8 - parseInt(to[1])];
-    return board[toRow][toCol] !== null;
-  });
-  
-  if (captures.length > 0) {
-    console.log('🎯 Found capture moves:', captures.length);
-    return captures[Math.floor(Math.random() * captures.length)];
-  }
-  
-  // In opening, prefer center moves from legal moves
-  if (gamePhase === 'opening') {
-    const centerMoves = legalMoves.filter(move => {
-      const [, to] = move.split('-');
-      const file = to.charCodeAt(0) - 97;
-      const rank = parseInt(to[1]);
-      return (file >= 2 && file <= 5) && (rank >= 3 && rank <= 6);
-    });
-    
-    if (centerMoves.length > 0) {
-      console.log('🏛️ Found center moves:', centerMoves.length);
-      return centerMoves[Math.floor(Math.random() * centerMoves.length)];
-    }
-  }
-  
-  // Default to random legal move
-  const selectedMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
-  console.log('🎲 Selected random legal move:', selectedMove);
-  return selectedMove;
-};
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Move, Position } from '@/types/chess';
+import { EngineResult } from './chessEngine';
+import { createInitialPosition, makeMove, positionToCoords } from './chessLogic';
+import { analyzeGame, buildGameAnalysis, EVALUATION_CAP } from './chessAnalysis';
+
+const toMove = (position: Position, from: string, to: string): Move => {
+  const [row, col] = positionToCoords(from);
+  return { from, to, piece: position.board[row][col]!, timestamp: 0, notation: `${from}-${to}` };
+};
+
+const engine = (score: number, best: string): EngineResult => {
+  const [from, to] = best.split('-');
+  return { from, to, score, depth: 4, nodes: 1, timeMs: 1, pv: [{ from, to }] };
+};
+
+// Plays the given moves from the start and returns every position along the way
+const play = (notations: string[]) => {
+  const positions = [createInitialPosition()];
+  const moves = notations.map(notation => {
+    const [from, to] = notation.split('-');
+    const position = positions[positions.length - 1];
+    positions.push(makeMove(position, from, to));
+    return toMove(position, from, to);
+  });
+  return { positions, moves };
+};
+
+describe('chessAnalysis', () => {
+  it('scores the engine move as best with full accuracy', () => {
+    const { positions, moves } = play(['e2-e4']);
+    const analysis = buildGameAnalysis(positions, moves, [engine(30, 'e2-e4'), engine(-25, 'e7-e5')]);
+
+    expect(analysis.moves[0]).toMatchObject({ classification: 'best', centipawnLoss: 0, accuracy: 100 });
+    expect(analysis.evaluations).toEqual([30, 25]);
+  });
+
+  it('flags moves that throw away the evaluation', () => {
+    const { positions, moves } = play(['f2-f3', 'e7-e5', 'g2-g4']);
+    const analysis = buildGameAnalysis(positions, moves, [
+      engine(30, 'e2-e4'),
+      engine(30, 'e7-e5'),
+      engine(-20, 'd2-d4'),
+      engine(EVALUATION_CAP * 10, 'd8-h4')
+    ]);
+
+    expect(analysis.moves.map(move => move.classification)).toEqual(['inaccuracy', 'best', 'blunder']);
+    expect(analysis.moves[2]).toMatchObject({ centipawnLoss: EVALUATION_CAP - 20, bestMove: 'd4' });
+    expect(analysis.white.counts.blunder).toBe(1);
+    expect(analysis.white.accuracy).toBeLessThan(analysis.black.accuracy!);
+  });
+
+  it('scores checkmate as a decided game', () => {
+    const { positions, moves } = play(['f2-f3', 'e7-e5', 'g2-g4', 'd8-h4']);
+    const results = [engine(30, 'e2-e4'), engine(-40, 'e7-e5'), engine(0, 'd2-d4'), engine(99990, 'd8-h4'), null];
+    results[3]!.mateIn = 1;
+
+    const analysis = buildGameAnalysis(positions, moves, results);
+    expect(analysis.evaluations.slice(-2)).toEqual([-EVALUATION_CAP, -EVALUATION_CAP]);
+    expect(analysis.moves[3].classification).toBe('best');
+  });
+
+  it('calls a sound piece sacrifice brilliant', () => {
+    const { positions, moves } = play(['g1-f3']);
+    const analysis = buildGameAnalysis(positions, moves, [
+      engine(40, 'g1-f3'),
+      // The best reply takes the knight
+      engine(-40, 'e7-f3')
+    ]);
+
+    expect(analysis.moves[0].classification).toBe('brilliant');
+  });
+
+  it('searches every position and reports progress', async () => {
+    const { moves } = play(['e2-e4', 'e7-e5']);
+    const search = vi.fn(async (position: Position) => engine(0, position.turn === 'white' ? 'e2-e4' : 'e7-e5'));
+    const onProgress = vi.fn();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const analysis = await analyzeGame(createInitialPosition(), moves, { search, onProgress });
+    expect(search).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+    expect(analysis?.white.accuracy).toBe(100);
+
+    const controller = new AbortController();
+    controller.abort();
+    expect(await analyzeGame(createInitialPosition(), moves, { search, signal: controller.signal })).toBeNull();
+  });
+});
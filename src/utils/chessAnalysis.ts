@@ -0,0 +1,194 @@
+import { Move, PieceColor, PieceType, Position } from '@/types/chess';
+import { EngineResult } from './chessEngine';
+import { searchInBackground } from './chessEngineClient';
+import { makeMove } from './chessLogic';
+import { moveToSAN } from './chessNotation';
+import { isInCheck } from './chessRuleEnforcement';
+
+// Post-game review. Every position of the game is searched by the local engine, and each move is
+// judged by the evaluation it gave up compared with the engine's preferred move.
+
+export type MoveClassification = 'brilliant' | 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface AnalyzedMove {
+  move: Move;
+  color: PieceColor;
+  // Centipawns from white's point of view, capped at EVALUATION_CAP
+  evaluationBefore: number;
+  evaluationAfter: number;
+  centipawnLoss: number;
+  // 0-100, from the drop in winning chances
+  accuracy: number;
+  classification: MoveClassification;
+  // SAN of the engine's choice when the game move was a different one
+  bestMove?: string;
+}
+
+export interface SideSummary {
+  // Null when the side made no moves
+  accuracy: number | null;
+  averageCentipawnLoss: number | null;
+  counts: Record<MoveClassification, number>;
+}
+
+export interface GameAnalysis {
+  moves: AnalyzedMove[];
+  // White's point of view after each move; index 0 is the start position
+  evaluations: number[];
+  white: SideSummary;
+  black: SideSummary;
+}
+
+// A finished or imported game handed to the analysis screen
+export interface AnalysisGame {
+  // The game's id when it has one to link to
+  id?: string;
+  startPosition: Position;
+  moves: Move[];
+  whiteName: string;
+  blackName: string;
+  result?: string;
+}
+
+export interface AnalysisOptions {
+  timePerPositionMs?: number;
+  onProgress?: (analyzed: number, total: number) => void;
+  signal?: AbortSignal;
+  // Replaceable for tests; defaults to the shared engine worker
+  search?: (position: Position, timeLimitMs: number) => Promise<EngineResult | null>;
+}
+
+export const MOVE_CLASSIFICATIONS: MoveClassification[] = ['brilliant', 'best', 'good', 'inaccuracy', 'mistake', 'blunder'];
+
+// Beyond a rook or so the game is decided, and mates count the same as a large advantage
+export const EVALUATION_CAP = 1000;
+const INACCURACY_LOSS = 50;
+const MISTAKE_LOSS = 100;
+const BLUNDER_LOSS = 300;
+const DEFAULT_TIME_PER_POSITION_MS = 500;
+
+const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 0
+};
+
+const clampEvaluation = (score: number) => Math.max(-EVALUATION_CAP, Math.min(EVALUATION_CAP, score));
+
+// Engine scores are from the side to move; a position without a search result has no legal moves
+export const toWhiteEvaluation = (position: Position, result: EngineResult | null): number => {
+  let score: number;
+  if (!result) {
+    score = isInCheck(position.board, position.turn) ? -EVALUATION_CAP : 0;
+  } else if (result.mateIn !== undefined) {
+    score = Math.sign(result.mateIn) * EVALUATION_CAP;
+  } else {
+    score = clampEvaluation(result.score);
+  }
+  return position.turn === 'white' ? score : -score;
+};
+
+// Expected score in percent for the side with this advantage, fitted to human games
+const winPercent = (centipawns: number) => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+
+export const getMoveAccuracy = (evaluationBefore: number, evaluationAfter: number): number => {
+  const drop = winPercent(evaluationBefore) - winPercent(evaluationAfter);
+  return Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * drop) - 3.1669));
+};
+
+const isEngineMove = (move: Move, result: EngineResult | null) =>
+  !!result && result.from === move.from && result.to === move.to && (result.promotion ?? 'queen') === (move.promotion ?? 'queen');
+
+// A sacrifice the engine approves of: the opponent's best reply takes the piece that just moved,
+// which was worth more than anything it captured, and the mover is still at least equal
+const isSacrifice = (move: Move, replyResult: EngineResult | null, moverEvaluationAfter: number) => {
+  const reply = replyResult?.pv[0];
+  if (!reply || reply.to !== move.to || move.piece.type === 'pawn' || move.piece.type === 'king') return false;
+  const gaveUp = PIECE_VALUES[move.promotion ?? move.piece.type] - (move.captured ? PIECE_VALUES[move.captured.type] : 0);
+  return gaveUp > 0 && moverEvaluationAfter >= 0;
+};
+
+const classify = (centipawnLoss: number, playedEngineMove: boolean, sacrifice: boolean): MoveClassification => {
+  if (centipawnLoss >= BLUNDER_LOSS) return 'blunder';
+  if (centipawnLoss >= MISTAKE_LOSS) return 'mistake';
+  if (centipawnLoss >= INACCURACY_LOSS) return 'inaccuracy';
+  if (!playedEngineMove && centipawnLoss > 0) return 'good';
+  return sacrifice ? 'brilliant' : 'best';
+};
+
+const summarize = (moves: AnalyzedMove[]): SideSummary => {
+  const counts = Object.fromEntries(MOVE_CLASSIFICATIONS.map(type => [type, 0])) as Record<MoveClassification, number>;
+  moves.forEach(move => counts[move.classification]++);
+
+  if (moves.length === 0) {
+    return { accuracy: null, averageCentipawnLoss: null, counts };
+  }
+  const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10) / 10;
+  return {
+    accuracy: average(moves.map(move => move.accuracy)),
+    averageCentipawnLoss: average(moves.map(move => move.centipawnLoss)),
+    counts
+  };
+};
+
+// positions[i] is the position before moves[i], plus the final position; results[i] is the engine's view of positions[i]
+export const buildGameAnalysis = (positions: Position[], moves: Move[], results: (EngineResult | null)[]): GameAnalysis => {
+  const evaluations = positions.map((position, index) => toWhiteEvaluation(position, results[index]));
+
+  const analyzedMoves = moves.map((move, index): AnalyzedMove => {
+    const color = positions[index].turn;
+    const sign = color === 'white' ? 1 : -1;
+    const evaluationBefore = evaluations[index];
+    const evaluationAfter = evaluations[index + 1];
+    const playedEngineMove = isEngineMove(move, results[index]);
+    // Search noise can make the engine's own move look slightly worse; it loses nothing by definition
+    const centipawnLoss = playedEngineMove ? 0 : Math.max(0, sign * (evaluationBefore - evaluationAfter));
+    const best = results[index];
+
+    return {
+      move,
+      color,
+      evaluationBefore,
+      evaluationAfter,
+      centipawnLoss,
+      accuracy: playedEngineMove ? 100 : getMoveAccuracy(sign * evaluationBefore, sign * evaluationAfter),
+      classification: classify(centipawnLoss, playedEngineMove, isSacrifice(move, results[index + 1], sign * evaluationAfter)),
+      bestMove: best && !playedEngineMove ? moveToSAN(positions[index], best.from, best.to, best.promotion) : undefined
+    };
+  });
+
+  return {
+    moves: analyzedMoves,
+    evaluations,
+    white: summarize(analyzedMoves.filter(move => move.color === 'white')),
+    black: summarize(analyzedMoves.filter(move => move.color === 'black'))
+  };
+};
+
+// Searches every position in turn; resolves null if aborted
+export const analyzeGame = async (startPosition: Position, moves: Move[], options: AnalysisOptions = {}): Promise<GameAnalysis | null> => {
+  const {
+    timePerPositionMs = DEFAULT_TIME_PER_POSITION_MS,
+    onProgress,
+    signal,
+    search = (position, timeLimitMs) => searchInBackground(position, { timeLimitMs })
+  } = options;
+
+  const positions = [startPosition];
+  moves.forEach(move => {
+    positions.push(makeMove(positions[positions.length - 1], move.from, move.to, move.promotion));
+  });
+
+  console.log('🔬 Analyzing game:', { moves: moves.length, timePerPositionMs });
+  const results: (EngineResult | null)[] = [];
+  for (const position of positions) {
+    if (signal?.aborted) return null;
+    results.push(await search(position, timePerPositionMs));
+    onProgress?.(results.length, positions.length);
+  }
+
+  return buildGameAnalysis(positions, moves, results);
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseFEN } from './chessNotation';
+import {
+  checkFlag,
+  createClock,
+  formatClock,
+  getMoveTimeBudgetMs,
+  getRemainingMs,
+  getTimeoutWinner,
+  pressClock,
+  raceTimeBudget,
+  startClock,
+  stopClock
+} from './chessClock';
+
+const blitz = (incrementSeconds = 0, delaySeconds = 0) =>
+  createClock({ initialSeconds: 180, incrementSeconds, delaySeconds });
+
+describe('chessClock', () => {
+  it('only runs the clock of the side to move', () => {
+    const clock = startClock(blitz(), 0);
+    expect(getRemainingMs(clock, 'white', 5000)).toBe(175000);
+    expect(getRemainingMs(clock, 'black', 5000)).toBe(180000);
+
+    const afterMove = pressClock(clock, 5000);
+    expect(afterMove.active).toBe('black');
+    expect(getRemainingMs(afterMove, 'white', 9000)).toBe(175000);
+    expect(getRemainingMs(afterMove, 'black', 9000)).toBe(176000);
+  });
+
+  it('adds the Fischer increment after every move', () => {
+    const clock = pressClock(startClock(blitz(2), 0), 5000);
+    expect(clock.remainingMs.white).toBe(177000);
+  });
+
+  it('refunds at most the Bronstein delay', () => {
+    const quickMove = pressClock(startClock(blitz(0, 3), 0), 2000);
+    expect(quickMove.remainingMs.white).toBe(180000);
+
+    const slowMove = pressClock(startClock(blitz(0, 3), 0), 10000);
+    expect(slowMove.remainingMs.white).toBe(173000);
+  });
+
+  it('does not count time while stopped', () => {
+    const paused = stopClock(startClock(blitz(), 0), 4000);
+    const resumed = startClock(paused, 60000);
+    expect(getRemainingMs(resumed, 'white', 61000)).toBe(175000);
+  });
+
+  it('flags the side to move when its time runs out', () => {
+    const clock = startClock(createClock({ initialSeconds: 10, incrementSeconds: 5, delaySeconds: 0 }), 0);
+    expect(checkFlag(clock, 9999).flagged).toBeNull();
+
+    const flagged = checkFlag(clock, 10000);
+    expect(flagged.flagged).toBe('white');
+    expect(flagged.runningSince).toBeNull();
+    // A move made after the flag fell earns no increment
+    expect(pressClock(clock, 12000).flagged).toBe('white');
+  });
+
+  it('budgets a share of the remaining time plus the increment', () => {
+    const clock = startClock(createClock({ initialSeconds: 300, incrementSeconds: 3, delaySeconds: 0 }), 0);
+    expect(getMoveTimeBudgetMs(clock, 'white', 0)).toBe(10000 + 2400);
+
+    // With one second left even a large increment may not tempt the AI into using more than half of it
+    const nearlyOut = startClock(createClock({ initialSeconds: 1, incrementSeconds: 10, delaySeconds: 0 }), 0);
+    expect(getMoveTimeBudgetMs(nearlyOut, 'white', 0)).toBe(500);
+  });
+
+  it('draws a timeout when the opponent cannot checkmate', () => {
+    const loneKing = parseFEN('8/8/4k3/8/8/8/4K3/7Q w - - 0 1').board;
+    expect(getTimeoutWinner(loneKing, 'white')).toBe('draw');
+    expect(getTimeoutWinner(loneKing, 'black')).toBe('white');
+
+    const knightVsPawn = parseFEN('8/8/4k3/8/8/2n5/4KP2/8 w - - 0 1').board;
+    expect(getTimeoutWinner(knightVsPawn, 'white')).toBe('black');
+    const knightVsKing = parseFEN('8/8/4k3/8/8/2n5/4K3/8 w - - 0 1').board;
+    expect(getTimeoutWinner(knightVsKing, 'white')).toBe('draw');
+  });
+
+  it('formats clocks with tenths in the last ten seconds', () => {
+    expect(formatClock(3723000)).toBe('1:02:03');
+    expect(formatClock(185000)).toBe('3:05');
+    expect(formatClock(9450)).toBe('0:09.4');
+  });
+
+  it('gives up waiting once the time budget is spent', async () => {
+    vi.useFakeTimers();
+    try {
+      const slow = new Promise<string>(resolve => setTimeout(() => resolve('late'), 5000));
+      const raced = raceTimeBudget(slow, 1000);
+      vi.advanceTimersByTime(1000);
+      expect(await raced).toBeNull();
+      expect(await raceTimeBudget(Promise.resolve('fast'), 1000)).toBe('fast');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { ChessPiece, PieceColor, TimeControl } from '@/types/chess';
+
+// Per-side countdown clocks. State is plain data and every function takes the current time,
+// so the clock can be saved with a game and tested without timers.
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+export interface TimeControlPreset {
+  id: string;
+  category: TimeControlCategory;
+  timeControl: TimeControl;
+}
+
+export interface ClockState {
+  timeControl: TimeControl;
+  // Time left for each side at the start of its current or next move
+  remainingMs: Record<PieceColor, number>;
+  // Side whose move it is; only this clock runs
+  active: PieceColor;
+  // Time spent on the current move before runningSince
+  usedMs: number;
+  // When the clock was last started; null while it is stopped
+  runningSince: number | null;
+  flagged: PieceColor | null;
+}
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: '1+0', category: 'bullet', timeControl: { initialSeconds: 60, incrementSeconds: 0, delaySeconds: 0 } },
+  { id: '2+1', category: 'bullet', timeControl: { initialSeconds: 120, incrementSeconds: 1, delaySeconds: 0 } },
+  { id: '3+0', category: 'blitz', timeControl: { initialSeconds: 180, incrementSeconds: 0, delaySeconds: 0 } },
+  { id: '3+2', category: 'blitz', timeControl: { initialSeconds: 180, incrementSeconds: 2, delaySeconds: 0 } },
+  { id: '5+3', category: 'blitz', timeControl: { initialSeconds: 300, incrementSeconds: 3, delaySeconds: 0 } },
+  { id: '5 d3', category: 'blitz', timeControl: { initialSeconds: 300, incrementSeconds: 0, delaySeconds: 3 } },
+  { id: '10+0', category: 'rapid', timeControl: { initialSeconds: 600, incrementSeconds: 0, delaySeconds: 0 } },
+  { id: '10+5', category: 'rapid', timeControl: { initialSeconds: 600, incrementSeconds: 5, delaySeconds: 0 } },
+  { id: '15+10', category: 'rapid', timeControl: { initialSeconds: 900, incrementSeconds: 10, delaySeconds: 0 } },
+  { id: '30+0', category: 'classical', timeControl: { initialSeconds: 1800, incrementSeconds: 0, delaySeconds: 0 } },
+  { id: '30+20', category: 'classical', timeControl: { initialSeconds: 1800, incrementSeconds: 20, delaySeconds: 0 } },
+  { id: '90+30', category: 'classical', timeControl: { initialSeconds: 5400, incrementSeconds: 30, delaySeconds: 0 } }
+];
+
+// Moves an AI assumes are still to be played when budgeting its clock
+const EXPECTED_MOVES_TO_GO = 30;
+const MIN_MOVE_BUDGET_MS = 100;
+// Engines gain little from longer searches and nobody should wait minutes for one
+const MAX_ENGINE_MOVE_MS = 5000;
+// Kept back from a remote model's budget so the local engine can still move if it does not answer
+export const ENGINE_FALLBACK_RESERVE_MS = 300;
+
+const opposite = (color: PieceColor): PieceColor => color === 'white' ? 'black' : 'white';
+
+export const createClock = (timeControl: TimeControl, firstToMove: PieceColor = 'white'): ClockState => ({
+  timeControl,
+  remainingMs: {
+    white: timeControl.initialSeconds * 1000,
+    black: timeControl.initialSeconds * 1000
+  },
+  active: firstToMove,
+  usedMs: 0,
+  runningSince: null,
+  flagged: null
+});
+
+const getUsedMs = (clock: ClockState, now: number) =>
+  clock.usedMs + (clock.runningSince !== null ? Math.max(0, now - clock.runningSince) : 0);
+
+export const getRemainingMs = (clock: ClockState, color: PieceColor, now: number): number => {
+  if (color !== clock.active) return clock.remainingMs[color];
+  return Math.max(0, clock.remainingMs[color] - getUsedMs(clock, now));
+};
+
+export const startClock = (clock: ClockState, now: number): ClockState => {
+  if (clock.runningSince !== null || clock.flagged) return clock;
+  return { ...clock, runningSince: now };
+};
+
+export const stopClock = (clock: ClockState, now: number): ClockState => {
+  if (clock.runningSince === null) return clock;
+  return { ...clock, usedMs: getUsedMs(clock, now), runningSince: null };
+};
+
+// Flags the side to move once its time has run out; returns the clock unchanged otherwise
+export const checkFlag = (clock: ClockState, now: number): ClockState => {
+  if (clock.flagged || getRemainingMs(clock, clock.active, now) > 0) return clock;
+  return {
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [clock.active]: 0 },
+    usedMs: 0,
+    runningSince: null,
+    flagged: clock.active
+  };
+};
+
+// Ends the active side's move: adds the Fischer increment, refunds up to the Bronstein delay,
+// and hands the move to the opponent. A move made after the flag fell does not count.
+export const pressClock = (clock: ClockState, now: number): ClockState => {
+  const checked = checkFlag(clock, now);
+  if (checked.flagged) return checked;
+
+  const { incrementSeconds, delaySeconds } = clock.timeControl;
+  const usedMs = getUsedMs(clock, now);
+  const remaining = clock.remainingMs[clock.active] - usedMs + incrementSeconds * 1000 + Math.min(usedMs, delaySeconds * 1000);
+
+  return {
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [clock.active]: remaining },
+    active: opposite(clock.active),
+    usedMs: 0,
+    runningSince: clock.runningSince !== null ? now : null
+  };
+};
+
+// Thinking time for an AI's next move: an even share of its clock plus most of the increment,
+// and all of the delay since that time is refunded anyway
+export const getMoveTimeBudgetMs = (clock: ClockState, color: PieceColor, now: number): number => {
+  const remaining = getRemainingMs(clock, color, now);
+  const { incrementSeconds, delaySeconds } = clock.timeControl;
+  const budget = remaining / EXPECTED_MOVES_TO_GO + incrementSeconds * 800 + delaySeconds * 1000;
+  // Never risk more than half of what is left on one move
+  return Math.max(MIN_MOVE_BUDGET_MS, Math.min(budget, remaining / 2));
+};
+
+export const getEngineTimeLimitMs = (budgetMs: number): number => Math.min(budgetMs, MAX_ENGINE_MOVE_MS);
+
+// Resolves null when the promise has not settled within the budget; no budget means no limit
+export const raceTimeBudget = <T>(promise: Promise<T>, budgetMs?: number): Promise<T | null> => {
+  if (budgetMs === undefined) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), budgetMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// A side that runs out of time only loses if the opponent could still checkmate by some
+// series of legal moves; a lone king, or king and one minor against a bare king, cannot
+export const hasMatingMaterial = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
+  const own: ChessPiece[] = [];
+  let opponentHasPieces = false;
+
+  board.forEach(row => row.forEach(piece => {
+    if (!piece || piece.type === 'king') return;
+    if (piece.color === color) {
+      own.push(piece);
+    } else {
+      opponentHasPieces = true;
+    }
+  }));
+
+  if (own.length === 0) return false;
+  if (own.length === 1 && (own[0].type === 'bishop' || own[0].type === 'knight')) return opponentHasPieces;
+  return true;
+};
+
+export const getTimeoutWinner = (board: (ChessPiece | null)[][], flagged: PieceColor): PieceColor | 'draw' => {
+  const opponent = opposite(flagged);
+  return hasMatingMaterial(board, opponent) ? opponent : 'draw';
+};
+
+export const describeTimeout = (flagged: PieceColor, result: PieceColor | 'draw'): string => {
+  const side = flagged === 'white' ? 'White' : 'Black';
+  return result === 'draw'
+    ? `${side} ran out of time, but the opponent cannot checkmate - draw`
+    : `${side} ran out of time`;
+};
+
+// PGN TimeControl tag in seconds; PGN has no notation for a delay, so only the base time is kept
+export const toPGNTimeControl = ({ initialSeconds, incrementSeconds }: TimeControl): string =>
+  incrementSeconds > 0 ? `${initialSeconds}+${incrementSeconds}` : `${initialSeconds}`;
+
+export const formatTimeControl = ({ initialSeconds, incrementSeconds, delaySeconds }: TimeControl): string => {
+  const minutes = initialSeconds >= 60 ? `${initialSeconds / 60}` : `${initialSeconds}s`;
+  if (delaySeconds > 0) return `${minutes} d${delaySeconds}`;
+  return `${minutes}+${incrementSeconds}`;
+};
+
+// h:mm:ss for long games, m:ss normally, and tenths of a second in the last ten seconds
+export const formatClock = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  if (ms < 10000) {
+    return `0:${seconds.toString().padStart(2, '0')}.${Math.floor((ms % 1000) / 100)}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
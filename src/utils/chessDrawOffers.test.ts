@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getOpponentPersonality, shouldAcceptDraw, shouldClaimDraw } from './chessDrawOffers';
+
+describe('chessDrawOffers', () => {
+  it('accepts a draw only when the position is no better than the personality allows', () => {
+    expect(shouldAcceptDraw('balanced', 0, 40)).toBe(true);
+    expect(shouldAcceptDraw('balanced', 80, 40)).toBe(false);
+    expect(shouldAcceptDraw('defensive', 40, 40)).toBe(true);
+    expect(shouldAcceptDraw('aggressive', -100, 40)).toBe(false);
+    expect(shouldAcceptDraw('aggressive', -200, 40)).toBe(true);
+  });
+
+  it('declines early offers unless clearly worse', () => {
+    expect(shouldAcceptDraw('defensive', 0, 6)).toBe(false);
+    expect(shouldAcceptDraw('defensive', -400, 6)).toBe(true);
+  });
+
+  it('claims rule-based draws without the opening restriction', () => {
+    expect(shouldClaimDraw('balanced', 0)).toBe(true);
+    expect(shouldClaimDraw('tactical', 120)).toBe(false);
+  });
+
+  it('gives each opponent type a personality', () => {
+    expect(getOpponentPersonality('engine')).toBe('tactical');
+    expect(getOpponentPersonality('claude')).toBe('defensive');
+    expect(getOpponentPersonality(undefined)).toBe('balanced');
+  });
+});
@@ -0,0 +1,47 @@
+import { PieceColor, Position } from '@/types/chess';
+import { AIPlayer } from './aiPlayerManager';
+import { searchInBackground } from './chessEngineClient';
+
+// How AI opponents respond to draw offers and claimable draws. Each personality accepts a draw
+// once its position, in centipawns from its own point of view, is no better than its threshold.
+
+export type DrawPersonality = AIPlayer['personality'];
+
+const DRAW_THRESHOLDS: Record<DrawPersonality, number> = {
+  aggressive: -150,
+  tactical: -50,
+  balanced: 0,
+  defensive: 50
+};
+
+// Offers before this many half-moves are declined unless the AI is clearly worse
+const MIN_PLIES_FOR_DRAW = 20;
+const CLEARLY_WORSE = -300;
+const DRAW_EVALUATION_TIME_MS = 300;
+
+// Human-vs-AI opponents have no AIPlayer, so their personality follows the opponent type
+const OPPONENT_PERSONALITIES: Record<string, DrawPersonality> = {
+  'gpt-4o': 'balanced',
+  claude: 'defensive',
+  gemini: 'aggressive',
+  engine: 'tactical'
+};
+
+export const getOpponentPersonality = (opponentType?: string): DrawPersonality =>
+  OPPONENT_PERSONALITIES[opponentType ?? ''] ?? 'balanced';
+
+export const shouldAcceptDraw = (personality: DrawPersonality, evaluation: number, plies: number): boolean => {
+  if (plies < MIN_PLIES_FOR_DRAW && evaluation > CLEARLY_WORSE) return false;
+  return evaluation <= DRAW_THRESHOLDS[personality];
+};
+
+// A claim costs nothing, so the AI claims whenever it would accept the same draw as an offer
+export const shouldClaimDraw = (personality: DrawPersonality, evaluation: number): boolean =>
+  evaluation <= DRAW_THRESHOLDS[personality];
+
+// Short engine search so the decision reflects tactics, not just material
+export const evaluateForColor = async (position: Position, color: PieceColor): Promise<number> => {
+  const result = await searchInBackground(position, { timeLimitMs: DRAW_EVALUATION_TIME_MS });
+  if (!result) return 0;
+  return position.turn === color ? result.score : -result.score;
+};
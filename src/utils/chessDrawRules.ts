@@ -0,0 +1,89 @@
+import { ChessPiece, DrawReason, Position } from '@/types/chess';
+import { coordsToPosition, isEnPassantMove, positionToCoords } from './chessLogic';
+import { generateFEN } from './chessNotation';
+
+// Two positions repeat when placement, side to move, castling rights and en passant
+// options are identical; the clocks are ignored. An en passant square only counts
+// when a pawn can actually capture onto it.
+export const getPositionKey = (position: Position): string => {
+  const [placement, turn, castling] = generateFEN(position).split(' ');
+  return `${placement} ${turn} ${castling} ${canCaptureEnPassant(position) ? position.enPassant : '-'}`;
+};
+
+const canCaptureEnPassant = (position: Position): boolean => {
+  if (!position.enPassant) return false;
+
+  const [targetRow, targetCol] = positionToCoords(position.enPassant);
+  const pawnRow = position.turn === 'white' ? targetRow + 1 : targetRow - 1;
+
+  return [targetCol - 1, targetCol + 1]
+    .filter(col => col >= 0 && col < 8)
+    .some(col => isEnPassantMove(position, coordsToPosition(pawnRow, col), position.enPassant!));
+};
+
+// previousPositions holds every position reached before the current one
+export const countRepetitions = (position: Position, previousPositions: Position[]): number => {
+  const key = getPositionKey(position);
+  return previousPositions.filter(previous => getPositionKey(previous) === key).length + 1;
+};
+
+export const isThreefoldRepetition = (position: Position, previousPositions: Position[]): boolean =>
+  countRepetitions(position, previousPositions) >= 3;
+
+export const isFivefoldRepetition = (position: Position, previousPositions: Position[]): boolean =>
+  countRepetitions(position, previousPositions) >= 5;
+
+// 50 moves by each side without a capture or pawn move
+export const isFiftyMoveRule = (position: Position): boolean => position.halfmoveClock >= 100;
+
+export const isSeventyFiveMoveRule = (position: Position): boolean => position.halfmoveClock >= 150;
+
+// K vs K, K+B vs K, K+N vs K, or any number of bishops that all stand on the same square colour
+export const hasInsufficientMaterial = (board: (ChessPiece | null)[][]): boolean => {
+  const minors: { type: ChessPiece['type']; squareColor: number }[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.type === 'king') continue;
+      if (piece.type !== 'bishop' && piece.type !== 'knight') return false;
+      minors.push({ type: piece.type, squareColor: (row + col) % 2 });
+    }
+  }
+
+  if (minors.length <= 1) return true;
+
+  return minors.every(minor => minor.type === 'bishop' && minor.squareColor === minors[0].squareColor);
+};
+
+// Draws that end the game on their own; stalemate is detected with the legal moves
+export const getDrawReason = (position: Position, previousPositions: Position[] = []): DrawReason | undefined => {
+  if (hasInsufficientMaterial(position.board)) return 'insufficient-material';
+  if (isSeventyFiveMoveRule(position)) return 'seventy-five-move-rule';
+  if (isFivefoldRepetition(position, previousPositions)) return 'fivefold-repetition';
+  return undefined;
+};
+
+// Draws the side to move may claim, but the game goes on unless it does
+export const getClaimableDrawReason = (position: Position, previousPositions: Position[] = []): DrawReason | undefined => {
+  if (isFiftyMoveRule(position)) return 'fifty-move-rule';
+  if (isThreefoldRepetition(position, previousPositions)) return 'threefold-repetition';
+  return undefined;
+};
+
+export const describeDrawReason = (reason: DrawReason): string => {
+  switch (reason) {
+    case 'stalemate':
+      return 'Stalemate - no legal moves but the king is not in check';
+    case 'threefold-repetition':
+      return 'Threefold repetition - the same position occurred three times';
+    case 'fivefold-repetition':
+      return 'Fivefold repetition - the same position occurred five times';
+    case 'fifty-move-rule':
+      return 'Fifty-move rule - 50 moves without a capture or pawn move';
+    case 'seventy-five-move-rule':
+      return 'Seventy-five-move rule - 75 moves without a capture or pawn move';
+    case 'insufficient-material':
+      return 'Insufficient material - neither side can deliver checkmate';
+  }
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Position } from '@/types/chess';
+import { makeMove } from './chessLogic';
+import { parseFEN, STARTING_FEN } from './chessNotation';
+import { evaluatePosition, searchBestMove } from './chessEngine';
+
+// Plays the moves in turn, returning every position reached, the starting one included
+const playPositions = (start: Position, notations: string[]): Position[] =>
+  notations.reduce((positions, notation) => {
+    const [from, to] = notation.split('-');
+    return [...positions, makeMove(positions[positions.length - 1], from, to)];
+  }, [start]);
+
+// White is a queen down and can only shuffle its knight; black's knight shuffles back with it
+const KNIGHT_SHUFFLE = ['g1-f3', 'a8-b6', 'f3-g1', 'b6-a8', 'g1-f3'];
+
+describe('evaluatePosition', () => {
+  it('scores the initial position as level', () => {
+    expect(evaluatePosition(parseFEN(STARTING_FEN))).toBe(0);
+  });
+
+  it("scores material from white's point of view", () => {
+    expect(evaluatePosition(parseFEN('4k3/8/8/8/8/8/8/3QK3 w - - 0 1'))).toBeGreaterThan(800);
+    expect(evaluatePosition(parseFEN('3qk3/8/8/8/8/8/8/4K3 w - - 0 1'))).toBeLessThan(-800);
+  });
+});
+
+describe('searchBestMove', () => {
+  it('finds a back-rank mate in one', () => {
+    const result = searchBestMove(parseFEN('6k1/5ppp/8/8/8/8/8/4R1K1 w - - 0 1'), { maxDepth: 3 });
+    expect(result).toMatchObject({ from: 'e1', to: 'e8', mateIn: 1 });
+  });
+
+  it('finds mate in one for black', () => {
+    const result = searchBestMove(parseFEN('rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2'), { maxDepth: 3 });
+    expect(result).toMatchObject({ from: 'd8', to: 'h4', mateIn: 1 });
+  });
+
+  it('captures a hanging queen', () => {
+    const result = searchBestMove(parseFEN('4k3/8/8/6q1/8/5N2/8/4K3 w - - 0 1'), { maxDepth: 3 });
+    expect(result).toMatchObject({ from: 'f3', to: 'g5' });
+    expect(result?.score).toBeGreaterThan(300);
+  });
+
+  it('promotes to a queen', () => {
+    const result = searchBestMove(parseFEN('8/P6k/8/8/8/8/8/K7 w - - 0 1'), { maxDepth: 3 });
+    expect(result).toMatchObject({ from: 'a7', to: 'a8', promotion: 'queen' });
+  });
+
+  it('repeats an earlier position of the game to draw a lost game', () => {
+    const positions = playPositions(parseFEN('n6k/8/8/8/8/8/q7/6NK w - - 0 1'), KNIGHT_SHUFFLE.slice(0, 4));
+    const current = positions[4];
+
+    expect(searchBestMove(current, { maxDepth: 3 })?.score).toBeLessThan(-500);
+    const result = searchBestMove(current, { maxDepth: 3 }, positions.slice(0, 4));
+    expect(result).toMatchObject({ from: 'g1', to: 'f3' });
+    // The draw is negated on its way up the tree, so it may come back as -0
+    expect(result?.score).toBeCloseTo(0);
+  });
+
+  it('avoids repeating an earlier position in a won game', () => {
+    const positions = playPositions(parseFEN('n6k/8/8/8/8/8/q7/6NK w - - 0 1'), KNIGHT_SHUFFLE);
+    const result = searchBestMove(positions[5], { maxDepth: 3 }, positions.slice(0, 5));
+
+    expect(result).not.toMatchObject({ from: 'a8', to: 'b6' });
+    expect(result?.score).toBeGreaterThan(500);
+  });
+
+  it('stops at the configured depth', () => {
+    const result = searchBestMove(parseFEN(STARTING_FEN), { maxDepth: 2, timeLimitMs: 10000 });
+    expect(result?.depth).toBe(2);
+    expect(result?.pv.length).toBeGreaterThan(0);
+  });
+
+  it('returns null when there are no legal moves', () => {
+    expect(searchBestMove(parseFEN('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'))).toBeNull();
+  });
+});
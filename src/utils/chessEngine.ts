@@ -0,0 +1,584 @@
+import { PieceType, Position } from '@/types/chess';
+import {
+  applyMove,
+  BLACK,
+  COLOR_MASK,
+  createGeneratorState,
+  FLAG_CASTLE,
+  FLAG_EN_PASSANT,
+  GeneratedMove,
+  generateLegalMoves,
+  generatePseudoLegalMoves,
+  GeneratorState,
+  isKingAttacked,
+  KING,
+  PIECE_TYPES,
+  QUEEN,
+  ROOK,
+  squareName,
+  TYPE_MASK,
+  undoMove,
+  WHITE
+} from './chessMoveGenerator';
+
+// Local alpha-beta engine: iterative deepening, quiescence search, a transposition table,
+// MVV-LVA/killer/history move ordering and a material + piece-square table evaluation.
+// It searches on the 0x88 generator board so no Position objects are created per node.
+
+export interface EngineOptions {
+  maxDepth?: number;
+  timeLimitMs?: number;
+}
+
+export interface EngineMove {
+  from: string;
+  to: string;
+  promotion?: PieceType;
+}
+
+export interface EngineResult extends EngineMove {
+  // Centipawns from the point of view of the side to move
+  score: number;
+  // Moves until mate; positive when the side to move delivers it, negative when it is mated
+  mateIn?: number;
+  depth: number;
+  nodes: number;
+  timeMs: number;
+  pv: EngineMove[];
+}
+
+export const DEFAULT_ENGINE_OPTIONS: Required<EngineOptions> = {
+  maxDepth: 64,
+  timeLimitMs: 1000
+};
+
+const MATE = 100000;
+const MATE_THRESHOLD = MATE - 1000;
+const INFINITY = MATE + 1;
+
+// Indexed by type code
+const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 0];
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0];
+const MAX_PHASE = 24;
+
+// Piece-square tables from white's point of view, rank 8 first, so they index by 0x88 row * 8 + col
+const PAWN_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+  50,  50,  50,  50,  50,  50,  50,  50,
+  10,  10,  20,  30,  30,  20,  10,  10,
+   5,   5,  10,  25,  25,  10,   5,   5,
+   0,   0,   0,  20,  20,   0,   0,   0,
+   5,  -5, -10,   0,   0, -10,  -5,   5,
+   5,  10,  10, -20, -20,  10,  10,   5,
+   0,   0,   0,   0,   0,   0,   0,   0
+];
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50,
+  -40, -20,   0,   0,   0,   0, -20, -40,
+  -30,   0,  10,  15,  15,  10,   0, -30,
+  -30,   5,  15,  20,  20,  15,   5, -30,
+  -30,   0,  15,  20,  20,  15,   0, -30,
+  -30,   5,  10,  15,  15,  10,   5, -30,
+  -40, -20,   0,   5,   5,   0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50
+];
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,  10,  10,   5,   0, -10,
+  -10,   5,   5,  10,  10,   5,   5, -10,
+  -10,   0,  10,  10,  10,  10,   0, -10,
+  -10,  10,  10,  10,  10,  10,  10, -10,
+  -10,   5,   0,   0,   0,   0,   5, -10,
+  -20, -10, -10, -10, -10, -10, -10, -20
+];
+
+const ROOK_TABLE = [
+   0,   0,   0,   0,   0,   0,   0,   0,
+   5,  10,  10,  10,  10,  10,  10,   5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+  -5,   0,   0,   0,   0,   0,   0,  -5,
+   0,   0,   0,   5,   5,   0,   0,   0
+];
+
+const QUEEN_TABLE = [
+  -20, -10, -10,  -5,  -5, -10, -10, -20,
+  -10,   0,   0,   0,   0,   0,   0, -10,
+  -10,   0,   5,   5,   5,   5,   0, -10,
+   -5,   0,   5,   5,   5,   5,   0,  -5,
+    0,   0,   5,   5,   5,   5,   0,  -5,
+  -10,   5,   5,   5,   5,   5,   0, -10,
+  -10,   0,   5,   0,   0,   0,   0, -10,
+  -20, -10, -10,  -5,  -5, -10, -10, -20
+];
+
+const KING_MIDDLEGAME_TABLE = [
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -30, -40, -40, -50, -50, -40, -40, -30,
+  -20, -30, -30, -40, -40, -30, -30, -20,
+  -10, -20, -20, -20, -20, -20, -20, -10,
+   20,  20,   0,   0,   0,   0,  20,  20,
+   20,  30,  10,   0,   0,  10,  30,  20
+];
+
+const KING_ENDGAME_TABLE = [
+  -50, -40, -30, -20, -20, -30, -40, -50,
+  -30, -20, -10,   0,   0, -10, -20, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  30,  40,  40,  30, -10, -30,
+  -30, -10,  20,  30,  30,  20, -10, -30,
+  -30, -30,   0,   0,   0,   0, -30, -30,
+  -50, -30, -30, -30, -30, -30, -30, -50
+];
+
+const PIECE_TABLES = [[], PAWN_TABLE, KNIGHT_TABLE, BISHOP_TABLE, ROOK_TABLE, QUEEN_TABLE];
+
+// Black reads the white tables upside down
+const tableIndex = (square: number, color: number) => {
+  const row = square >> 4;
+  return (color === WHITE ? row : 7 - row) * 8 + (square & 7);
+};
+
+// Static evaluation in centipawns, positive when white is better
+const evaluateState = (state: GeneratorState): number => {
+  const { squares } = state;
+  let score = 0;
+  let phase = 0;
+  let kingMiddlegame = 0;
+  let kingEndgame = 0;
+
+  for (let square = 0; square < 128; square++) {
+    if (square & 0x88) {
+      square += 7;
+      continue;
+    }
+
+    const piece = squares[square];
+    if (!piece) continue;
+
+    const type = piece & TYPE_MASK;
+    const color = piece & COLOR_MASK;
+    const sign = color === WHITE ? 1 : -1;
+    const index = tableIndex(square, color);
+
+    if (type === KING) {
+      kingMiddlegame += sign * KING_MIDDLEGAME_TABLE[index];
+      kingEndgame += sign * KING_ENDGAME_TABLE[index];
+    } else {
+      score += sign * (PIECE_VALUES[type] + PIECE_TABLES[type][index]);
+      phase += PHASE_WEIGHTS[type];
+    }
+  }
+
+  // Blend the king tables so the king walks out as material comes off
+  const weight = Math.min(phase, MAX_PHASE);
+  return score + Math.round((kingMiddlegame * weight + kingEndgame * (MAX_PHASE - weight)) / MAX_PHASE);
+};
+
+export const evaluatePosition = (position: Position): number => evaluateState(createGeneratorState(position));
+
+// Zobrist keys from a fixed-seed xorshift generator, so hashes are stable between runs.
+// Two 32-bit halves: the low half indexes the table, the high half verifies the entry.
+const createRandom = (seed: number) => () => {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+  return seed | 0;
+};
+
+const random = createRandom(0x9e3779b9);
+const PIECE_KEYS_LO = Int32Array.from({ length: 32 * 128 }, random);
+const PIECE_KEYS_HI = Int32Array.from({ length: 32 * 128 }, random);
+const CASTLING_KEYS_LO = Int32Array.from({ length: 16 }, random);
+const CASTLING_KEYS_HI = Int32Array.from({ length: 16 }, random);
+const EN_PASSANT_KEYS_LO = Int32Array.from({ length: 128 }, random);
+const EN_PASSANT_KEYS_HI = Int32Array.from({ length: 128 }, random);
+const SIDE_KEY_LO = random();
+const SIDE_KEY_HI = random();
+
+interface Hash {
+  lo: number;
+  hi: number;
+}
+
+const togglePiece = (hash: Hash, piece: number, square: number) => {
+  hash.lo ^= PIECE_KEYS_LO[piece * 128 + square];
+  hash.hi ^= PIECE_KEYS_HI[piece * 128 + square];
+};
+
+const toggleState = (hash: Hash, castling: number, enPassant: number) => {
+  hash.lo ^= CASTLING_KEYS_LO[castling];
+  hash.hi ^= CASTLING_KEYS_HI[castling];
+  if (enPassant >= 0) {
+    hash.lo ^= EN_PASSANT_KEYS_LO[enPassant];
+    hash.hi ^= EN_PASSANT_KEYS_HI[enPassant];
+  }
+};
+
+const computeHash = (state: GeneratorState): Hash => {
+  const hash: Hash = { lo: 0, hi: 0 };
+  for (let square = 0; square < 128; square++) {
+    if (!(square & 0x88) && state.squares[square]) togglePiece(hash, state.squares[square], square);
+  }
+  toggleState(hash, state.castling, state.enPassant);
+  if (state.turn === BLACK) {
+    hash.lo ^= SIDE_KEY_LO;
+    hash.hi ^= SIDE_KEY_HI;
+  }
+  return hash;
+};
+
+// Updates the hash for a move that applyMove has just played
+const updateHash = (hash: Hash, state: GeneratorState, move: GeneratedMove, previousCastling: number, previousEnPassant: number) => {
+  const us = move.piece & COLOR_MASK;
+
+  togglePiece(hash, move.piece, move.from);
+  togglePiece(hash, move.promotion ? us | move.promotion : move.piece, move.to);
+
+  if (move.flags & FLAG_EN_PASSANT) {
+    togglePiece(hash, move.captured, move.to + (us === WHITE ? 16 : -16));
+  } else if (move.captured) {
+    togglePiece(hash, move.captured, move.to);
+  }
+
+  if (move.flags & FLAG_CASTLE) {
+    const [rookFrom, rookTo] = move.to > move.from ? [move.from + 3, move.from + 1] : [move.from - 4, move.from - 1];
+    togglePiece(hash, us | ROOK, rookFrom);
+    togglePiece(hash, us | ROOK, rookTo);
+  }
+
+  toggleState(hash, previousCastling, previousEnPassant);
+  toggleState(hash, state.castling, state.enPassant);
+  hash.lo ^= SIDE_KEY_LO;
+  hash.hi ^= SIDE_KEY_HI;
+};
+
+const TT_SIZE = 1 << 18;
+const TT_MASK = TT_SIZE - 1;
+const TT_EXACT = 1;
+const TT_LOWER = 2;
+const TT_UPPER = 3;
+
+interface TranspositionTable {
+  keys: Int32Array;
+  moves: Int32Array;
+  scores: Int32Array;
+  depths: Int8Array;
+  flags: Uint8Array;
+}
+
+const createTranspositionTable = (): TranspositionTable => ({
+  keys: new Int32Array(TT_SIZE),
+  moves: new Int32Array(TT_SIZE),
+  scores: new Int32Array(TT_SIZE),
+  depths: new Int8Array(TT_SIZE),
+  flags: new Uint8Array(TT_SIZE)
+});
+
+const encodeMove = (move: GeneratedMove) => move.from | (move.to << 7) | (move.promotion << 14);
+
+// Mate scores are stored relative to the node so they stay valid when reached at another ply
+const scoreToTable = (score: number, ply: number) =>
+  score > MATE_THRESHOLD ? score + ply : score < -MATE_THRESHOLD ? score - ply : score;
+
+const scoreFromTable = (score: number, ply: number) =>
+  score > MATE_THRESHOLD ? score - ply : score < -MATE_THRESHOLD ? score + ply : score;
+
+const MAX_PLY = 128;
+
+interface SearchContext {
+  state: GeneratorState;
+  hash: Hash;
+  // Hashes of the positions on the current search path, for repetition detection
+  path: number[];
+  table: TranspositionTable;
+  killers: Int32Array;
+  history: Int32Array;
+  nodes: number;
+  deadline: number;
+  canStop: boolean;
+  stopped: boolean;
+}
+
+const orderMoves = (context: SearchContext, moves: GeneratedMove[], ttMove: number, ply: number) => {
+  const scores = new Map<GeneratedMove, number>();
+
+  moves.forEach(move => {
+    const encoded = encodeMove(move);
+    let score: number;
+    if (encoded === ttMove) {
+      score = 1_000_000;
+    } else if (move.captured) {
+      // Most valuable victim, least valuable attacker
+      score = 100_000 + PIECE_VALUES[move.captured & TYPE_MASK] * 10 - PIECE_VALUES[move.piece & TYPE_MASK] / 10;
+    } else if (move.promotion) {
+      score = 90_000 + PIECE_VALUES[move.promotion];
+    } else if (encoded === context.killers[ply * 2]) {
+      score = 80_000;
+    } else if (encoded === context.killers[ply * 2 + 1]) {
+      score = 70_000;
+    } else {
+      score = context.history[(move.piece & TYPE_MASK) * 128 + move.to];
+    }
+    scores.set(move, score);
+  });
+
+  return moves.sort((a, b) => scores.get(b)! - scores.get(a)!);
+};
+
+const checkTime = (context: SearchContext) => {
+  context.nodes++;
+  if (context.canStop && (context.nodes & 2047) === 0 && Date.now() > context.deadline) {
+    context.stopped = true;
+  }
+};
+
+// Plays out captures and promotions so the static evaluation is never taken mid-exchange
+const quiescence = (context: SearchContext, alpha: number, beta: number, ply: number): number => {
+  checkTime(context);
+  if (context.stopped) return 0;
+
+  const { state } = context;
+  const us = state.turn;
+  const standPat = evaluateState(state) * (us === WHITE ? 1 : -1);
+  if (standPat >= beta || ply >= MAX_PLY) return standPat;
+  if (standPat > alpha) alpha = standPat;
+
+  const moves = orderMoves(
+    context,
+    generatePseudoLegalMoves(state).filter(move => move.captured || move.promotion === QUEEN),
+    0,
+    ply
+  );
+
+  let best = standPat;
+  for (const move of moves) {
+    const undo = applyMove(state, move);
+    if (isKingAttacked(state, us)) {
+      undoMove(state, move, undo);
+      continue;
+    }
+    const score = -quiescence(context, -beta, -alpha, ply + 1);
+    undoMove(state, move, undo);
+
+    if (context.stopped) return 0;
+    if (score > best) best = score;
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+
+  return best;
+};
+
+const search = (context: SearchContext, depth: number, alpha: number, beta: number, ply: number): number => {
+  checkTime(context);
+  if (context.stopped) return 0;
+
+  const { state, hash, table } = context;
+  const us = state.turn;
+
+  // A position repeated on the search path or earlier in the game is scored as a draw.
+  // The path ends with this position, so positions with the same side to move start two entries back.
+  if (ply > 0) {
+    for (let index = context.path.length - 3; index >= 0; index -= 2) {
+      if (context.path[index] === hash.lo) return 0;
+    }
+  }
+
+  const inCheck = isKingAttacked(state, us);
+  if (inCheck) depth++;
+  if (depth <= 0 || ply >= MAX_PLY) return quiescence(context, alpha, beta, ply);
+
+  const slot = hash.lo & TT_MASK;
+  const hit = table.keys[slot] === hash.hi && table.flags[slot] !== 0;
+  const ttMove = hit ? table.moves[slot] : 0;
+
+  if (hit && ply > 0 && table.depths[slot] >= depth) {
+    const score = scoreFromTable(table.scores[slot], ply);
+    const flag = table.flags[slot];
+    if (flag === TT_EXACT) return score;
+    if (flag === TT_LOWER && score >= beta) return score;
+    if (flag === TT_UPPER && score <= alpha) return score;
+  }
+
+  const moves = orderMoves(context, generatePseudoLegalMoves(state), ttMove, ply);
+  const originalAlpha = alpha;
+  let best = -INFINITY;
+  let bestMove = 0;
+  let legalMoves = 0;
+
+  for (const move of moves) {
+    const previous = { lo: hash.lo, hi: hash.hi };
+    const undo = applyMove(state, move);
+    if (isKingAttacked(state, us)) {
+      undoMove(state, move, undo);
+      continue;
+    }
+    legalMoves++;
+
+    updateHash(hash, state, move, undo.castling, undo.enPassant);
+    context.path.push(hash.lo);
+    const score = -search(context, depth - 1, -beta, -alpha, ply + 1);
+    context.path.pop();
+    undoMove(state, move, undo);
+    hash.lo = previous.lo;
+    hash.hi = previous.hi;
+
+    if (context.stopped) return 0;
+
+    if (score > best) {
+      best = score;
+      bestMove = encodeMove(move);
+    }
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) {
+      if (!move.captured && !move.promotion) {
+        const encoded = encodeMove(move);
+        if (context.killers[ply * 2] !== encoded) {
+          context.killers[ply * 2 + 1] = context.killers[ply * 2];
+          context.killers[ply * 2] = encoded;
+        }
+        context.history[(move.piece & TYPE_MASK) * 128 + move.to] += depth * depth;
+      }
+      break;
+    }
+  }
+
+  if (legalMoves === 0) return inCheck ? -MATE + ply : 0;
+
+  table.keys[slot] = hash.hi;
+  table.moves[slot] = bestMove;
+  table.scores[slot] = scoreToTable(best, ply);
+  table.depths[slot] = Math.min(depth, 127);
+  table.flags[slot] = best <= originalAlpha ? TT_UPPER : best >= beta ? TT_LOWER : TT_EXACT;
+
+  return best;
+};
+
+const toEngineMove = (move: GeneratedMove): EngineMove => ({
+  from: squareName(move.from),
+  to: squareName(move.to),
+  promotion: move.promotion ? PIECE_TYPES[move.promotion - 1] : undefined
+});
+
+// Follows best moves through the transposition table to recover the principal variation
+const extractPV = (context: SearchContext, maxLength: number): EngineMove[] => {
+  const { state, hash, table } = context;
+  const pv: EngineMove[] = [];
+  const played: { move: GeneratedMove; undo: ReturnType<typeof applyMove>; previous: Hash }[] = [];
+  const seen = new Set<number>();
+
+  while (pv.length < maxLength) {
+    const slot = hash.lo & TT_MASK;
+    if (table.keys[slot] !== hash.hi || !table.moves[slot] || seen.has(hash.lo)) break;
+    seen.add(hash.lo);
+
+    const move = generateLegalMoves(state).find(candidate => encodeMove(candidate) === table.moves[slot]);
+    if (!move) break;
+
+    const previous = { lo: hash.lo, hi: hash.hi };
+    const undo = applyMove(state, move);
+    updateHash(hash, state, move, undo.castling, undo.enPassant);
+    played.push({ move, undo, previous });
+    pv.push(toEngineMove(move));
+  }
+
+  for (let index = played.length - 1; index >= 0; index--) {
+    const { move, undo, previous } = played[index];
+    undoMove(state, move, undo);
+    hash.lo = previous.lo;
+    hash.hi = previous.hi;
+  }
+
+  return pv;
+};
+
+export interface EngineSearch {
+  // Searches one ply deeper; returns false once the search has finished
+  step: () => boolean;
+  // Best line from the deepest completed iteration
+  result: () => EngineResult;
+}
+
+// Iterative deepening split into steps, so a caller can report progress or stop between depths.
+// history holds the game's earlier positions, oldest first, so repetitions of them count as draws.
+export const createEngineSearch = (position: Position, options: EngineOptions = {}, history: Position[] = []): EngineSearch | null => {
+  const { maxDepth, timeLimitMs } = { ...DEFAULT_ENGINE_OPTIONS, ...options };
+  const startTime = Date.now();
+  const state = createGeneratorState(position);
+
+  const rootMoves = generateLegalMoves(state);
+  if (rootMoves.length === 0) return null;
+
+  const hash = computeHash(state);
+  const context: SearchContext = {
+    state,
+    hash,
+    path: [...history.map(earlier => computeHash(createGeneratorState(earlier)).lo), hash.lo],
+    table: createTranspositionTable(),
+    killers: new Int32Array(MAX_PLY * 2),
+    history: new Int32Array(8 * 128),
+    nodes: 0,
+    deadline: startTime + timeLimitMs,
+    canStop: false,
+    stopped: false
+  };
+
+  let best: EngineResult = {
+    ...toEngineMove(rootMoves[0]),
+    score: 0,
+    depth: 0,
+    nodes: 0,
+    timeMs: 0,
+    pv: [toEngineMove(rootMoves[0])]
+  };
+  let depth = 0;
+  let finished = false;
+
+  const step = () => {
+    if (finished) return false;
+    depth++;
+
+    const score = search(context, depth, -INFINITY, INFINITY, 0);
+    if (context.stopped) {
+      finished = true;
+      return false;
+    }
+
+    const pv = extractPV(context, depth);
+    if (pv.length > 0) {
+      const mateIn = Math.abs(score) > MATE_THRESHOLD
+        ? Math.sign(score) * Math.ceil((MATE - Math.abs(score)) / 2)
+        : undefined;
+      best = { ...pv[0], score, mateIn, depth, nodes: context.nodes, timeMs: Date.now() - startTime, pv };
+    }
+
+    // Depth 1 always completes so there is a searched move; after that the clock applies
+    context.canStop = true;
+    finished = depth >= maxDepth || Date.now() > context.deadline || best.mateIn !== undefined;
+    return !finished;
+  };
+
+  const result = () => ({ ...best, nodes: context.nodes, timeMs: Date.now() - startTime });
+
+  return { step, result };
+};
+
+// Returns the best move for the side to move, or null when it has no legal moves
+export const searchBestMove = (position: Position, options: EngineOptions = {}, history: Position[] = []): EngineResult | null => {
+  const engineSearch = createEngineSearch(position, options, history);
+  if (!engineSearch) return null;
+
+  while (engineSearch.step()) {
+    // Keep deepening until the depth or time limit is reached
+  }
+  return engineSearch.result();
+};
@@ -0,0 +1,8 @@
+import { createEngineHost } from './chessEngineHost';
+import { EngineRequest } from './chessEngineProtocol';
+
+const handleRequest = createEngineHost(response => self.postMessage(response));
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  handleRequest(event.data);
+};
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseFEN, STARTING_FEN } from './chessNotation';
+import { ChessEngineClient, createChessEngineClient } from './chessEngineClient';
+import { EngineResult } from './chessEngine';
+
+// Node has no Web Worker, so these exercise the same host on the test thread
+describe('chessEngineClient', () => {
+  let client: ChessEngineClient;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    client = createChessEngineClient();
+  });
+
+  afterEach(() => {
+    client.terminate();
+  });
+
+  it('rejects requests before a position is set', async () => {
+    await expect(client.generateMoves()).rejects.toThrow('No position set');
+  });
+
+  it('generates legal moves for the current position', async () => {
+    await client.setPosition(parseFEN(STARTING_FEN));
+    expect(await client.generateMoves()).toHaveLength(20);
+  });
+
+  it('analyzes the position with the game history', async () => {
+    await client.setPosition(parseFEN('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3'));
+    const analysis = await client.analyze();
+    expect(analysis.validation.isCheckmate).toBe(true);
+    expect(analysis.validation.winner).toBe('black');
+    expect(analysis.evaluation).toBeLessThan(0);
+  });
+
+  it('reports progress while searching and resolves with the best move', async () => {
+    await client.setPosition(parseFEN('6k1/5ppp/8/8/8/8/8/4R1K1 w - - 0 1'));
+    const progress: EngineResult[] = [];
+    const result = await client.search({ maxDepth: 4 }, update => progress.push(update));
+    expect(result).toMatchObject({ from: 'e1', to: 'e8', mateIn: 1 });
+    expect(progress.length).toBeGreaterThan(0);
+  });
+
+  it('resolves a stopped search with the deepest completed iteration', async () => {
+    await client.setPosition(parseFEN(STARTING_FEN));
+    let stopping: Promise<void> | null = null;
+    const result = await client.search({ maxDepth: 64, timeLimitMs: 60000 }, () => {
+      stopping = stopping ?? client.stop();
+    });
+    await stopping;
+    expect(result?.depth).toBeGreaterThanOrEqual(1);
+    expect(result?.depth).toBeLessThan(64);
+  });
+
+  it('rejects requests after termination', async () => {
+    client.terminate();
+    await expect(client.generateMoves()).rejects.toThrow('terminated');
+  });
+});
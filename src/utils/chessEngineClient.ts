@@ -0,0 +1,131 @@
+import { Position } from '@/types/chess';
+import { EngineOptions, EngineResult } from './chessEngine';
+import { createEngineHost } from './chessEngineHost';
+import { EngineAnalysis, EngineRequest, EngineRequestPayload, EngineResponse } from './chessEngineProtocol';
+
+export interface ChessEngineClient {
+  setPosition: (position: Position, history?: Position[]) => Promise<void>;
+  generateMoves: () => Promise<string[]>;
+  analyze: () => Promise<EngineAnalysis>;
+  // Resolves with the best move of the deepest completed iteration, or null when there are no legal moves
+  search: (options?: EngineOptions, onProgress?: (result: EngineResult) => void) => Promise<EngineResult | null>;
+  stop: () => Promise<void>;
+  terminate: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: EngineResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (result: EngineResult) => void;
+}
+
+interface EngineTransport {
+  send: (request: EngineRequest) => void;
+  terminate: () => void;
+}
+
+const createTransport = (onResponse: (response: EngineResponse) => void, onFailure: (error: Error) => void): EngineTransport => {
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(new URL('./chessEngine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EngineResponse>) => onResponse(event.data);
+    worker.onerror = (event) => onFailure(new Error(event.message || 'Engine worker failed'));
+
+    return {
+      send: request => worker.postMessage(request),
+      terminate: () => worker.terminate()
+    };
+  }
+
+  // No worker support (tests, server rendering): run the same host on this thread
+  console.log('⚠️ Web Workers unavailable - running the engine on the main thread');
+  const handleRequest = createEngineHost(response => setTimeout(() => onResponse(response), 0));
+
+  return {
+    send: request => setTimeout(() => handleRequest(request), 0),
+    terminate: () => {}
+  };
+};
+
+export const createChessEngineClient = (): ChessEngineClient => {
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 1;
+  let terminated = false;
+
+  const failAll = (error: Error) => {
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  const handleResponse = (response: EngineResponse) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'search-progress') {
+      request.onProgress?.(response.result);
+      return;
+    }
+
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  const transport = createTransport(handleResponse, failAll);
+
+  const send = async <T extends EngineResponse['type']>(
+    payload: EngineRequestPayload,
+    expected: T,
+    onProgress?: (result: EngineResult) => void
+  ): Promise<Extract<EngineResponse, { type: T }>> => {
+    if (terminated) {
+      throw new Error('Engine has been terminated');
+    }
+
+    const response = await new Promise<EngineResponse>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject, onProgress });
+      transport.send({ ...payload, id } as EngineRequest);
+    });
+
+    if (response.type !== expected) {
+      throw new Error(`Unexpected engine response "${response.type}" to "${payload.type}"`);
+    }
+    return response as Extract<EngineResponse, { type: T }>;
+  };
+
+  return {
+    setPosition: async (position, history = []) => {
+      await send({ type: 'set-position', position, history }, 'position-set');
+    },
+    generateMoves: async () => (await send({ type: 'generate-moves' }, 'moves')).moves,
+    analyze: async () => (await send({ type: 'analyze' }, 'analysis')).analysis,
+    search: async (options, onProgress) => (await send({ type: 'search', options }, 'search-result', onProgress)).result,
+    stop: async () => {
+      await send({ type: 'stop' }, 'stopped');
+    },
+    terminate: () => {
+      terminated = true;
+      transport.terminate();
+      failAll(new Error('Engine has been terminated'));
+    }
+  };
+};
+
+// Shared worker for one-off move searches; searches are queued so positions never interleave
+let backgroundClient: ChessEngineClient | null = null;
+let backgroundQueue: Promise<unknown> = Promise.resolve();
+
+export const searchInBackground = (position: Position, options?: EngineOptions, history?: Position[]): Promise<EngineResult | null> => {
+  const run = backgroundQueue.then(async () => {
+    if (!backgroundClient) {
+      backgroundClient = createChessEngineClient();
+    }
+    await backgroundClient.setPosition(position, history);
+    return backgroundClient.search(options);
+  });
+  backgroundQueue = run.catch(() => undefined);
+  return run;
+};
@@ -0,0 +1,99 @@
+import { Position } from '@/types/chess';
+import { createEngineSearch, EngineOptions, evaluatePosition } from './chessEngine';
+import { EngineRequest, EngineResponse } from './chessEngineProtocol';
+import { generateLegalMoveNotations } from './chessMoveGenerator';
+import { validateGameState } from './chessRuleEnforcement';
+import { analyzeTacticalSituation } from './chessStateAnalysis';
+
+// Answers engine protocol requests. The worker runs one of these, and the client runs one
+// on the main thread when workers are unavailable.
+export const createEngineHost = (post: (response: EngineResponse) => void) => {
+  let position: Position | null = null;
+  let history: Position[] = [];
+  // Id of the search in progress; clearing it stops that search after its current depth
+  let activeSearchId: number | null = null;
+
+  const currentPosition = () => {
+    if (!position) {
+      throw new Error('No position set - send set-position first');
+    }
+    return position;
+  };
+
+  const runSearch = async (id: number, options?: EngineOptions) => {
+    const engineSearch = createEngineSearch(currentPosition(), options, history);
+    if (!engineSearch) {
+      post({ type: 'search-result', id, result: null });
+      return;
+    }
+
+    activeSearchId = id;
+    let reportedDepth = 0;
+    let searching = true;
+    while (searching && activeSearchId === id) {
+      searching = engineSearch.step();
+
+      const result = engineSearch.result();
+      if (result.depth > reportedDepth) {
+        reportedDepth = result.depth;
+        post({ type: 'search-progress', id, result });
+      }
+
+      // Yield between depths so stop requests are received
+      if (searching) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    if (activeSearchId === id) {
+      activeSearchId = null;
+    }
+
+    post({ type: 'search-result', id, result: engineSearch.result() });
+  };
+
+  return (request: EngineRequest) => {
+    const { id } = request;
+
+    try {
+      switch (request.type) {
+        case 'set-position':
+          position = request.position;
+          history = request.history ?? [];
+          post({ type: 'position-set', id });
+          break;
+
+        case 'generate-moves':
+          post({ type: 'moves', id, moves: generateLegalMoveNotations(currentPosition()) });
+          break;
+
+        case 'analyze': {
+          const analyzed = currentPosition();
+          post({
+            type: 'analysis',
+            id,
+            analysis: {
+              validation: validateGameState(analyzed, history),
+              tactics: analyzeTacticalSituation(analyzed),
+              evaluation: evaluatePosition(analyzed)
+            }
+          });
+          break;
+        }
+
+        case 'search':
+          // A new search replaces any search still running
+          runSearch(id, request.options).catch(error => {
+            post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+          });
+          break;
+
+        case 'stop':
+          activeSearchId = null;
+          post({ type: 'stopped', id });
+          break;
+      }
+    } catch (error) {
+      post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+};
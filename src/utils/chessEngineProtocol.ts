@@ -0,0 +1,36 @@
+import { Position } from '@/types/chess';
+import { EngineOptions, EngineResult } from './chessEngine';
+import { GameStateValidation } from './chessRuleEnforcement';
+import { TacticalSituation } from './chessStateAnalysis';
+
+// Messages exchanged with the engine worker. Every request carries an id and every
+// response echoes the id of the request it answers.
+
+export interface EngineAnalysis {
+  validation: GameStateValidation;
+  tactics: TacticalSituation;
+  // Static evaluation in centipawns from white's point of view
+  evaluation: number;
+}
+
+export type EngineRequest =
+  | { type: 'set-position'; id: number; position: Position; history?: Position[] }
+  | { type: 'generate-moves'; id: number }
+  | { type: 'analyze'; id: number }
+  | { type: 'search'; id: number; options?: EngineOptions }
+  | { type: 'stop'; id: number };
+
+export type EngineResponse =
+  | { type: 'position-set'; id: number }
+  | { type: 'moves'; id: number; moves: string[] }
+  | { type: 'analysis'; id: number; analysis: EngineAnalysis }
+  // Sent after every completed search depth
+  | { type: 'search-progress'; id: number; result: EngineResult }
+  | { type: 'search-result'; id: number; result: EngineResult | null }
+  | { type: 'stopped'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+// Distributes a union over its members so Omit keeps each variant's own fields
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+export type EngineRequestPayload = WithoutId<EngineRequest>;
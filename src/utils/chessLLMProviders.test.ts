@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createChessLLMProvider,
+  getOpponentProvider,
+  parseJSONReply,
+  saveLLMApiKey,
+  setLLMBaseUrl,
+  toAlternatingTurns
+} from './chessLLMProviders';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+};
+
+const fetchMock = vi.fn();
+
+const respond = (body: unknown) => fetchMock.mockResolvedValueOnce({ ok: true, json: async () => body });
+
+const lastRequest = () => {
+  const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+  return { url, headers: init.headers, body: JSON.parse(init.body) };
+};
+
+describe('chessLLMProviders', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+  });
+
+  it('asks OpenAI for a move held to the legal moves', async () => {
+    saveLLMApiKey('openai', 'sk-test');
+    respond({ choices: [{ message: { content: '{"move":"e2-e4","chatMessage":"Center."}' } }] });
+
+    const reply = await getOpponentProvider('gpt-4o').requestMove('Your move', ['e2-e4', 'd2-d4']);
+    expect(reply).toEqual({ move: 'e2-e4', chatMessage: 'Center.' });
+
+    const { url, headers, body } = lastRequest();
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(headers.Authorization).toBe('Bearer sk-test');
+    expect(body.model).toBe('gpt-4o');
+    expect(body.response_format.type).toBe('json_schema');
+    expect(body.response_format.json_schema.strict).toBe(true);
+    expect(body.response_format.json_schema.schema.properties.move.enum).toEqual(['e2-e4', 'd2-d4']);
+    expect(body.messages.map((message: { role: string }) => message.role)).toEqual(['system', 'user']);
+  });
+
+  it('talks to Anthropic as Claude', async () => {
+    saveLLMApiKey('anthropic', 'claude-key');
+    respond({ content: [{ type: 'tool_use', name: 'play_move', input: { move: 'g1-f3', chatMessage: 'Knight out.' } }] });
+
+    const provider = getOpponentProvider('claude');
+    expect(provider.id).toBe('anthropic');
+    expect(await provider.requestMove('Your move', ['g1-f3'])).toEqual({ move: 'g1-f3', chatMessage: 'Knight out.' });
+
+    const { url, headers, body } = lastRequest();
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(headers['x-api-key']).toBe('claude-key');
+    expect(headers['anthropic-version']).toBeDefined();
+    expect(body.system).toContain('You are Claude');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Your move' }]);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'play_move' });
+    expect(body.tools[0].input_schema.properties.move.enum).toEqual(['g1-f3']);
+  });
+
+  it('talks to Google as Gemini', async () => {
+    saveLLMApiKey('google', 'gemini-key');
+    respond({ candidates: [{ content: { parts: [{ text: 'A sharp position.' }] } }] });
+
+    const provider = getOpponentProvider('gemini');
+    expect(await provider.chat([
+      { role: 'assistant', content: 'Hello!' },
+      { role: 'user', content: 'How is it going?' }
+    ])).toBe('A sharp position.');
+
+    const { url, headers, body } = lastRequest();
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent');
+    expect(headers['x-goog-api-key']).toBe('gemini-key');
+    expect(body.systemInstruction.parts[0].text).toContain('You are Gemini');
+    expect(body.contents).toEqual([{ role: 'user', parts: [{ text: 'How is it going?' }] }]);
+    expect(body.generationConfig.responseJsonSchema).toBeUndefined();
+
+    respond({ candidates: [{ content: { parts: [{ text: '{"promotionPiece":"queen","chatMessage":"Queen."}' }] } }] });
+    expect(await provider.choosePromotion('Promote')).toEqual({ promotionPiece: 'queen', chatMessage: 'Queen.' });
+    expect(lastRequest().body.generationConfig.responseJsonSchema.properties.promotionPiece.enum).toContain('knight');
+  });
+
+  it('reaches any OpenAI-compatible server', async () => {
+    const provider = createChessLLMProvider({ provider: 'openai-compatible', model: 'local-model', name: 'Local' });
+    expect(provider.isConfigured()).toBe(false);
+
+    setLLMBaseUrl('openai-compatible', 'http://localhost:8080/v1/');
+    expect(provider.isConfigured()).toBe(true);
+    respond({ choices: [{ message: { content: 'Develop your knights.' } }] });
+
+    expect(await provider.analyze('Analyze')).toBe('Develop your knights.');
+    const { url, headers } = lastRequest();
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(headers.Authorization).toBeUndefined();
+  });
+
+  it('needs a key for hosted providers and reports API errors', async () => {
+    const provider = getOpponentProvider('claude');
+    expect(provider.isConfigured()).toBe(false);
+
+    saveLLMApiKey('anthropic', 'claude-key');
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests' });
+    await expect(provider.requestMove('Your move', ['e2-e4'])).rejects.toThrow('Anthropic API error: 429 Too Many Requests');
+
+    respond({ content: 'not a list of blocks' });
+    await expect(provider.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow('Unexpected Anthropic response: content:');
+  });
+
+  it('accepts only JSON replies and joins conversation turns', () => {
+    expect(parseJSONReply('OpenAI', '{"promotionPiece":"knight"}')).toEqual({ promotionPiece: 'knight' });
+    expect(() => parseJSONReply('OpenAI', 'Sure! {"promotionPiece":"knight"}')).toThrow('OpenAI reply is not valid JSON');
+    expect(() => parseJSONReply('OpenAI', '')).toThrow('No content in OpenAI response');
+
+    expect(toAlternatingTurns([
+      { role: 'assistant', content: 'Welcome' },
+      { role: 'user', content: 'Hi' },
+      { role: 'user', content: 'Ready?' },
+      { role: 'assistant', content: 'Yes' }
+    ])).toEqual([
+      { role: 'user', content: 'Hi\n\nReady?' },
+      { role: 'assistant', content: 'Yes' }
+    ]);
+  });
+});
@@ -0,0 +1,348 @@
+import { z } from 'zod';
+import { createMoveOutput, describeReplyError, PROMOTION_OUTPUT, StructuredOutput } from './chessLLMSchemas';
+
+// Chess opponents backed by hosted language models. Each player names a provider and a model; the
+// provider turns prompts into requests for that vendor's API, so a Claude opponent really talks to
+// Anthropic and a Gemini opponent to Google. Moves are asked for as structured output held to a
+// schema of the legal moves; validating the reply, retries and fallbacks stay in llmChessService,
+// which works with any provider.
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'google' | 'openai-compatible';
+
+export type LLMOpponentType = 'gpt-4o' | 'claude' | 'gemini';
+
+export interface LLMPlayerConfig {
+  provider: LLMProviderId;
+  model: string;
+  name: string;
+  // Personality added to the system prompt
+  instructions?: string;
+  // Overrides the provider's default endpoint, e.g. a local OpenAI-compatible server
+  baseUrl?: string;
+  // How long to wait for an answer before giving up on a request
+  timeoutMs?: number;
+}
+
+export interface LLMChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChessLLMProvider {
+  id: LLMProviderId;
+  model: string;
+  name: string;
+  // False without an API key (or, for OpenAI-compatible servers, a base URL); callers simulate instead
+  isConfigured: () => boolean;
+  // Resolve with the reply as parsed JSON, still to be validated; reject when there is none
+  requestMove: (prompt: string, legalMoves: string[]) => Promise<unknown>;
+  choosePromotion: (prompt: string) => Promise<unknown>;
+  chat: (messages: LLMChatMessage[]) => Promise<string>;
+  analyze: (prompt: string) => Promise<string>;
+}
+
+interface CompletionRequest {
+  system: string;
+  messages: LLMChatMessage[];
+  // Holds the reply to a JSON schema; plain text without one
+  output?: StructuredOutput;
+}
+
+interface ProviderInfo {
+  label: string;
+  defaultBaseUrl?: string;
+  // Servers you run yourself may not check keys
+  requiresApiKey: boolean;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, ProviderInfo> = {
+  openai: { label: 'OpenAI', defaultBaseUrl: 'https://api.openai.com/v1', requiresApiKey: true },
+  anthropic: { label: 'Anthropic', defaultBaseUrl: 'https://api.anthropic.com/v1', requiresApiKey: true },
+  google: { label: 'Google', defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta', requiresApiKey: true },
+  'openai-compatible': { label: 'OpenAI-compatible', requiresApiKey: false }
+};
+
+export const LLM_OPPONENTS: Record<LLMOpponentType, LLMPlayerConfig> = {
+  'gpt-4o': {
+    provider: 'openai',
+    model: 'gpt-4o',
+    name: 'ChessGPT Master'
+  },
+  claude: {
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5',
+    name: 'Claude Chess Mentor',
+    instructions: `You are Claude, an AI chess mentor focused on thoughtful, strategic play and chess education.
+
+Your personality: Thoughtful, patient, and philosophically inclined. You see chess as an art form and enjoy discussing the deeper aspects of the game.
+
+Approach to chess:
+- Favor positional understanding over tactical complications
+- Emphasize long-term planning and strategic concepts
+- Appreciate elegant, harmonious piece coordination
+- Value solid, sound play over risky attacks
+
+Your teaching style:
+- Draw connections between chess and life lessons
+- Explain the "why" behind moves, not just the "what"
+- Encourage pattern recognition and intuitive understanding
+- Use analogies and metaphors to explain complex concepts
+
+Always maintain a supportive, encouraging tone while playing at a strong level.`
+  },
+  gemini: {
+    provider: 'google',
+    model: 'gemini-2.5-flash',
+    name: 'Gemini Chess Explorer',
+    instructions: `You are Gemini, an innovative AI chess player who loves exploring creative and unconventional approaches to chess.
+
+Your personality: Creative, experimental, and energetic. You enjoy finding surprising moves and unconventional solutions.
+
+Chess style:
+- Look for creative, unexpected moves
+- Enjoy tactical complications and sharp positions
+- Willing to sacrifice material for dynamic compensation
+- Appreciate beautiful combinations and artistic play
+
+Your approach:
+- Think outside the box while respecting chess principles
+- Find the most interesting move when multiple good options exist
+- Explain creative ideas and alternative possibilities
+- Encourage imaginative thinking about positions
+
+Maintain high energy and enthusiasm while providing strong chess play.`
+  }
+};
+
+export const isLLMOpponent = (type: string | undefined): type is LLMOpponentType =>
+  !!type && Object.prototype.hasOwnProperty.call(LLM_OPPONENTS, type);
+
+const RULES_SYSTEM_PROMPT = 'You are a professional chess grandmaster AI that ALWAYS follows chess rules. Never suggest illegal moves.';
+const TEMPERATURE = 0.7;
+const MAX_TOKENS = 500;
+export const LLM_REQUEST_TIMEOUT_MS = 30000;
+
+// Endpoints set when the app is built, e.g. VITE_OPENAI_BASE_URL=http://127.0.0.1:8787/v1 for the mock LLM server
+const ENV_BASE_URLS: Record<LLMProviderId, string | undefined> = {
+  openai: import.meta.env.VITE_OPENAI_BASE_URL,
+  anthropic: import.meta.env.VITE_ANTHROPIC_BASE_URL,
+  google: import.meta.env.VITE_GOOGLE_BASE_URL,
+  'openai-compatible': import.meta.env.VITE_OPENAI_COMPATIBLE_BASE_URL
+};
+
+// Keys live in localStorage per provider; OpenAI keeps the key name the app has always used
+const getApiKeyStorageKey = (provider: LLMProviderId) =>
+  provider === 'openai-compatible' ? 'openai_compatible_api_key' : `${provider}_api_key`;
+const getBaseUrlStorageKey = (provider: LLMProviderId) =>
+  provider === 'openai-compatible' ? 'openai_compatible_base_url' : `${provider}_base_url`;
+
+export const getLLMApiKey = (provider: LLMProviderId): string | null =>
+  localStorage.getItem(getApiKeyStorageKey(provider));
+
+export const saveLLMApiKey = (provider: LLMProviderId, apiKey: string) => {
+  localStorage.setItem(getApiKeyStorageKey(provider), apiKey);
+};
+
+export const hasLLMApiKey = (provider: LLMProviderId) => !!getLLMApiKey(provider);
+
+// A player's own base URL wins over one saved for the provider, then one set at build time, then the vendor's endpoint
+export const getLLMBaseUrl = (config: Pick<LLMPlayerConfig, 'provider' | 'baseUrl'>): string | null => {
+  const baseUrl = config.baseUrl
+    || localStorage.getItem(getBaseUrlStorageKey(config.provider))
+    || ENV_BASE_URLS[config.provider]
+    || LLM_PROVIDERS[config.provider].defaultBaseUrl;
+  return baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+};
+
+export const setLLMBaseUrl = (provider: LLMProviderId, baseUrl: string | null) => {
+  if (baseUrl) {
+    localStorage.setItem(getBaseUrlStorageKey(provider), baseUrl);
+  } else {
+    localStorage.removeItem(getBaseUrlStorageKey(provider));
+  }
+};
+
+// Structured output is JSON and nothing else; anything more means the reply cannot be trusted
+export const parseJSONReply = (label: string, content: string): unknown => {
+  if (!content) {
+    throw new Error(`No content in ${label} response`);
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`${label} reply is not valid JSON: ${content.slice(0, 100)}`);
+  }
+};
+
+// Anthropic and Google want the conversation to open with the user and alternate turns, so a greeting
+// from the AI is dropped and back-to-back messages from one side are joined
+export const toAlternatingTurns = (messages: LLMChatMessage[]): LLMChatMessage[] => {
+  const turns: LLMChatMessage[] = [];
+  for (const message of messages) {
+    const previous = turns[turns.length - 1];
+    if (!previous && message.role === 'assistant') continue;
+    if (previous?.role === message.role) {
+      turns[turns.length - 1] = { ...previous, content: `${previous.content}\n\n${message.content}` };
+    } else {
+      turns.push(message);
+    }
+  }
+  return turns;
+};
+
+// The parts of each vendor's response the completions read; anything else is ignored
+const chatCompletionResponseSchema = z.object({
+  choices: z.array(z.object({ message: z.object({ content: z.string().nullish() }).optional() })).optional()
+});
+
+const anthropicResponseSchema = z.object({
+  content: z.array(z.object({ type: z.string(), text: z.string().optional(), input: z.unknown() })).optional()
+});
+
+const googleResponseSchema = z.object({
+  candidates: z.array(z.object({
+    content: z.object({ parts: z.array(z.object({ text: z.string().optional() })).optional() }).optional()
+  })).optional()
+});
+
+const readResponse = <T extends z.ZodTypeAny>(config: LLMPlayerConfig, schema: T, data: unknown): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Unexpected ${LLM_PROVIDERS[config.provider].label} response: ${describeReplyError(result.error)}`);
+  }
+  return result.data;
+};
+
+const postJSON = async (config: LLMPlayerConfig, url: string, headers: Record<string, string>, body: unknown): Promise<unknown> => {
+  const { label } = LLM_PROVIDERS[config.provider];
+  const timeoutMs = config.timeoutMs ?? LLM_REQUEST_TIMEOUT_MS;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw new Error(`${label} API timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const completeWithChatCompletions = async (config: LLMPlayerConfig, request: CompletionRequest): Promise<string> => {
+  const apiKey = getLLMApiKey(config.provider);
+  const data = readResponse(config, chatCompletionResponseSchema, await postJSON(
+    config,
+    `${getLLMBaseUrl(config)}/chat/completions`,
+    apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    {
+      model: config.model,
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      temperature: TEMPERATURE,
+      max_tokens: MAX_TOKENS,
+      ...(request.output && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.output.name, description: request.output.description, schema: request.output.schema, strict: true }
+        }
+      })
+    }
+  ));
+  return data.choices?.[0]?.message?.content ?? '';
+};
+
+const completeWithAnthropic = async (config: LLMPlayerConfig, request: CompletionRequest): Promise<string> => {
+  const data = readResponse(config, anthropicResponseSchema, await postJSON(
+    config,
+    `${getLLMBaseUrl(config)}/messages`,
+    {
+      'x-api-key': getLLMApiKey('anthropic') ?? '',
+      'anthropic-version': '2023-06-01',
+      // The key belongs to the player and is sent straight from their browser
+      'anthropic-dangerous-direct-browser-access': 'true'
+    },
+    {
+      model: config.model,
+      system: request.system,
+      messages: request.messages,
+      temperature: TEMPERATURE,
+      max_tokens: MAX_TOKENS,
+      // Anthropic has no JSON mode; a forced tool call carries the structured reply instead
+      ...(request.output && {
+        tools: [{ name: request.output.name, description: request.output.description, input_schema: request.output.schema }],
+        tool_choice: { type: 'tool', name: request.output.name }
+      })
+    }
+  ));
+  if (request.output) {
+    const toolUse = (data.content ?? []).find(block => block.type === 'tool_use');
+    return toolUse ? JSON.stringify(toolUse.input) : '';
+  }
+  return (data.content ?? [])
+    .filter(block => block.type === 'text')
+    .map(block => block.text ?? '')
+    .join('');
+};
+
+const completeWithGoogle = async (config: LLMPlayerConfig, request: CompletionRequest): Promise<string> => {
+  const data = readResponse(config, googleResponseSchema, await postJSON(
+    config,
+    `${getLLMBaseUrl(config)}/models/${config.model}:generateContent`,
+    { 'x-goog-api-key': getLLMApiKey('google') ?? '' },
+    {
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: request.messages.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      })),
+      generationConfig: {
+        temperature: TEMPERATURE,
+        maxOutputTokens: MAX_TOKENS,
+        ...(request.output && { responseMimeType: 'application/json', responseJsonSchema: request.output.schema })
+      }
+    }
+  ));
+  return (data.candidates?.[0]?.content?.parts ?? [])
+    .map(part => part.text ?? '')
+    .join('');
+};
+
+const COMPLETIONS: Record<LLMProviderId, (config: LLMPlayerConfig, request: CompletionRequest) => Promise<string>> = {
+  openai: completeWithChatCompletions,
+  anthropic: completeWithAnthropic,
+  google: completeWithGoogle,
+  'openai-compatible': completeWithChatCompletions
+};
+
+export const createChessLLMProvider = (config: LLMPlayerConfig): ChessLLMProvider => {
+  const system = [RULES_SYSTEM_PROMPT, config.instructions].filter(Boolean).join('\n\n');
+  const complete = (messages: LLMChatMessage[], output?: StructuredOutput) =>
+    COMPLETIONS[config.provider](config, { system, messages, output });
+
+  const completeStructured = async (prompt: string, output: StructuredOutput) =>
+    parseJSONReply(LLM_PROVIDERS[config.provider].label, await complete([{ role: 'user', content: prompt }], output));
+
+  return {
+    id: config.provider,
+    model: config.model,
+    name: config.name,
+    isConfigured: () => LLM_PROVIDERS[config.provider].requiresApiKey
+      ? hasLLMApiKey(config.provider)
+      : !!getLLMBaseUrl(config),
+    requestMove: (prompt, legalMoves) => completeStructured(prompt, createMoveOutput(legalMoves)),
+    choosePromotion: prompt => completeStructured(prompt, PROMOTION_OUTPUT),
+    chat: messages => complete(toAlternatingTurns(messages)),
+    analyze: prompt => complete([{ role: 'user', content: prompt }])
+  };
+};
+
+export const getOpponentProvider = (type: LLMOpponentType): ChessLLMProvider =>
+  createChessLLMProvider(LLM_OPPONENTS[type]);
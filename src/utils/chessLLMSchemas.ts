@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+// The shapes of the structured replies asked of language models. Each schema comes twice: as JSON
+// Schema, which the provider's structured output or tool call is held to, and as zod, which checks
+// what actually came back before the game trusts it.
+
+const PROMOTION_PIECES = ['queen', 'rook', 'bishop', 'knight'] as const;
+
+export interface StructuredOutput {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+// Every field is required because OpenAI's strict mode insists on it
+export const createMoveOutput = (legalMoves: string[]): StructuredOutput => ({
+  name: 'play_move',
+  description: 'Play one of the legal moves in the current position',
+  schema: {
+    type: 'object',
+    properties: {
+      move: { type: 'string', enum: legalMoves, description: 'The move, exactly as listed among the legal moves' },
+      chatMessage: { type: 'string', description: 'A short explanation of the move for the opponent' },
+      aiName: { type: 'string', description: 'Your chess persona name' }
+    },
+    required: ['move', 'chatMessage', 'aiName'],
+    additionalProperties: false
+  }
+});
+
+// For a single tool call that plays the move and names the promotion piece, as on an assistant run
+export const createPromotingMoveOutput = (legalMoves: string[]): StructuredOutput => {
+  const { schema, ...output } = createMoveOutput(legalMoves);
+  return {
+    ...output,
+    schema: {
+      ...schema,
+      properties: {
+        ...(schema.properties as Record<string, unknown>),
+        promotionPiece: {
+          type: ['string', 'null'],
+          enum: [...PROMOTION_PIECES, null],
+          description: 'The piece a pawn reaching the last rank becomes; null for any other move'
+        }
+      },
+      required: ['move', 'chatMessage', 'aiName', 'promotionPiece']
+    }
+  };
+};
+
+export const PROMOTION_OUTPUT: StructuredOutput = {
+  name: 'choose_promotion',
+  description: 'Choose the piece the pawn promotes to',
+  schema: {
+    type: 'object',
+    properties: {
+      promotionPiece: { type: 'string', enum: [...PROMOTION_PIECES] },
+      chatMessage: { type: 'string', description: 'A short explanation of the choice' }
+    },
+    required: ['promotionPiece', 'chatMessage'],
+    additionalProperties: false
+  }
+};
+
+export const createMoveReplySchema = (legalMoves: string[]) => z.object({
+  move: z.enum(legalMoves as [string, ...string[]]),
+  chatMessage: z.string().default(''),
+  aiName: z.string().optional()
+});
+
+export const promotionReplySchema = z.object({
+  promotionPiece: z.enum(PROMOTION_PIECES),
+  chatMessage: z.string().default('')
+});
+
+// A promoting move must name its piece; for any other move the piece is ignored
+export const createPromotingMoveReplySchema = (legalMoves: string[], promotingMoves: string[]) =>
+  createMoveReplySchema(legalMoves)
+    .extend({ promotionPiece: promotionReplySchema.shape.promotionPiece.nullish() })
+    .superRefine((reply, context) => {
+      if (promotingMoves.includes(reply.move) && !reply.promotionPiece) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['promotionPiece'], message: `Required when ${reply.move} promotes a pawn` });
+      }
+    });
+
+export type MoveReply = z.infer<ReturnType<typeof createMoveReplySchema>>;
+export type PromotionReply = z.infer<typeof promotionReplySchema>;
+
+// One line per problem, e.g. `move: Invalid enum value. Expected 'e2-e4' | 'd2-d4', received 'e1-e8'`
+export const describeReplyError = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`).join('; ');
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseFEN, STARTING_FEN } from './chessNotation';
+import { formatLine, formatLiveScore, getWhiteShare, toLiveEvaluation } from './chessLiveAnalysis';
+
+describe('chessLiveAnalysis', () => {
+  it('numbers the principal variation in SAN', () => {
+    const start = parseFEN(STARTING_FEN);
+    expect(formatLine(start, [{ from: 'e2', to: 'e4' }, { from: 'e7', to: 'e5' }, { from: 'g1', to: 'f3' }]))
+      .toBe('1. e4 e5 2. Nf3');
+
+    const blackToMove = parseFEN('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+    expect(formatLine(blackToMove, [{ from: 'c7', to: 'c5' }, { from: 'g1', to: 'f3' }])).toBe('1... c5 2. Nf3');
+  });
+
+  it('reports scores from white point of view', () => {
+    const blackToMove = parseFEN('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+    const evaluation = toLiveEvaluation(blackToMove, {
+      from: 'c7', to: 'c5', score: -40, depth: 6, nodes: 1, timeMs: 1, pv: [{ from: 'c7', to: 'c5' }]
+    });
+    expect(evaluation).toMatchObject({ score: 40, depth: 6, line: '1... c5', bestMove: { from: 'c7', to: 'c5' } });
+  });
+
+  it('fills the bar towards the side that is better', () => {
+    expect(getWhiteShare({ score: 0 })).toBe(50);
+    expect(getWhiteShare({ score: 200 })).toBeGreaterThan(65);
+    expect(getWhiteShare({ score: -200 })).toBeLessThan(35);
+    expect(getWhiteShare({ score: 0, mateIn: -2 })).toBe(0);
+  });
+
+  it('formats scores in pawns and mates', () => {
+    expect(formatLiveScore({ score: 134 })).toBe('+1.3');
+    expect(formatLiveScore({ score: -50 })).toBe('-0.5');
+    expect(formatLiveScore({ score: 0, mateIn: 3 })).toBe('M3');
+    expect(formatLiveScore({ score: 0, mateIn: -2 })).toBe('-M2');
+  });
+});
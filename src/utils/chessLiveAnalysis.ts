@@ -0,0 +1,62 @@
+import { Position } from '@/types/chess';
+import { EngineMove, EngineResult } from './chessEngine';
+import { makeMove } from './chessLogic';
+import { moveToSAN } from './chessNotation';
+
+// Formatting for the live engine display: evaluation bar, score and principal variation.
+
+export interface LiveEvaluation {
+  // Centipawns from white's point of view
+  score: number;
+  // Positive when white mates, negative when black mates
+  mateIn?: number;
+  depth: number;
+  // Principal variation in SAN, numbered from the analyzed position
+  line: string;
+  bestMove?: EngineMove;
+}
+
+// How far the bar moves per centipawn; a two-pawn advantage fills about three quarters of it
+const BAR_STEEPNESS = 0.004;
+// Plies of the principal variation worth showing
+const MAX_LINE_PLIES = 10;
+
+export const formatLine = (position: Position, pv: EngineMove[]): string => {
+  const parts: string[] = [];
+  let current = position;
+
+  pv.slice(0, MAX_LINE_PLIES).forEach((move, index) => {
+    const san = moveToSAN(current, move.from, move.to, move.promotion);
+    if (current.turn === 'white') {
+      parts.push(`${current.fullmoveNumber}. ${san}`);
+    } else {
+      parts.push(index === 0 ? `${current.fullmoveNumber}... ${san}` : san);
+    }
+    current = makeMove(current, move.from, move.to, move.promotion);
+  });
+
+  return parts.join(' ');
+};
+
+export const toLiveEvaluation = (position: Position, result: EngineResult): LiveEvaluation => {
+  const sign = position.turn === 'white' ? 1 : -1;
+  return {
+    score: sign * result.score,
+    mateIn: result.mateIn !== undefined ? sign * result.mateIn : undefined,
+    depth: result.depth,
+    line: formatLine(position, result.pv),
+    bestMove: result.pv[0]
+  };
+};
+
+// Share of the bar, 0-100, that belongs to white
+export const getWhiteShare = ({ score, mateIn }: Pick<LiveEvaluation, 'score' | 'mateIn'>): number => {
+  if (mateIn !== undefined) return mateIn > 0 ? 100 : 0;
+  return 100 / (1 + Math.exp(-BAR_STEEPNESS * score));
+};
+
+export const formatLiveScore = ({ score, mateIn }: Pick<LiveEvaluation, 'score' | 'mateIn'>): string => {
+  if (mateIn !== undefined) return `${mateIn < 0 ? '-' : ''}M${Math.abs(mateIn)}`;
+  const pawns = (score / 100).toFixed(1);
+  return score > 0 ? `+${pawns}` : pawns;
+};
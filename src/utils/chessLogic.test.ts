@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialPosition, makeMove, positionToCoords } from './chessLogic';
+import { generateFEN, parseFEN } from './chessNotation';
+import { Position } from '@/types/chess';
+
+const pieceAt = (position: Position, square: string) => {
+  const [row, col] = positionToCoords(square);
+  return position.board[row][col];
+};
+
+describe('makeMove', () => {
+  it('returns a new position and leaves the original untouched', () => {
+    const position = createInitialPosition();
+    const next = makeMove(position, 'e2', 'e4');
+
+    expect(pieceAt(position, 'e2')).toMatchObject({ type: 'pawn', color: 'white' });
+    expect(pieceAt(next, 'e4')).toMatchObject({ type: 'pawn', color: 'white' });
+    expect(generateFEN(next)).toBe('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1');
+  });
+
+  describe('promotion', () => {
+    const position = parseFEN('1n5k/P7/8/8/8/8/8/K7 w - - 0 1');
+
+    it('promotes to a queen by default', () => {
+      expect(pieceAt(makeMove(position, 'a7', 'a8'), 'a8')).toMatchObject({ type: 'queen', color: 'white' });
+    });
+
+    it('under-promotes to the requested piece', () => {
+      expect(pieceAt(makeMove(position, 'a7', 'a8', 'knight'), 'a8')).toMatchObject({ type: 'knight', color: 'white' });
+    });
+
+    it('promotes while capturing and resets the halfmove clock', () => {
+      const next = makeMove({ ...position, halfmoveClock: 12 }, 'a7', 'b8', 'rook');
+      expect(pieceAt(next, 'b8')).toMatchObject({ type: 'rook', color: 'white' });
+      expect(pieceAt(next, 'a7')).toBeNull();
+      expect(next.halfmoveClock).toBe(0);
+    });
+
+    it('promotes black pawns on the first rank', () => {
+      const next = makeMove(parseFEN('7k/8/8/8/8/8/p7/7K b - - 0 1'), 'a2', 'a1', 'bishop');
+      expect(pieceAt(next, 'a1')).toMatchObject({ type: 'bishop', color: 'black' });
+      expect(next.fullmoveNumber).toBe(2);
+    });
+  });
+
+  describe('castling', () => {
+    const position = parseFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+
+    it('moves the rook when castling kingside', () => {
+      const next = makeMove(position, 'e1', 'g1');
+      expect(pieceAt(next, 'g1')).toMatchObject({ type: 'king', color: 'white' });
+      expect(pieceAt(next, 'f1')).toMatchObject({ type: 'rook', color: 'white' });
+      expect(pieceAt(next, 'h1')).toBeNull();
+      expect(next.castling.white).toEqual({ kingside: false, queenside: false });
+      expect(next.castling.black).toEqual({ kingside: true, queenside: true });
+    });
+
+    it('moves the rook when castling queenside', () => {
+      const next = makeMove({ ...position, turn: 'black' }, 'e8', 'c8');
+      expect(pieceAt(next, 'c8')).toMatchObject({ type: 'king', color: 'black' });
+      expect(pieceAt(next, 'd8')).toMatchObject({ type: 'rook', color: 'black' });
+      expect(pieceAt(next, 'a8')).toBeNull();
+    });
+
+    it('drops only the right of a rook that moves', () => {
+      const next = makeMove(position, 'h1', 'h4');
+      expect(next.castling.white).toEqual({ kingside: false, queenside: true });
+    });
+
+    it('drops the right of a rook that is captured', () => {
+      const next = makeMove(position, 'a1', 'a8');
+      expect(next.castling.white.queenside).toBe(false);
+      expect(next.castling.black).toEqual({ kingside: true, queenside: false });
+    });
+  });
+
+  it('removes the pawn captured en passant', () => {
+    const next = makeMove(parseFEN('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1'), 'e5', 'd6');
+    expect(pieceAt(next, 'd6')).toMatchObject({ type: 'pawn', color: 'white' });
+    expect(pieceAt(next, 'd5')).toBeNull();
+    expect(next.enPassant).toBeNull();
+  });
+});
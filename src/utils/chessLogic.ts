@@ -1,4 +1,6 @@
-import { ChessPiece, PieceType, PieceColor } from '@/types/chess';
+import { ChessPiece, PieceType, PieceColor, Position, CastlingRights } from '@/types/chess';
+import { generateFEN } from './chessNotation';
+import { generatePseudoLegalMoveNotations } from './chessMoveGenerator';
 
 export const initializeBoard = (): (ChessPiece | null)[][] => {
   const board: (ChessPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
@@ -26,6 +28,18 @@ export const initializeBoard = (): (ChessPiece | null)[][] => {
   return board;
 };
 
+export const createInitialPosition = (): Position => ({
+  board: initializeBoard(),
+  turn: 'white',
+  castling: {
+    white: { kingside: true, queenside: true },
+    black: { kingside: true, queenside: true }
+  },
+  enPassant: null,
+  halfmoveClock: 0,
+  fullmoveNumber: 1
+});
+
 export const positionToCoords = (position: string): [number, number] => {
   const col = position.charCodeAt(0) - 97;
   const row = 8 - parseInt(position[1]);
@@ -38,7 +52,7 @@ export const coordsToPosition = (row: number, col: number): string => {
 
 export const isPawnPromotion = (from: string, to: string, piece: ChessPiece): boolean => {
   if (piece.type !== 'pawn') return false;
-  const [, toRow] = positionToCoords(to);
+  const [toRow] = positionToCoords(to);
   return (piece.color === 'white' && toRow === 0) || (piece.color === 'black' && toRow === 7);
 };
 
@@ -49,87 +63,124 @@ export const isCastlingMove = (from: string, to: string, piece: ChessPiece): boo
   return fromRow === toRow && Math.abs(toCol - fromCol) === 2;
 };
 
-export const canCastle = (board: (ChessPiece | null)[][], color: PieceColor, side: 'kingside' | 'queenside'): boolean => {
-  const row = color === 'white' ? 7 : 0;
-  const king = board[row][4];
+export const isEnPassantMove = (position: Position, from: string, to: string): boolean => {
+  const { board, enPassant } = position;
+  if (!enPassant || to !== enPassant) return false;
+  const [fromRow, fromCol] = positionToCoords(from);
+  const [toRow, toCol] = positionToCoords(to);
+  const piece = board[fromRow][fromCol];
+  if (!piece || piece.type !== 'pawn' || board[toRow][toCol]) return false;
   
-  // King must be in original position and not moved
-  if (!king || king.type !== 'king' || king.hasMoved) return false;
-  
-  if (side === 'kingside') {
-    const rook = board[row][7];
-    if (!rook || rook.type !== 'rook' || rook.hasMoved) return false;
-    // Squares between king and rook must be empty
-    return !board[row][5] && !board[row][6];
-  } else {
-    const rook = board[row][0];
-    if (!rook || rook.type !== 'rook' || rook.hasMoved) return false;
-    // Squares between king and rook must be empty
-    return !board[row][1] && !board[row][2] && !board[row][3];
-  }
+  const direction = piece.color === 'white' ? -1 : 1;
+  if (toRow !== fromRow + direction || Math.abs(toCol - fromCol) !== 1) return false;
+  
+  // The pawn being captured sits beside the capturing pawn, not on the target square
+  const capturedPawn = board[fromRow][toCol];
+  return !!capturedPawn && capturedPawn.type === 'pawn' && capturedPawn.color !== piece.color;
 };
 
-export const isValidMove = (board: (ChessPiece | null)[][], from: string, to: string): boolean => {
+// Attack geometry only: ignores what stands on the target square, castling and en passant
+export const canPieceAttack = (board: (ChessPiece | null)[][], from: string, to: string): boolean => {
   const [fromRow, fromCol] = positionToCoords(from);
   const [toRow, toCol] = positionToCoords(to);
-  
   const piece = board[fromRow][fromCol];
   if (!piece) return false;
   
-  const targetPiece = board[toRow][toCol];
-  if (targetPiece && targetPiece.color === piece.color) return false;
-  
-  // Handle castling
-  if (piece.type === 'king' && Math.abs(toCol - fromCol) === 2) {
-    const side = toCol > fromCol ? 'kingside' : 'queenside';
-    return canCastle(board, piece.color, side);
-  }
-  
   const rowDiff = Math.abs(toRow - fromRow);
   const colDiff = Math.abs(toCol - fromCol);
+  if (rowDiff === 0 && colDiff === 0) return false;
   
   switch (piece.type) {
-    case 'pawn':
+    case 'pawn': {
       const direction = piece.color === 'white' ? -1 : 1;
-      const startRow = piece.color === 'white' ? 6 : 1;
-      
-      if (toCol === fromCol) {
-        if (toRow === fromRow + direction && !targetPiece) return true;
-        if (fromRow === startRow && toRow === fromRow + 2 * direction && !targetPiece) return true;
-      } else if (Math.abs(toCol - fromCol) === 1 && toRow === fromRow + direction && targetPiece) {
-        return true;
-      }
-      return false;
-      
-    case 'rook':
-      if (rowDiff === 0 || colDiff === 0) {
-        return isPathClear(board, fromRow, fromCol, toRow, toCol);
-      }
-      return false;
-      
-    case 'bishop':
-      if (rowDiff === colDiff) {
-        return isPathClear(board, fromRow, fromCol, toRow, toCol);
-      }
-      return false;
-      
-    case 'queen':
-      if (rowDiff === 0 || colDiff === 0 || rowDiff === colDiff) {
-        return isPathClear(board, fromRow, fromCol, toRow, toCol);
-      }
-      return false;
-      
+      return toRow === fromRow + direction && colDiff === 1;
+    }
     case 'knight':
       return (rowDiff === 2 && colDiff === 1) || (rowDiff === 1 && colDiff === 2);
-      
     case 'king':
       return rowDiff <= 1 && colDiff <= 1;
-      
+    case 'rook':
+      return (rowDiff === 0 || colDiff === 0) && isPathClear(board, fromRow, fromCol, toRow, toCol);
+    case 'bishop':
+      return rowDiff === colDiff && isPathClear(board, fromRow, fromCol, toRow, toCol);
+    case 'queen':
+      return (rowDiff === 0 || colDiff === 0 || rowDiff === colDiff) && isPathClear(board, fromRow, fromCol, toRow, toCol);
     default:
       return false;
   }
 };
 
+export const isSquareAttacked = (board: (ChessPiece | null)[][], square: string, byColor: PieceColor): boolean => {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === byColor && canPieceAttack(board, coordsToPosition(row, col), square)) {
+        return true;
+      }
+    }
+  }
+  
+  return false;
+};
+
+export const canCastle = (position: Position, color: PieceColor, side: 'kingside' | 'queenside'): boolean => {
+  if (!position.castling[color][side]) return false;
+  
+  const { board } = position;
+  const row = color === 'white' ? 7 : 0;
+  const king = board[row][4];
+  const opponent: PieceColor = color === 'white' ? 'black' : 'white';
+  
+  if (!king || king.type !== 'king' || king.color !== color) return false;
+  
+  const rookCol = side === 'kingside' ? 7 : 0;
+  const rook = board[row][rookCol];
+  if (!rook || rook.type !== 'rook' || rook.color !== color) return false;
+  
+  // Squares between king and rook must be empty
+  const between = side === 'kingside' ? [5, 6] : [1, 2, 3];
+  if (between.some(col => board[row][col])) return false;
+  
+  // King may not castle out of, through, or into check
+  const kingPath = side === 'kingside' ? [4, 5, 6] : [4, 3, 2];
+  return kingPath.every(col => !isSquareAttacked(board, coordsToPosition(row, col), opponent));
+};
+
+export const isValidMove = (position: Position, from: string, to: string): boolean => {
+  const { board } = position;
+  const [fromRow, fromCol] = positionToCoords(from);
+  const [toRow, toCol] = positionToCoords(to);
+  
+  const piece = board[fromRow][fromCol];
+  if (!piece) return false;
+  
+  const targetPiece = board[toRow][toCol];
+  if (targetPiece && targetPiece.color === piece.color) return false;
+  
+  // Handle castling
+  if (isCastlingMove(from, to, piece)) {
+    const side = toCol > fromCol ? 'kingside' : 'queenside';
+    const homeRow = piece.color === 'white' ? 7 : 0;
+    return fromRow === homeRow && fromCol === 4 && canCastle(position, piece.color, side);
+  }
+  
+  if (piece.type === 'pawn') {
+    const direction = piece.color === 'white' ? -1 : 1;
+    const startRow = piece.color === 'white' ? 6 : 1;
+    
+    if (toCol === fromCol) {
+      if (toRow === fromRow + direction && !targetPiece) return true;
+      if (fromRow === startRow && toRow === fromRow + 2 * direction && !targetPiece && !board[fromRow + direction][fromCol]) return true;
+    } else if (Math.abs(toCol - fromCol) === 1 && toRow === fromRow + direction) {
+      if (targetPiece) return true;
+      return isEnPassantMove(position, from, to);
+    }
+    return false;
+  }
+  
+  return canPieceAttack(board, from, to);
+};
+
 const isPathClear = (board: (ChessPiece | null)[][], fromRow: number, fromCol: number, toRow: number, toCol: number): boolean => {
   const rowStep = toRow > fromRow ? 1 : toRow < fromRow ? -1 : 0;
   const colStep = toCol > fromCol ? 1 : toCol < fromCol ? -1 : 0;
@@ -146,81 +197,69 @@ const isPathClear = (board: (ChessPiece | null)[][], fromRow: number, fromCol: n
   return true;
 };
 
-export const executeCastling = (board: (ChessPiece | null)[][], from: string, to: string): (ChessPiece | null)[][] => {
-  const newBoard = board.map(row => [...row]);
+// A king or rook leaving its home square, or a rook being captured there, forfeits that side's castling
+const updateCastlingRights = (castling: CastlingRights, from: string, to: string): CastlingRights => {
+  const touched = (square: string) => from === square || to === square;
+  return {
+    white: {
+      kingside: castling.white.kingside && !touched('e1') && !touched('h1'),
+      queenside: castling.white.queenside && !touched('e1') && !touched('a1')
+    },
+    black: {
+      kingside: castling.black.kingside && !touched('e8') && !touched('h8'),
+      queenside: castling.black.queenside && !touched('e8') && !touched('a8')
+    }
+  };
+};
+
+// Returns the position after the move; the given position and its pieces are left untouched.
+// Promotions default to a queen when no piece is chosen.
+export const makeMove = (position: Position, from: string, to: string, promotionPiece?: PieceType): Position => {
   const [fromRow, fromCol] = positionToCoords(from);
   const [toRow, toCol] = positionToCoords(to);
   
-  const king = newBoard[fromRow][fromCol];
-  if (!king) return newBoard;
+  const piece = position.board[fromRow][fromCol];
+  if (!piece) return position;
   
-  // Move king
-  king.position = to;
-  king.hasMoved = true;
-  newBoard[toRow][toCol] = king;
-  newBoard[fromRow][fromCol] = null;
+  const board = position.board.map(row => [...row]);
+  const isCapture = !!board[toRow][toCol] || isEnPassantMove(position, from, to);
   
-  // Move rook
-  if (toCol > fromCol) { // Kingside castling
-    const rook = newBoard[fromRow][7];
-    if (rook) {
-      const rookTo = coordsToPosition(fromRow, 5);
-      rook.position = rookTo;
-      rook.hasMoved = true;
-      newBoard[fromRow][5] = rook;
-      newBoard[fromRow][7] = null;
-    }
-  } else { // Queenside castling
-    const rook = newBoard[fromRow][0];
+  if (isEnPassantMove(position, from, to)) {
+    board[fromRow][toCol] = null;
+  }
+  
+  if (isCastlingMove(from, to, piece)) {
+    const rookFromCol = toCol > fromCol ? 7 : 0;
+    const rookToCol = toCol > fromCol ? 5 : 3;
+    const rook = board[fromRow][rookFromCol];
     if (rook) {
-      const rookTo = coordsToPosition(fromRow, 3);
-      rook.position = rookTo;
-      rook.hasMoved = true;
-      newBoard[fromRow][3] = rook;
-      newBoard[fromRow][0] = null;
+      board[fromRow][rookToCol] = { ...rook, position: coordsToPosition(fromRow, rookToCol) };
+      board[fromRow][rookFromCol] = null;
     }
   }
   
-  return newBoard;
-};
-
-export const executePromotion = (board: (ChessPiece | null)[][], to: string, promotionPiece: PieceType): (ChessPiece | null)[][] => {
-  const newBoard = board.map(row => [...row]);
-  const [toRow, toCol] = positionToCoords(to);
+  const type = isPawnPromotion(from, to, piece) ? promotionPiece || 'queen' : piece.type;
+  board[toRow][toCol] = { ...piece, type, position: to };
+  board[fromRow][fromCol] = null;
   
-  const piece = newBoard[toRow][toCol];
-  if (piece && piece.type === 'pawn') {
-    piece.type = promotionPiece;
-  }
+  const isDoublePush = piece.type === 'pawn' && Math.abs(toRow - fromRow) === 2;
   
-  return newBoard;
+  return {
+    board,
+    turn: position.turn === 'white' ? 'black' : 'white',
+    castling: updateCastlingRights(position.castling, from, to),
+    enPassant: isDoublePush ? coordsToPosition((fromRow + toRow) / 2, fromCol) : null,
+    halfmoveClock: piece.type === 'pawn' || isCapture ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber: position.turn === 'black' ? position.fullmoveNumber + 1 : position.fullmoveNumber
+  };
 };
 
-export const makeMove = (board: (ChessPiece | null)[][], from: string, to: string, promotionPiece?: PieceType): (ChessPiece | null)[][] => {
-  const [fromRow, fromCol] = positionToCoords(from);
+// The piece captured by a move, including a pawn taken en passant
+export const getCapturedPiece = (position: Position, from: string, to: string): ChessPiece | null => {
+  const [fromRow] = positionToCoords(from);
   const [toRow, toCol] = positionToCoords(to);
-  
-  const piece = board[fromRow][fromCol];
-  if (!piece) return board;
-  
-  // Handle castling
-  if (isCastlingMove(from, to, piece)) {
-    return executeCastling(board, from, to);
-  }
-  
-  // Regular move
-  let newBoard = board.map(row => [...row]);
-  piece.position = to;
-  piece.hasMoved = true;
-  newBoard[toRow][toCol] = piece;
-  newBoard[fromRow][fromCol] = null;
-  
-  // Handle pawn promotion
-  if (isPawnPromotion(from, to, piece) && promotionPiece) {
-    newBoard = executePromotion(newBoard, to, promotionPiece);
-  }
-  
-  return newBoard;
+  if (isEnPassantMove(position, from, to)) return position.board[fromRow][toCol];
+  return position.board[toRow][toCol];
 };
 
 export const isInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
@@ -238,56 +277,13 @@ export const isInCheck = (board: (ChessPiece | null)[][], color: PieceColor): bo
   
   if (!kingPosition) return false;
   
-  // Check if any opponent piece can attack the king
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color !== color) {
-        const position = coordsToPosition(row, col);
-        if (isValidMove(board, position, kingPosition)) {
-          return true;
-        }
-      }
-    }
-  }
-  
-  return false;
+  // Check if any opponent piece attacks the king
+  return isSquareAttacked(board, kingPosition, color === 'white' ? 'black' : 'white');
 };
 
-export const getAllValidMoves = (board: (ChessPiece | null)[][], color: PieceColor): string[] => {
-  const moves: string[] = [];
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) {
-        const from = coordsToPosition(row, col);
-        
-        for (let toRow = 0; toRow < 8; toRow++) {
-          for (let toCol = 0; toCol < 8; toCol++) {
-            const to = coordsToPosition(toRow, toCol);
-            if (isValidMove(board, from, to)) {
-              moves.push(`${from}-${to}`);
-            }
-          }
-        }
-        
-        // Add castling moves
-        if (piece.type === 'king') {
-          if (canCastle(board, color, 'kingside')) {
-            const kingside = coordsToPosition(row, col + 2);
-            moves.push(`${from}-${kingside}`);
-          }
-          if (canCastle(board, color, 'queenside')) {
-            const queenside = coordsToPosition(row, col - 2);
-            moves.push(`${from}-${queenside}`);
-          }
-        }
-      }
-    }
-  }
-  
-  return moves;
+// Pseudo-legal moves for one side; use getAllLegalMoves to exclude moves that leave the king in check
+export const getAllValidMoves = (position: Position, color: PieceColor = position.turn): string[] => {
+  return generatePseudoLegalMoveNotations(position, color);
 };
 
 // Enhanced board analysis functions
@@ -307,15 +303,16 @@ export interface BoardAnalysis {
   };
 }
 
-export const analyzeBoardState = (board: (ChessPiece | null)[][], color: PieceColor): BoardAnalysis => {
-  const fen = generateFEN(board);
+export const analyzeBoardState = (position: Position, color: PieceColor = position.turn): BoardAnalysis => {
+  const { board, enPassant } = position;
+  const fen = generateFEN(position);
   const inCheck = isInCheck(board, color);
   const checkingPieces = findCheckingPieces(board, color);
   const threatenedPieces = findThreatenedPieces(board, color);
   const materialBalance = calculateMaterialBalance(board);
-  const pieceActivity = calculatePieceActivity(board);
+  const pieceActivity = calculatePieceActivity(position);
   const kingSafety = evaluateKingSafety(board);
-  const controlledSquares = getControlledSquares(board);
+  const controlledSquares = getControlledSquares(position);
   
   return {
     fen,
@@ -328,45 +325,15 @@ export const analyzeBoardState = (board: (ChessPiece | null)[][], color: PieceCo
     controlledSquares,
     specialConditions: {
       canCastle: { 
-        white: { kingside: canCastle(board, 'white', 'kingside'), queenside: canCastle(board, 'white', 'queenside') },
-        black: { kingside: canCastle(board, 'black', 'kingside'), queenside: canCastle(board, 'black', 'queenside') }
+        white: { kingside: canCastle(position, 'white', 'kingside'), queenside: canCastle(position, 'white', 'queenside') },
+        black: { kingside: canCastle(position, 'black', 'kingside'), queenside: canCastle(position, 'black', 'queenside') }
       },
-      enPassant: null, // Simplified for now
-      fiftyMoveRule: 0 // Simplified for now
+      enPassant,
+      fiftyMoveRule: position.halfmoveClock
     }
   };
 };
 
-const generateFEN = (board: (ChessPiece | null)[][]): string => {
-  const pieceSymbols = {
-    white: { king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P' },
-    black: { king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p' }
-  };
-  
-  return board.map(row => {
-    let rowString = '';
-    let emptyCount = 0;
-    
-    row.forEach(piece => {
-      if (piece) {
-        if (emptyCount > 0) {
-          rowString += emptyCount;
-          emptyCount = 0;
-        }
-        rowString += pieceSymbols[piece.color][piece.type];
-      } else {
-        emptyCount++;
-      }
-    });
-    
-    if (emptyCount > 0) {
-      rowString += emptyCount;
-    }
-    
-    return rowString;
-  }).join('/');
-};
-
 const findCheckingPieces = (board: (ChessPiece | null)[][], color: PieceColor): string[] => {
   const checkingPieces: string[] = [];
   let kingPosition = '';
@@ -390,7 +357,7 @@ const findCheckingPieces = (board: (ChessPiece | null)[][], color: PieceColor):
       const piece = board[row][col];
       if (piece && piece.color !== color) {
         const position = coordsToPosition(row, col);
-        if (isValidMove(board, position, kingPosition)) {
+        if (canPieceAttack(board, position, kingPosition)) {
           checkingPieces.push(position);
         }
       }
@@ -416,7 +383,7 @@ const findThreatenedPieces = (board: (ChessPiece | null)[][], color: PieceColor)
             const enemyPiece = board[eRow][eCol];
             if (enemyPiece && enemyPiece.color !== color) {
               const enemyPosition = coordsToPosition(eRow, eCol);
-              if (isValidMove(board, enemyPosition, position)) {
+              if (canPieceAttack(board, enemyPosition, position)) {
                 threats.push(enemyPosition);
               }
             }
@@ -454,16 +421,17 @@ const calculateMaterialBalance = (board: (ChessPiece | null)[][]): number => {
   return whiteValue - blackValue;
 };
 
-const calculatePieceActivity = (board: (ChessPiece | null)[][]): { [key: string]: number } => {
+const calculatePieceActivity = (position: Position): { [key: string]: number } => {
+  const { board } = position;
   const activity: { [key: string]: number } = {};
+  const movesByColor = { white: getAllValidMoves(position, 'white'), black: getAllValidMoves(position, 'black') };
   
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
       if (piece) {
-        const position = coordsToPosition(row, col);
-        const validMoves = getAllValidMoves(board, piece.color).filter(move => move.startsWith(position));
-        activity[position] = validMoves.length;
+        const square = coordsToPosition(row, col);
+        activity[square] = movesByColor[piece.color].filter(move => move.startsWith(square)).length;
       }
     }
   }
@@ -482,32 +450,25 @@ const evaluateKingSafety = (board: (ChessPiece | null)[][]): { white: number; bl
   return safety;
 };
 
-const getControlledSquares = (board: (ChessPiece | null)[][]): { white: string[]; black: string[] } => {
+const getControlledSquares = (position: Position): { white: string[]; black: string[] } => {
   const controlled = { white: [] as string[], black: [] as string[] };
   
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece) {
-        const position = coordsToPosition(row, col);
-        const moves = getAllValidMoves(board, piece.color).filter(move => move.startsWith(position));
-        moves.forEach(move => {
-          const [, to] = move.split('-');
-          controlled[piece.color].push(to);
-        });
-      }
-    }
-  }
+  (['white', 'black'] as PieceColor[]).forEach(color => {
+    getAllValidMoves(position, color).forEach(move => {
+      const [, to] = move.split('-');
+      controlled[color].push(to);
+    });
+  });
   
   return controlled;
 };
 
-export const isCheckmate = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
-  if (!isInCheck(board, color)) return false;
-  return getAllValidMoves(board, color).length === 0;
+export const isCheckmate = (position: Position): boolean => {
+  if (!isInCheck(position.board, position.turn)) return false;
+  return getAllValidMoves(position).length === 0;
 };
 
-export const isStalemate = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
-  if (isInCheck(board, color)) return false;
-  return getAllValidMoves(board, color).length === 0;
+export const isStalemate = (position: Position): boolean => {
+  if (isInCheck(position.board, position.turn)) return false;
+  return getAllValidMoves(position).length === 0;
 };
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseFEN, STARTING_FEN } from './chessNotation';
+import { generateLegalMoveNotations, perft } from './chessMoveGenerator';
+
+// Reference node counts from https://www.chessprogramming.org/Perft_Results
+const PERFT_POSITIONS: { name: string; fen: string; nodes: number[] }[] = [
+  {
+    name: 'initial position',
+    fen: STARTING_FEN,
+    nodes: [20, 400, 8902, 197281]
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    nodes: [48, 2039, 97862]
+  },
+  {
+    // En passant discovered checks along the rank
+    name: 'position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    nodes: [14, 191, 2812, 43238]
+  },
+  {
+    // Promotions, under-promotions and castling out of check
+    name: 'position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    nodes: [6, 264, 9467]
+  },
+  {
+    name: 'position 4 mirrored',
+    fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+    nodes: [6, 264, 9467]
+  },
+  {
+    name: 'position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    nodes: [44, 1486, 62379]
+  },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    nodes: [46, 2079, 89890]
+  }
+];
+
+describe('perft', () => {
+  PERFT_POSITIONS.forEach(({ name, fen, nodes }) => {
+    nodes.forEach((expected, index) => {
+      it(`${name} depth ${index + 1} = ${expected}`, () => {
+        expect(perft(parseFEN(fen), index + 1)).toBe(expected);
+      });
+    });
+  });
+
+  it('counts the root as a single node at depth 0', () => {
+    expect(perft(parseFEN(STARTING_FEN), 0)).toBe(1);
+  });
+});
+
+describe('generateLegalMoveNotations', () => {
+  it('lists each promotion square once', () => {
+    const moves = generateLegalMoveNotations(parseFEN('8/P6k/8/8/8/8/8/K7 w - - 0 1'));
+    expect(moves.filter(move => move === 'a7-a8')).toHaveLength(1);
+  });
+
+  it('returns moves in board scan order', () => {
+    const moves = generateLegalMoveNotations(parseFEN(STARTING_FEN));
+    expect(moves.slice(0, 4)).toEqual(['a2-a4', 'a2-a3', 'b2-b4', 'b2-b3']);
+  });
+});
@@ -0,0 +1,2 @@
+// The move generator lives with the edge functions, which replay saved games with it before rating them
+export * from '../../supabase/functions/_shared/chessMoveGenerator';
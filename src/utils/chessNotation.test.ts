@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialPosition } from './chessLogic';
+import { moveToSAN, parseFEN, parseMoveNotation, parseSAN } from './chessNotation';
+
+describe('moveToSAN', () => {
+  it('writes pawn and piece moves', () => {
+    const start = createInitialPosition();
+    expect(moveToSAN(start, 'e2', 'e4')).toBe('e4');
+    expect(moveToSAN(start, 'g1', 'f3')).toBe('Nf3');
+  });
+
+  it('disambiguates by file, then rank, then square', () => {
+    const byFile = parseFEN('k7/8/8/8/8/8/8/1N2KN2 w - - 0 1');
+    expect(moveToSAN(byFile, 'b1', 'd2')).toBe('Nbd2');
+    expect(moveToSAN(byFile, 'f1', 'd2')).toBe('Nfd2');
+
+    const byRank = parseFEN('k7/8/8/6N1/8/8/8/4K1N1 w - - 0 1');
+    expect(moveToSAN(byRank, 'g1', 'f3')).toBe('N1f3');
+
+    const bySquare = parseFEN('8/7k/8/8/8/Q7/8/Q1Q1K3 w - - 0 1');
+    expect(moveToSAN(bySquare, 'a1', 'b2')).toBe('Qa1b2');
+  });
+
+  it('writes castling, en passant and promotion', () => {
+    const castling = parseFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(moveToSAN(castling, 'e1', 'g1')).toBe('O-O');
+    expect(moveToSAN(castling, 'e1', 'c1')).toBe('O-O-O');
+
+    expect(moveToSAN(parseFEN('k7/8/8/3pP3/8/8/8/K7 w - d6 0 1'), 'e5', 'd6')).toBe('exd6');
+
+    const promotion = parseFEN('1n5k/P7/8/8/8/8/8/K7 w - - 0 1');
+    expect(moveToSAN(promotion, 'a7', 'a8', 'knight')).toBe('a8=N');
+    expect(moveToSAN(promotion, 'a7', 'b8')).toBe('axb8=Q+');
+  });
+
+  it('marks check and mate', () => {
+    expect(moveToSAN(parseFEN('k7/8/8/8/8/8/8/K6R w - - 0 1'), 'h1', 'h8')).toBe('Rh8+');
+
+    const scholarsMate = parseFEN('r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4');
+    expect(moveToSAN(scholarsMate, 'h5', 'f7')).toBe('Qxf7#');
+  });
+});
+
+describe('parseSAN', () => {
+  it('finds the move a SAN string describes', () => {
+    const start = createInitialPosition();
+    expect(parseSAN(start, 'e4')).toEqual({ from: 'e2', to: 'e4', promotionPiece: undefined });
+    expect(parseSAN(start, 'Nf3')).toMatchObject({ from: 'g1', to: 'f3' });
+    expect(parseSAN(start, 'Nf6')).toBeNull();
+    expect(parseSAN(start, 'hello')).toBeNull();
+  });
+
+  it('needs enough disambiguation but accepts more than enough', () => {
+    const byFile = parseFEN('k7/8/8/8/8/8/8/1N2KN2 w - - 0 1');
+    expect(parseSAN(byFile, 'Nd2')).toBeNull();
+    expect(parseSAN(byFile, 'Nfd2')).toMatchObject({ from: 'f1', to: 'd2' });
+    expect(parseSAN(parseFEN('k7/8/8/6N1/8/8/8/4K1N1 w - - 0 1'), 'N5f3')).toMatchObject({ from: 'g5', to: 'f3' });
+
+    const start = createInitialPosition();
+    expect(parseSAN(start, 'Ngf3')).toMatchObject({ from: 'g1', to: 'f3' });
+    expect(parseSAN(start, 'Ng1f3')).toMatchObject({ from: 'g1', to: 'f3' });
+  });
+
+  it('reads castling, en passant and promotion', () => {
+    const castling = parseFEN('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(parseSAN(castling, 'O-O')).toMatchObject({ from: 'e1', to: 'g1' });
+    expect(parseSAN(castling, '0-0-0')).toMatchObject({ from: 'e1', to: 'c1' });
+
+    expect(parseSAN(parseFEN('k7/8/8/3pP3/8/8/8/K7 w - d6 0 1'), 'exd6')).toMatchObject({ from: 'e5', to: 'd6' });
+
+    const promotion = parseFEN('1n5k/P7/8/8/8/8/8/K7 w - - 0 1');
+    expect(parseSAN(promotion, 'a8=N')).toEqual({ from: 'a7', to: 'a8', promotionPiece: 'knight' });
+    expect(parseSAN(promotion, 'a8=q')).toEqual({ from: 'a7', to: 'a8', promotionPiece: 'queen' });
+    expect(parseSAN(promotion, 'axb8R')).toEqual({ from: 'a7', to: 'b8', promotionPiece: 'rook' });
+    expect(parseSAN(promotion, 'a8')).toBeNull();
+  });
+
+  it('ignores check, mate and annotation suffixes', () => {
+    expect(parseSAN(parseFEN('k7/8/8/8/8/8/8/K6R w - - 0 1'), 'Rh8+!')).toMatchObject({ from: 'h1', to: 'h8' });
+
+    const scholarsMate = parseFEN('r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4');
+    expect(parseSAN(scholarsMate, 'Qxf7#')).toMatchObject({ from: 'h5', to: 'f7' });
+  });
+});
+
+describe('parseMoveNotation', () => {
+  it('accepts coordinates or SAN', () => {
+    const start = createInitialPosition();
+    expect(parseMoveNotation(start, 'e2-e4')).toEqual({ notation: 'e2-e4', promotionPiece: undefined });
+    expect(parseMoveNotation(start, 'g1f3')).toMatchObject({ notation: 'g1-f3' });
+    expect(parseMoveNotation(start, 'Nc3')).toMatchObject({ notation: 'b1-c3' });
+    expect(parseMoveNotation(start, 'e2-e5')).toBeNull();
+  });
+});
@@ -1,20 +1,31 @@
+import { ChessPiece, PieceColor, PieceType, Move, Position, CastlingRights } from '@/types/chess';
+import { getCapturedPiece, isCastlingMove, isPawnPromotion, makeMove, positionToCoords } from './chessLogic';
+import { generateLegalMoveNotations, isPositionInCheck } from './chessMoveGenerator';
 
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
+export const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
 
-export const generateFEN = (
-  board: (ChessPiece | null)[][],
-  activeColor: PieceColor = 'white',
-  castlingRights: string = 'KQkq',
-  enPassant: string = '-',
-  halfmoveClock: number = 0,
-  fullmoveNumber: number = 1
-): string => {
-  const pieceSymbols = {
-    white: { king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P' },
-    black: { king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p' }
-  };
-  
-  const boardString = board.map(row => {
+const pieceSymbols: Record<PieceColor, Record<PieceType, string>> = {
+  white: { king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P' },
+  black: { king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p' }
+};
+
+const symbolPieces: Record<string, PieceType> = {
+  k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn'
+};
+
+const formatCastlingRights = (castling: CastlingRights): string => {
+  const rights = [
+    castling.white.kingside ? 'K' : '',
+    castling.white.queenside ? 'Q' : '',
+    castling.black.kingside ? 'k' : '',
+    castling.black.queenside ? 'q' : ''
+  ].join('');
+  return rights || '-';
+};
+
+// The one FEN serializer; every prompt, log and saved game goes through it
+export const generateFEN = (position: Position): string => {
+  const boardString = position.board.map(row => {
     let rowString = '';
     let emptyCount = 0;
     
@@ -37,7 +48,206 @@ export const generateFEN = (
     return rowString;
   }).join('/');
 
-  return `${boardString} ${activeColor[0]} ${castlingRights} ${enPassant} ${halfmoveClock} ${fullmoveNumber}`;
+  const castling = formatCastlingRights(position.castling);
+  const enPassant = position.enPassant || '-';
+
+  return `${boardString} ${position.turn[0]} ${castling} ${enPassant} ${position.halfmoveClock} ${position.fullmoveNumber}`;
+};
+
+// Rebuilds a full Position from FEN; throws with a readable message when the string is malformed
+export const parseFEN = (fen: string): Position => {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) {
+    throw new Error('FEN must have 4 to 6 space-separated fields');
+  }
+  
+  const [placement, activeColor, castlingField, enPassantField, halfmoveField = '0', fullmoveField = '1'] = fields;
+  
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new Error(`FEN board must have 8 ranks, found ${ranks.length}`);
+  }
+  
+  const board: (ChessPiece | null)[][] = ranks.map((rank, row) => {
+    const cells: (ChessPiece | null)[] = [];
+    
+    for (const symbol of rank) {
+      if (/[1-8]/.test(symbol)) {
+        for (let i = 0; i < parseInt(symbol); i++) cells.push(null);
+        continue;
+      }
+      
+      const type = symbolPieces[symbol.toLowerCase()];
+      if (!type) {
+        throw new Error(`Invalid piece symbol "${symbol}" in FEN`);
+      }
+      
+      const color: PieceColor = symbol === symbol.toUpperCase() ? 'white' : 'black';
+      cells.push({ type, color, position: `${String.fromCharCode(97 + cells.length)}${8 - row}` });
+    }
+    
+    if (cells.length !== 8) {
+      throw new Error(`FEN rank ${8 - row} must describe 8 squares, found ${cells.length}`);
+    }
+    
+    return cells;
+  });
+  
+  (['white', 'black'] as PieceColor[]).forEach(color => {
+    const kings = board.flat().filter(piece => piece?.type === 'king' && piece.color === color).length;
+    if (kings !== 1) {
+      throw new Error(`FEN must contain exactly one ${color} king, found ${kings}`);
+    }
+  });
+  
+  if ([0, 7].some(row => board[row].some(piece => piece?.type === 'pawn'))) {
+    throw new Error('FEN places a pawn on the first or last rank');
+  }
+  
+  if (activeColor !== 'w' && activeColor !== 'b') {
+    throw new Error(`Active color must be "w" or "b", found "${activeColor}"`);
+  }
+  
+  if (!/^(-|K?Q?k?q?)$/.test(castlingField) || castlingField === '') {
+    throw new Error(`Invalid castling rights "${castlingField}"`);
+  }
+  
+  if (enPassantField !== '-' && !/^[a-h][36]$/.test(enPassantField)) {
+    throw new Error(`Invalid en passant square "${enPassantField}"`);
+  }
+  
+  const halfmoveClock = Number(halfmoveField);
+  const fullmoveNumber = Number(fullmoveField);
+  if (!Number.isInteger(halfmoveClock) || halfmoveClock < 0) {
+    throw new Error(`Invalid halfmove clock "${halfmoveField}"`);
+  }
+  if (!Number.isInteger(fullmoveNumber) || fullmoveNumber < 1) {
+    throw new Error(`Invalid fullmove number "${fullmoveField}"`);
+  }
+  
+  return {
+    board,
+    turn: activeColor === 'w' ? 'white' : 'black',
+    castling: {
+      white: { kingside: castlingField.includes('K'), queenside: castlingField.includes('Q') },
+      black: { kingside: castlingField.includes('k'), queenside: castlingField.includes('q') }
+    },
+    enPassant: enPassantField === '-' ? null : enPassantField,
+    halfmoveClock,
+    fullmoveNumber
+  };
+};
+
+const sanLetters: Record<PieceType, string> = {
+  king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: ''
+};
+
+export const moveToSAN = (position: Position, from: string, to: string, promotionPiece?: PieceType): string => {
+  const [fromRow, fromCol] = positionToCoords(from);
+  const piece = position.board[fromRow][fromCol];
+  if (!piece) return `${from}-${to}`;
+  
+  let san: string;
+  
+  if (isCastlingMove(from, to, piece)) {
+    san = to[0] === 'g' ? 'O-O' : 'O-O-O';
+  } else {
+    const isCapture = !!getCapturedPiece(position, from, to);
+    
+    if (piece.type === 'pawn') {
+      san = isCapture ? `${from[0]}x${to}` : to;
+      if (isPawnPromotion(from, to, piece)) {
+        san += `=${sanLetters[promotionPiece || 'queen']}`;
+      }
+    } else {
+      // Another piece of the same kind that can also legally reach the target needs disambiguating
+      const rivals = generateLegalMoveNotations(position)
+        .map(move => move.split('-'))
+        .filter(([rivalFrom, rivalTo]) => {
+          if (rivalTo !== to || rivalFrom === from) return false;
+          const [row, col] = positionToCoords(rivalFrom);
+          return position.board[row][col]?.type === piece.type;
+        })
+        .map(([rivalFrom]) => rivalFrom);
+      
+      let disambiguation = '';
+      if (rivals.length > 0) {
+        if (!rivals.some(square => square[0] === from[0])) {
+          disambiguation = from[0];
+        } else if (!rivals.some(square => square[1] === from[1])) {
+          disambiguation = from[1];
+        } else {
+          disambiguation = from;
+        }
+      }
+      
+      san = `${sanLetters[piece.type]}${disambiguation}${isCapture ? 'x' : ''}${to}`;
+    }
+  }
+  
+  const next = makeMove(position, from, to, promotionPiece);
+  if (isPositionInCheck(next)) {
+    san += generateLegalMoveNotations(next).length === 0 ? '#' : '+';
+  }
+  
+  return san;
+};
+
+const SAN_PATTERN = /^([KQRBN])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([QRBNqrbn]))?$/;
+
+// Maps SAN (e.g. "Nbd7", "exd6", "e8=Q+", "O-O") to the legal move it describes, or null if none or
+// several match. Disambiguation that isn't needed ("Ngf3") and lowercase promotions ("e8=q") are accepted.
+export const parseSAN = (
+  position: Position,
+  san: string
+): { from: string; to: string; promotionPiece?: PieceType } | null => {
+  const wanted = san.trim().replace(/0/g, 'O').replace(/[+#!?]+$/, '');
+  const castling = wanted === 'O-O' ? 'g' : wanted === 'O-O-O' ? 'c' : null;
+  const parts = castling ? null : wanted.match(SAN_PATTERN);
+  if (!castling && !parts) return null;
+  
+  const matches = generateLegalMoveNotations(position).filter(move => {
+    const [from, to] = move.split('-');
+    const [fromRow, fromCol] = positionToCoords(from);
+    const piece = position.board[fromRow][fromCol]!;
+    
+    if (castling) {
+      return isCastlingMove(from, to, piece) && to[0] === castling;
+    }
+    
+    const [, letter, fromFile, fromRank, target, promotion] = parts!;
+    return (letter ? symbolPieces[letter.toLowerCase()] : 'pawn') === piece.type
+      && to === target
+      && (!fromFile || from[0] === fromFile)
+      && (!fromRank || from[1] === fromRank)
+      && !isCastlingMove(from, to, piece)
+      && !!promotion === isPawnPromotion(from, to, piece);
+  });
+  
+  if (matches.length !== 1) return null;
+  
+  const [from, to] = matches[0].split('-');
+  const promotion = parts?.[5];
+  return { from, to, promotionPiece: promotion ? symbolPieces[promotion.toLowerCase()] : undefined };
+};
+
+// Accepts either coordinate ("e2-e4", "e7e8q") or SAN ("Nf3", "exd5") notation and returns the legal move in coordinate form
+export const parseMoveNotation = (
+  position: Position,
+  notation: string
+): { notation: string; promotionPiece?: PieceType } | null => {
+  const text = notation.trim();
+  const coordinate = text.match(/^([a-h][1-8])-?([a-h][1-8])(?:=?([qrbnQRBN]))?$/);
+  
+  if (coordinate) {
+    const [, from, to, promotion] = coordinate;
+    if (!generateLegalMoveNotations(position).includes(`${from}-${to}`)) return null;
+    const promotionPiece = promotion ? symbolPieces[promotion.toLowerCase()] : undefined;
+    return { notation: `${from}-${to}`, promotionPiece };
+  }
+  
+  const parsed = parseSAN(position, text);
+  return parsed ? { notation: `${parsed.from}-${parsed.to}`, promotionPiece: parsed.promotionPiece } : null;
 };
 
 export const convertToSAN = (moves: Move[]): string => {
@@ -45,7 +255,7 @@ export const convertToSAN = (moves: Move[]): string => {
   
   const sanMoves = moves.map((move, index) => {
     const moveNumber = Math.floor(index / 2) + 1;
-    const san = `${move.piece.type === 'pawn' ? '' : move.piece.type[0].toUpperCase()}${move.to}${move.captured ? 'x' : ''}`;
+    const san = move.san || move.notation;
     
     if (index % 2 === 0) {
       return `${moveNumber}.${san}`;
@@ -60,5 +270,5 @@ export const convertToSAN = (moves: Move[]): string => {
 export const getLastMove = (moves: Move[]): string => {
   if (moves.length === 0) return '';
   const lastMove = moves[moves.length - 1];
-  return `${lastMove.piece.type === 'pawn' ? '' : lastMove.piece.type[0].toUpperCase()}${lastMove.to}`;
+  return lastMove.san || lastMove.notation;
 };
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Move } from '@/types/chess';
+import { createInitialPosition, makeMove, positionToCoords } from './chessLogic';
+import { generateFEN, parseFEN } from './chessNotation';
+import { exportPGN, importPGN, toPGNResult } from './chessPGN';
+
+const playMoves = (notations: string[], start = createInitialPosition()): Move[] => {
+  let position = start;
+  return notations.map(notation => {
+    const [from, to] = notation.split('-');
+    const [row, col] = positionToCoords(from);
+    const move: Move = { from, to, piece: position.board[row][col]!, timestamp: 0, notation };
+    position = makeMove(position, from, to);
+    return move;
+  });
+};
+
+describe('exportPGN', () => {
+  it('writes the tag roster and numbered SAN movetext', () => {
+    const moves = playMoves(['e2-e4', 'e7-e5', 'g1-f3']);
+    moves[1].comment = 'The {open} game';
+
+    const pgn = exportPGN({ moves, tags: { White: 'Player', Black: 'ChessGPT "Master"', Opponent: 'gpt-4o' }, result: '*' });
+    const [header, movetext] = pgn.split('\n\n');
+
+    expect(header.split('\n').map(line => line.match(/^\[(\w+)/)?.[1])).toEqual(
+      ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result', 'Opponent']
+    );
+    expect(header).toContain('[Black "ChessGPT \\"Master\\""]');
+    expect(movetext.trim()).toBe('1. e4 e5 {The open game} 2. Nf3 *');
+  });
+
+  it('records a non-standard start with SetUp and FEN', () => {
+    const start = parseFEN('4k3/8/8/8/8/8/4P3/4K3 b - - 0 1');
+    const pgn = exportPGN({ moves: playMoves(['e8-d8'], start), tags: {}, result: toPGNResult('draw'), startPosition: start });
+
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain('[FEN "4k3/8/8/8/8/8/4P3/4K3 b - - 0 1"]');
+    expect(pgn.trim().endsWith('1... Kd8 1/2-1/2')).toBe(true);
+  });
+});
+
+describe('importPGN', () => {
+  it('round-trips an exported game', () => {
+    const moves = playMoves(['e2-e4', 'e7-e5', 'g1-f3', 'b8-c6', 'f1-b5', 'a7-a6']);
+    moves[4].comment = 'The Ruy Lopez';
+    const pgn = exportPGN({ moves, tags: { White: 'Alice', Black: 'Bob' }, result: '1-0', finalComment: 'Black resigned' });
+
+    const game = importPGN(pgn);
+    expect(game.moves.map(move => move.notation)).toEqual(moves.map(move => move.notation));
+    expect(game.moves.map(move => move.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+    expect(game.moves[4].comment).toBe('The Ruy Lopez');
+    expect(game.moves[5].comment).toBe('Black resigned');
+    expect(game.tags).toMatchObject({ White: 'Alice', Black: 'Bob', Result: '1-0' });
+    expect(game.result).toBe('1-0');
+    expect(game.positions).toHaveLength(7);
+    // The closing comment comes back on the last move, so it is written out again without being passed
+    expect(exportPGN({ moves: game.moves, tags: game.tags, result: game.result })).toBe(pgn);
+  });
+
+  it('skips comments, NAGs and variations', () => {
+    const game = importPGN(`[Event "Casual"]
+[Result "*"]
+
+{Opening notes} 1. e4 $1 e5!? (1... c5 2. Nf3 {Sicilian} (2. c3)) 2. Nf3 ; a rest-of-line comment
+Nc6 $14 *`);
+
+    expect(game.initialComment).toBe('Opening notes');
+    expect(game.moves.map(move => move.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(game.moves.every(move => !move.comment)).toBe(true);
+    expect(game.result).toBe('*');
+  });
+
+  it('starts from a SetUp FEN', () => {
+    const game = importPGN(`[SetUp "1"]
+[FEN "r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1"]
+
+1. O-O O-O-O 0-1`);
+
+    expect(generateFEN(game.startPosition)).toBe('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    expect(game.moves.map(move => move.notation)).toEqual(['e1-g1', 'e8-c8']);
+    expect(generateFEN(game.positions[2])).toBe('2kr3r/8/8/8/8/8/8/R4RK1 w - - 2 2');
+    expect(game.result).toBe('0-1');
+  });
+
+  it('reports the move that cannot be played', () => {
+    expect(() => importPGN('1. e4 e5 2. Ke3 *')).toThrow('Illegal or unreadable move "Ke3" at move 2 (white to move)');
+    expect(() => importPGN('1. e4 {unfinished')).toThrow('Unterminated comment in PGN');
+  });
+});
@@ -0,0 +1,251 @@
+import { Move, PieceColor, Position } from '@/types/chess';
+import { createInitialPosition, getCapturedPiece, makeMove, positionToCoords } from './chessLogic';
+import { generateFEN, moveToSAN, parseFEN, parseSAN, STARTING_FEN } from './chessNotation';
+
+export type PGNResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PGNExportOptions {
+  moves: Move[];
+  tags: Record<string, string>;
+  result: PGNResult;
+  startPosition?: Position;
+  finalComment?: string;
+}
+
+export interface ImportedGame {
+  tags: Record<string, string>;
+  startPosition: Position;
+  moves: Move[];
+  // positions[i] is the position before moves[i]; the last entry is the final position
+  positions: Position[];
+  result: PGNResult;
+  initialComment?: string;
+}
+
+// Seven Tag Roster order; any other tags follow in the order they were given
+const ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+export const toPGNResult = (winner: PieceColor | 'draw' | null): PGNResult => {
+  if (winner === 'white') return '1-0';
+  if (winner === 'black') return '0-1';
+  if (winner === 'draw') return '1/2-1/2';
+  return '*';
+};
+
+export const formatPGNDate = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+const escapeTagValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Braces end a PGN comment, so they cannot appear inside one
+const formatComment = (comment: string) => `{${comment.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim()}}`;
+
+const wrapMovetext = (tokens: string[], width = 80): string => {
+  const lines: string[] = [];
+  let line = '';
+
+  tokens.forEach(token => {
+    if (line && line.length + token.length + 1 > width) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+
+  if (line) lines.push(line);
+  return lines.join('\n');
+};
+
+export const exportPGN = ({ moves, tags, result, startPosition, finalComment }: PGNExportOptions): string => {
+  const start = startPosition || createInitialPosition();
+  const startFEN = generateFEN(start);
+
+  const allTags: Record<string, string> = {
+    Event: 'AI Chess Arena',
+    Site: 'AI Chess Arena',
+    Date: formatPGNDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...tags,
+    Result: result
+  };
+
+  if (startFEN !== STARTING_FEN) {
+    allTags.SetUp = '1';
+    allTags.FEN = startFEN;
+  }
+
+  const tagOrder = [...ROSTER, ...Object.keys(allTags).filter(name => !ROSTER.includes(name))];
+  const header = tagOrder.map(name => `[${name} "${escapeTagValue(allTags[name])}"]`).join('\n');
+
+  const tokens: string[] = [];
+  let position = start;
+  let needsNumber = true;
+
+  moves.forEach(move => {
+    const san = move.san || moveToSAN(position, move.from, move.to, move.promotion);
+
+    if (position.turn === 'white') {
+      tokens.push(`${position.fullmoveNumber}.`);
+    } else if (needsNumber) {
+      // Black moves need their own number after a comment or at the start of the game
+      tokens.push(`${position.fullmoveNumber}...`);
+    }
+    tokens.push(san);
+
+    needsNumber = !!move.comment;
+    if (move.comment) {
+      tokens.push(formatComment(move.comment));
+    }
+
+    position = makeMove(position, move.from, move.to, move.promotion);
+  });
+
+  if (finalComment) {
+    tokens.push(formatComment(finalComment));
+  }
+  tokens.push(result);
+
+  return `${header}\n\n${wrapMovetext(tokens)}\n`;
+};
+
+type MovetextToken = { kind: 'move'; text: string } | { kind: 'comment'; text: string } | { kind: 'result'; text: PGNResult };
+
+const tokenizeMovetext = (movetext: string): MovetextToken[] => {
+  const tokens: MovetextToken[] = [];
+  let index = 0;
+  let variationDepth = 0;
+
+  while (index < movetext.length) {
+    const char = movetext[index];
+
+    if (char === '{') {
+      const end = movetext.indexOf('}', index);
+      if (end === -1) throw new Error('Unterminated comment in PGN');
+      if (variationDepth === 0) {
+        tokens.push({ kind: 'comment', text: movetext.slice(index + 1, end).replace(/\s+/g, ' ').trim() });
+      }
+      index = end + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      const end = movetext.indexOf('\n', index);
+      index = end === -1 ? movetext.length : end + 1;
+      continue;
+    }
+
+    // Variations are skipped; only the main line is replayed
+    if (char === '(') {
+      variationDepth++;
+      index++;
+      continue;
+    }
+    if (char === ')') {
+      variationDepth = Math.max(0, variationDepth - 1);
+      index++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    let end = index;
+    while (end < movetext.length && !/[\s{}();]/.test(movetext[end])) end++;
+    const word = movetext.slice(index, end);
+    index = end;
+
+    if (variationDepth > 0) continue;
+
+    if (['1-0', '0-1', '1/2-1/2', '*'].includes(word)) {
+      tokens.push({ kind: 'result', text: word as PGNResult });
+      continue;
+    }
+
+    // Strip move numbers ("12." / "12...") and annotation glyphs ("$1")
+    const move = word.replace(/^\d+\.+/, '');
+    if (!move || move.startsWith('$')) continue;
+    tokens.push({ kind: 'move', text: move });
+  }
+
+  return tokens;
+};
+
+// Parses the first game in a PGN string and replays it; throws if a move is not legal in the position reached
+export const importPGN = (pgn: string): ImportedGame => {
+  const tags: Record<string, string> = {};
+  const tagPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/;
+  const lines = pgn.replace(/\r\n?/g, '\n').split('\n');
+  let bodyStart = 0;
+
+  for (; bodyStart < lines.length; bodyStart++) {
+    const line = lines[bodyStart];
+    const match = line.match(tagPattern);
+    if (match) {
+      tags[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+    } else if (line.trim()) {
+      break;
+    }
+  }
+
+  const startPosition = tags.FEN ? parseFEN(tags.FEN) : createInitialPosition();
+  const positions: Position[] = [startPosition];
+  const moves: Move[] = [];
+  let result: PGNResult = (['1-0', '0-1', '1/2-1/2'].includes(tags.Result) ? tags.Result : '*') as PGNResult;
+  let initialComment: string | undefined;
+
+  for (const token of tokenizeMovetext(lines.slice(bodyStart).join('\n'))) {
+    if (token.kind === 'result') {
+      result = token.text;
+      break;
+    }
+
+    if (token.kind === 'comment') {
+      if (moves.length === 0) {
+        initialComment = initialComment ? `${initialComment} ${token.text}` : token.text;
+      } else {
+        const last = moves[moves.length - 1];
+        last.comment = last.comment ? `${last.comment} ${token.text}` : token.text;
+      }
+      continue;
+    }
+
+    const position = positions[positions.length - 1];
+    const parsed = parseSAN(position, token.text);
+    if (!parsed) {
+      throw new Error(`Illegal or unreadable move "${token.text}" at move ${position.fullmoveNumber} (${position.turn} to move)`);
+    }
+
+    const [fromRow, fromCol] = positionToCoords(parsed.from);
+    const captured = getCapturedPiece(position, parsed.from, parsed.to);
+
+    moves.push({
+      from: parsed.from,
+      to: parsed.to,
+      piece: position.board[fromRow][fromCol]!,
+      captured: captured || undefined,
+      promotion: parsed.promotionPiece,
+      timestamp: Date.now(),
+      notation: `${parsed.from}-${parsed.to}`,
+      san: moveToSAN(position, parsed.from, parsed.to, parsed.promotionPiece)
+    });
+    positions.push(makeMove(position, parsed.from, parsed.to, parsed.promotionPiece));
+  }
+
+  return { tags, startPosition, moves, positions, result, initialComment };
+};
+
+export const downloadPGN = (pgn: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
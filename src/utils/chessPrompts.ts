@@ -1,5 +1,5 @@
 
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
+import { Move, Position } from '@/types/chess';
 import { generateFEN, convertToSAN, getLastMove } from './chessNotation';
 
 export const generateSystemPrompt = (): string => {
@@ -14,16 +14,16 @@ Be accurate, concise, and strategic. Always respond with valid JSON format.`;
 };
 
 export const generateMovePrompt = (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   gameHistory: Move[],
   validMoves: string[],
   opponentName: string = 'Player',
   aiName?: string
 ): string => {
-  const fen = generateFEN(board, color);
+  const color = position.turn;
+  const fen = generateFEN(position);
   const moveHistory = convertToSAN(gameHistory);
-  const moveCount = Math.floor(gameHistory.length / 2) + 1;
+  const moveCount = position.fullmoveNumber;
   
   return `Chess game status:
 White: ${color === 'white' ? (aiName || 'AI') : opponentName}
@@ -45,12 +45,9 @@ Respond with JSON:
 }`;
 };
 
-export const generateAnalysisPrompt = (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
-  gameHistory: Move[]
-): string => {
-  const fen = generateFEN(board, color);
+export const generateAnalysisPrompt = (position: Position, gameHistory: Move[]): string => {
+  const color = position.turn;
+  const fen = generateFEN(position);
   const moveHistory = convertToSAN(gameHistory);
   const lastMove = getLastMove(gameHistory);
   
@@ -70,10 +67,10 @@ Keep analysis concise and focused.`;
 
 export const generateExplanationPrompt = (
   move: string,
-  board: (ChessPiece | null)[][],
+  position: Position,
   gameHistory: Move[]
 ): string => {
-  const fen = generateFEN(board);
+  const fen = generateFEN(position);
   const moveHistory = convertToSAN(gameHistory);
   
   return `Please explain the reasoning behind the move "${move}" in this context:
@@ -85,12 +82,9 @@ Is this a strong move? What does it aim to achieve?
 Keep explanation brief and educational.`;
 };
 
-export const generateHintPrompt = (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
-  validMoves: string[]
-): string => {
-  const fen = generateFEN(board, color);
+export const generateHintPrompt = (position: Position, validMoves: string[]): string => {
+  const color = position.turn;
+  const fen = generateFEN(position);
   
   return `Provide a helpful hint for ${color} in this position:
 
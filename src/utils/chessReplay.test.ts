@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { applyReplayAction, getReplayAction, goToPly } from './chessReplay';
+
+describe('chessReplay', () => {
+  it('steps back from the live position', () => {
+    expect(applyReplayAction(null, 'previous', 10)).toBe(9);
+    expect(applyReplayAction(null, 'first', 10)).toBe(0);
+    expect(applyReplayAction(0, 'previous', 10)).toBe(0);
+  });
+
+  it('returns to the live game after the last move', () => {
+    expect(applyReplayAction(8, 'next', 10)).toBe(9);
+    expect(applyReplayAction(9, 'next', 10)).toBeNull();
+    expect(applyReplayAction(3, 'last', 10)).toBeNull();
+    expect(goToPly(10, 10)).toBeNull();
+  });
+
+  it('treats an empty game as always live', () => {
+    expect(applyReplayAction(null, 'first', 0)).toBeNull();
+    expect(applyReplayAction(null, 'previous', 0)).toBeNull();
+  });
+
+  it('maps arrow keys to navigation', () => {
+    expect(getReplayAction('ArrowLeft')).toBe('previous');
+    expect(getReplayAction('End')).toBe('last');
+    expect(getReplayAction('a')).toBeUndefined();
+  });
+});
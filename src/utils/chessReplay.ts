@@ -0,0 +1,44 @@
+// Replay navigation over a game's positions. A ply is the number of moves played, so ply 0 is the
+// start position and ply === totalPlies is the live position. Viewing the live position is null.
+
+export type ReplayAction = 'first' | 'previous' | 'next' | 'last';
+
+export const REPLAY_SPEEDS = [
+  { label: '0.5s', intervalMs: 500 },
+  { label: '1s', intervalMs: 1000 },
+  { label: '2s', intervalMs: 2000 },
+  { label: '4s', intervalMs: 4000 }
+];
+
+export const DEFAULT_REPLAY_INTERVAL_MS = 1000;
+
+const REPLAY_KEYS: Record<string, ReplayAction> = {
+  ArrowLeft: 'previous',
+  ArrowRight: 'next',
+  ArrowUp: 'first',
+  Home: 'first',
+  ArrowDown: 'last',
+  End: 'last'
+};
+
+export const getReplayAction = (key: string): ReplayAction | undefined => REPLAY_KEYS[key];
+
+// Reaching the last move returns to the live game, so new moves show as they are played
+export const goToPly = (ply: number, totalPlies: number): number | null => {
+  const clamped = Math.max(0, ply);
+  return clamped >= totalPlies ? null : clamped;
+};
+
+export const applyReplayAction = (viewPly: number | null, action: ReplayAction, totalPlies: number): number | null => {
+  const current = viewPly ?? totalPlies;
+  switch (action) {
+    case 'first':
+      return goToPly(0, totalPlies);
+    case 'previous':
+      return goToPly(current - 1, totalPlies);
+    case 'next':
+      return goToPly(current + 1, totalPlies);
+    case 'last':
+      return null;
+  }
+};
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Position } from '@/types/chess';
+import { makeMove } from './chessLogic';
+import { parseFEN, STARTING_FEN } from './chessNotation';
+import { getAllLegalMoves, isLegalMove, validateGameState } from './chessRuleEnforcement';
+
+describe('chessRuleEnforcement', () => {
+  beforeEach(() => {
+    // The rules engine logs every step; keep test output readable
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('isLegalMove', () => {
+    it('accepts ordinary opening moves', () => {
+      const position = parseFEN(STARTING_FEN);
+      expect(isLegalMove(position, 'e2', 'e4')).toBe(true);
+      expect(isLegalMove(position, 'g1', 'f3')).toBe(true);
+    });
+
+    it('rejects moving the side that is not on turn', () => {
+      expect(isLegalMove(parseFEN(STARTING_FEN), 'e7', 'e5')).toBe(false);
+    });
+
+    it('rejects moves that break piece movement rules', () => {
+      const position = parseFEN(STARTING_FEN);
+      expect(isLegalMove(position, 'e2', 'e5')).toBe(false);
+      expect(isLegalMove(position, 'f1', 'c4')).toBe(false);
+    });
+
+    it('rejects moving a pinned piece off the pin line', () => {
+      const position = parseFEN('4k3/4r3/8/8/8/8/4N3/4K3 w - - 0 1');
+      expect(isLegalMove(position, 'e2', 'c3')).toBe(false);
+    });
+
+    it('rejects walking the king into check', () => {
+      const position = parseFEN('4k3/8/8/8/8/8/3r4/4K3 w - - 0 1');
+      expect(isLegalMove(position, 'e1', 'd1')).toBe(false);
+      expect(isLegalMove(position, 'e1', 'd2')).toBe(true);
+    });
+
+    it('only allows moves that answer a check', () => {
+      const position = parseFEN('4k3/8/8/8/8/8/PP6/R3K2q w Q - 0 1');
+      expect(getAllLegalMoves(position).sort()).toEqual(['e1-d2', 'e1-e2', 'e1-f2'].sort());
+    });
+
+    it('rejects castling through an attacked square', () => {
+      const position = parseFEN('4k3/8/8/8/8/5r2/8/4K2R w K - 0 1');
+      expect(isLegalMove(position, 'e1', 'g1')).toBe(false);
+    });
+
+    it('rejects castling out of check', () => {
+      const position = parseFEN('4k3/8/8/8/8/4r3/8/R3K3 w Q - 0 1');
+      expect(isLegalMove(position, 'e1', 'c1')).toBe(false);
+    });
+
+    it('allows queenside castling when only b1 is attacked', () => {
+      const position = parseFEN('4k3/8/8/8/8/1r6/8/R3K3 w Q - 0 1');
+      expect(isLegalMove(position, 'e1', 'c1')).toBe(true);
+    });
+
+    it('rejects an en passant capture that exposes the king', () => {
+      const position = parseFEN('8/8/8/K2pP2r/8/8/8/7k w - d6 0 1');
+      expect(isLegalMove(position, 'e5', 'd6')).toBe(false);
+    });
+  });
+
+  describe('validateGameState', () => {
+    it('reports the initial position as ongoing', () => {
+      const validation = validateGameState(parseFEN(STARTING_FEN));
+      expect(validation.gameOver).toBe(false);
+      expect(validation.legalMoves).toHaveLength(20);
+      expect(validation.winner).toBeUndefined();
+    });
+
+    it("detects fool's mate", () => {
+      const validation = validateGameState(parseFEN('rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3'));
+      expect(validation.isCheckmate).toBe(true);
+      expect(validation.checkingPieces).toEqual(['h4']);
+      expect(validation.winner).toBe('black');
+    });
+
+    it('detects stalemate', () => {
+      const validation = validateGameState(parseFEN('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'));
+      expect(validation.isStalemate).toBe(true);
+      expect(validation.drawReason).toBe('stalemate');
+      expect(validation.winner).toBe('draw');
+    });
+
+    it('detects insufficient material', () => {
+      expect(validateGameState(parseFEN('8/8/4k3/8/8/4K3/5N2/8 w - - 0 1')).drawReason).toBe('insufficient-material');
+      expect(validateGameState(parseFEN('8/8/4k3/8/3b4/4K3/5B2/8 w - - 0 1')).drawReason).toBe('insufficient-material');
+      expect(validateGameState(parseFEN('8/8/4k3/8/4b3/4K3/5B2/8 w - - 0 1')).gameOver).toBe(false);
+    });
+
+    it('lets the fifty-move rule be claimed at 100 half-moves', () => {
+      expect(validateGameState(parseFEN('8/8/4k3/8/8/4K3/4P3/8 w - - 99 80')).claimableDraw).toBeUndefined();
+
+      const validation = validateGameState(parseFEN('8/8/4k3/8/8/4K3/4P3/8 w - - 100 80'));
+      expect(validation.gameOver).toBe(false);
+      expect(validation.claimableDraw).toBe('fifty-move-rule');
+    });
+
+    it('ends the game under the seventy-five-move rule', () => {
+      expect(validateGameState(parseFEN('8/8/4k3/8/8/4K3/4P3/8 w - - 150 105')).drawReason).toBe('seventy-five-move-rule');
+    });
+
+    it('lets threefold repetition be claimed and ends the game on fivefold', () => {
+      let position = parseFEN(STARTING_FEN);
+      const history: Position[] = [];
+      const cycle = ['g1-f3', 'g8-f6', 'f3-g1', 'f6-g8'];
+      const shuffle = [...cycle, ...cycle, ...cycle, ...cycle];
+
+      shuffle.forEach((move, index) => {
+        history.push(position);
+        const [from, to] = move.split('-');
+        position = makeMove(position, from, to);
+        const validation = validateGameState(position, history);
+        // Every position recurs once per cycle; the starting position also occurred before the first move
+        const repetitions = Math.floor(index / 4) + 1 + (index % 4 === 3 ? 1 : 0);
+
+        expect(validation.claimableDraw).toBe(repetitions >= 3 && repetitions < 5 ? 'threefold-repetition' : undefined);
+        expect(validation.drawReason).toBe(repetitions >= 5 ? 'fivefold-repetition' : undefined);
+      });
+    });
+
+    it('prefers checkmate over the fifty-move rule', () => {
+      const validation = validateGameState(parseFEN('7k/6Q1/6K1/8/8/8/8/8 b - - 100 90'));
+      expect(validation.isCheckmate).toBe(true);
+      expect(validation.drawReason).toBeUndefined();
+    });
+  });
+});
@@ -1,35 +1,28 @@
 
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
-import { positionToCoords, coordsToPosition, isValidMove } from './chessLogic';
+import { ChessPiece, DrawReason, PieceColor, Position } from '@/types/chess';
+import { coordsToPosition, positionToCoords, isValidMove, isSquareAttacked, canPieceAttack, makeMove } from './chessLogic';
+import { getClaimableDrawReason, getDrawReason } from './chessDrawRules';
+import { generateLegalMoveNotations, isPositionInCheck } from './chessMoveGenerator';
 
 export interface GameStateValidation {
   isInCheck: boolean;
   isCheckmate: boolean;
   isStalemate: boolean;
+  isDraw: boolean;
+  drawReason?: DrawReason;
+  // Set while the game goes on but the side to move could claim a draw
+  claimableDraw?: DrawReason;
   checkingPieces: string[];
   legalMoves: string[];
   gameOver: boolean;
   winner?: PieceColor | 'draw';
 }
 
-export const simulateMove = (
-  board: (ChessPiece | null)[][],
-  from: string,
-  to: string
-): (ChessPiece | null)[][] => {
+export const simulateMove = (position: Position, from: string, to: string): (ChessPiece | null)[][] => {
   console.log('🔄 Simulating move:', { from, to });
   
-  const newBoard = board.map(row => [...row]);
-  const [fromRow, fromCol] = positionToCoords(from);
-  const [toRow, toCol] = positionToCoords(to);
-  
-  const piece = newBoard[fromRow][fromCol];
-  if (piece) {
-    newBoard[toRow][toCol] = { ...piece, position: to };
-    newBoard[fromRow][fromCol] = null;
-  }
-  
-  return newBoard;
+  // makeMove handles castling rooks and en passant captures, so legality is judged on the real resulting position
+  return makeMove(position, from, to).board;
 };
 
 export const isInCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean => {
@@ -54,17 +47,9 @@ export const isInCheck = (board: (ChessPiece | null)[][], color: PieceColor): bo
   }
   
   // Check if any opponent piece can attack the king
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color !== color) {
-        const position = coordsToPosition(row, col);
-        if (isValidMove(board, position, kingPosition)) {
-          console.log('🚨 King in check! Attacked by:', position);
-          return true;
-        }
-      }
-    }
+  if (isSquareAttacked(board, kingPosition, color === 'white' ? 'black' : 'white')) {
+    console.log('🚨 King in check! Attacked on:', kingPosition);
+    return true;
   }
   
   return false;
@@ -93,7 +78,7 @@ export const findCheckingPieces = (board: (ChessPiece | null)[][], color: PieceC
       const piece = board[row][col];
       if (piece && piece.color !== color) {
         const position = coordsToPosition(row, col);
-        if (isValidMove(board, position, kingPosition)) {
+        if (canPieceAttack(board, position, kingPosition)) {
           checkingPieces.push(position);
         }
       }
@@ -104,25 +89,25 @@ export const findCheckingPieces = (board: (ChessPiece | null)[][], color: PieceC
   return checkingPieces;
 };
 
-export const isLegalMove = (
-  board: (ChessPiece | null)[][],
-  from: string,
-  to: string,
-  color: PieceColor
-): boolean => {
+export const isLegalMove = (position: Position, from: string, to: string): boolean => {
+  const color = position.turn;
   console.log('⚖️ Validating legal move:', { from, to, color });
   
+  const [fromRow, fromCol] = positionToCoords(from);
+  const piece = position.board[fromRow][fromCol];
+  if (!piece || piece.color !== color) {
+    console.log('❌ No piece of the side to move on', from);
+    return false;
+  }
+  
   // First check if the move is valid according to piece movement rules
-  if (!isValidMove(board, from, to)) {
+  if (!isValidMove(position, from, to)) {
     console.log('❌ Invalid piece movement');
     return false;
   }
   
-  // Simulate the move and check if it leaves the king in check
-  const simulatedBoard = simulateMove(board, from, to);
-  const wouldBeInCheck = isInCheck(simulatedBoard, color);
-  
-  if (wouldBeInCheck) {
+  // The move generator plays the move on its own board and rejects it if the king is left in check
+  if (!generateLegalMoveNotations(position).includes(`${from}-${to}`)) {
     console.log('❌ Move would leave king in check');
     return false;
   }
@@ -131,83 +116,53 @@ export const isLegalMove = (
   return true;
 };
 
-export const getAllLegalMoves = (board: (ChessPiece | null)[][], color: PieceColor): string[] => {
-  console.log('📋 Getting all legal moves for:', color);
+export const getAllLegalMoves = (position: Position): string[] => {
+  console.log('📋 Getting all legal moves for:', position.turn);
   
-  const legalMoves: string[] = [];
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) {
-        const from = coordsToPosition(row, col);
-        
-        for (let toRow = 0; toRow < 8; toRow++) {
-          for (let toCol = 0; toCol < 8; toCol++) {
-            const to = coordsToPosition(toRow, toCol);
-            if (isLegalMove(board, from, to, color)) {
-              legalMoves.push(`${from}-${to}`);
-            }
-          }
-        }
-      }
-    }
-  }
+  const legalMoves = generateLegalMoveNotations(position);
   
   console.log('📊 Legal moves found:', { count: legalMoves.length, moves: legalMoves.slice(0, 5) });
   return legalMoves;
 };
 
-export const getCheckEscapeMoves = (board: (ChessPiece | null)[][], color: PieceColor): string[] => {
-  console.log('🚨 Finding check escape moves for:', color);
+export const getCheckEscapeMoves = (position: Position): string[] => {
+  console.log('🚨 Finding check escape moves for:', position.turn);
   
-  if (!isInCheck(board, color)) {
+  if (!isPositionInCheck(position)) {
     console.log('ℹ️ Not in check, returning all legal moves');
-    return getAllLegalMoves(board, color);
+    return getAllLegalMoves(position);
   }
   
-  const escapeMoves: string[] = [];
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.color === color) {
-        const from = coordsToPosition(row, col);
-        
-        for (let toRow = 0; toRow < 8; toRow++) {
-          for (let toCol = 0; toCol < 8; toCol++) {
-            const to = coordsToPosition(toRow, toCol);
-            if (isValidMove(board, from, to)) {
-              const simulatedBoard = simulateMove(board, from, to);
-              if (!isInCheck(simulatedBoard, color)) {
-                escapeMoves.push(`${from}-${to}`);
-              }
-            }
-          }
-        }
-      }
-    }
-  }
+  // When in check every legal move is an escape
+  const escapeMoves = generateLegalMoveNotations(position);
   
   console.log('🆘 Check escape moves found:', { count: escapeMoves.length, moves: escapeMoves.slice(0, 3) });
   return escapeMoves;
 };
 
-export const validateGameState = (board: (ChessPiece | null)[][], color: PieceColor): GameStateValidation => {
+// previousPositions lists every earlier position of the game and is only needed for repetitions
+export const validateGameState = (position: Position, previousPositions: Position[] = []): GameStateValidation => {
+  const { board, turn: color } = position;
   console.log('🔍 Validating game state for:', color);
   
-  const inCheck = isInCheck(board, color);
+  const inCheck = isPositionInCheck(position);
   const checkingPieces = inCheck ? findCheckingPieces(board, color) : [];
-  const legalMoves = getAllLegalMoves(board, color);
+  const legalMoves = getAllLegalMoves(position);
   
   const isCheckmate = inCheck && legalMoves.length === 0;
   const isStalemate = !inCheck && legalMoves.length === 0;
-  const gameOver = isCheckmate || isStalemate;
+  // Checkmate takes precedence over every draw rule
+  const drawReason: DrawReason | undefined = isCheckmate
+    ? undefined
+    : isStalemate ? 'stalemate' : getDrawReason(position, previousPositions);
+  const isDraw = !!drawReason;
+  const gameOver = isCheckmate || isDraw;
+  const claimableDraw = gameOver ? undefined : getClaimableDrawReason(position, previousPositions);
   
   let winner: PieceColor | 'draw' | undefined;
   if (isCheckmate) {
     winner = color === 'white' ? 'black' : 'white';
-  } else if (isStalemate) {
+  } else if (isDraw) {
     winner = 'draw';
   }
   
@@ -215,6 +170,9 @@ export const validateGameState = (board: (ChessPiece | null)[][], color: PieceCo
     isInCheck: inCheck,
     isCheckmate,
     isStalemate,
+    isDraw,
+    drawReason,
+    claimableDraw,
     checkingPieces,
     legalMoves,
     gameOver,
@@ -225,6 +183,7 @@ export const validateGameState = (board: (ChessPiece | null)[][], color: PieceCo
     inCheck,
     isCheckmate,
     isStalemate,
+    drawReason,
     legalMovesCount: legalMoves.length,
     gameOver
   });
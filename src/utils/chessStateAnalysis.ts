@@ -1,6 +1,6 @@
 
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
-import { positionToCoords, coordsToPosition, isValidMove } from './chessLogic';
+import { ChessPiece, PieceColor, Position } from '@/types/chess';
+import { coordsToPosition, isValidMove, canPieceAttack, makeMove } from './chessLogic';
 
 export interface TacticalSituation {
   isInCheck: boolean;
@@ -15,10 +15,8 @@ export interface TacticalSituation {
   urgentMoves: string[];
 }
 
-export const analyzeTacticalSituation = (
-  board: (ChessPiece | null)[][],
-  color: PieceColor
-): TacticalSituation => {
+export const analyzeTacticalSituation = (position: Position, color: PieceColor = position.turn): TacticalSituation => {
+  const { board } = position;
   console.log('🔍 Analyzing Tactical Situation for:', color);
   
   const isInCheck = detectCheck(board, color);
@@ -28,7 +26,7 @@ export const analyzeTacticalSituation = (
   const pins = findPins(board, color);
   const forks = findForks(board, color);
   const materialBalance = calculateMaterialBalance(board);
-  const urgentMoves = calculateUrgentMoves(board, color, isInCheck, checkingPieces);
+  const urgentMoves = calculateUrgentMoves(position, color, isInCheck, checkingPieces);
   
   const situation: TacticalSituation = {
     isInCheck,
@@ -75,7 +73,7 @@ const detectCheck = (board: (ChessPiece | null)[][], color: PieceColor): boolean
       const piece = board[row][col];
       if (piece && piece.color !== color) {
         const position = coordsToPosition(row, col);
-        if (isValidMove(board, position, kingPosition)) {
+        if (canPieceAttack(board, position, kingPosition)) {
           return true;
         }
       }
@@ -106,7 +104,7 @@ const findCheckingPieces = (board: (ChessPiece | null)[][], color: PieceColor):
       const piece = board[row][col];
       if (piece && piece.color !== color) {
         const position = coordsToPosition(row, col);
-        if (isValidMove(board, position, kingPosition)) {
+        if (canPieceAttack(board, position, kingPosition)) {
           checkingPieces.push(position);
         }
       }
@@ -134,7 +132,7 @@ const findThreatenedPieces = (
             const enemyPiece = board[eRow][eCol];
             if (enemyPiece && enemyPiece.color !== color) {
               const enemyPosition = coordsToPosition(eRow, eCol);
-              if (isValidMove(board, enemyPosition, position)) {
+              if (canPieceAttack(board, enemyPosition, position)) {
                 threats.push(enemyPosition);
               }
             }
@@ -169,7 +167,7 @@ const findDefendedPieces = (
             const defenderPiece = board[dRow][dCol];
             if (defenderPiece && defenderPiece.color === color && !(dRow === row && dCol === col)) {
               const defenderPosition = coordsToPosition(dRow, dCol);
-              if (isValidMove(board, defenderPosition, position)) {
+              if (canPieceAttack(board, defenderPosition, position)) {
                 defenders.push(defenderPosition);
               }
             }
@@ -218,11 +216,12 @@ const calculateMaterialBalance = (board: (ChessPiece | null)[][]): number => {
 };
 
 const calculateUrgentMoves = (
-  board: (ChessPiece | null)[][],
+  position: Position,
   color: PieceColor,
   isInCheck: boolean,
   checkingPieces: string[]
 ): string[] => {
+  const { board } = position;
   const urgentMoves: string[] = [];
   
   if (isInCheck) {
@@ -236,14 +235,9 @@ const calculateUrgentMoves = (
           for (let toRow = 0; toRow < 8; toRow++) {
             for (let toCol = 0; toCol < 8; toCol++) {
               const to = coordsToPosition(toRow, toCol);
-              if (isValidMove(board, from, to)) {
+              if (isValidMove(position, from, to)) {
                 // Simulate move and check if still in check
-                const testBoard = board.map(r => [...r]);
-                const [fromR, fromC] = positionToCoords(from);
-                const [toR, toC] = positionToCoords(to);
-                
-                testBoard[toR][toC] = testBoard[fromR][fromC];
-                testBoard[fromR][fromC] = null;
+                const testBoard = makeMove(position, from, to).board;
                 
                 if (!detectCheck(testBoard, color)) {
                   urgentMoves.push(`${from}-${to}`);
@@ -265,7 +259,7 @@ const calculateUrgentMoves = (
           for (let toRow = 0; toRow < 8; toRow++) {
             for (let toCol = 0; toCol < 8; toCol++) {
               const to = coordsToPosition(toRow, toCol);
-              if (isValidMove(board, from, to)) {
+              if (isValidMove(position, from, to)) {
                 urgentMoves.push(`${from}-${to}`);
               }
             }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Move, PieceColor } from '@/types/chess';
+import { describeMoves, getOpponentDifficulty, getRedoPlies, getTakebackPlies, shouldAllowTakeback } from './chessTakebacks';
+
+const move = (color: PieceColor, san: string): Move => ({
+  from: 'a1',
+  to: 'a2',
+  piece: { type: 'pawn', color, position: 'a1' },
+  timestamp: 0,
+  notation: 'a1-a2',
+  san
+});
+
+const game = [move('white', 'e4'), move('black', 'e5'), move('white', 'Nf3'), move('black', 'Nc6')];
+
+describe('chessTakebacks', () => {
+  it('grants takebacks up to the personality allowance', () => {
+    expect(shouldAllowTakeback('aggressive', 'normal', 0)).toBe(false);
+    expect(shouldAllowTakeback('balanced', 'normal', 1)).toBe(true);
+    expect(shouldAllowTakeback('balanced', 'normal', 2)).toBe(false);
+  });
+
+  it('grants one takeback fewer against a harder opponent', () => {
+    expect(getOpponentDifficulty('engine')).toBe('hard');
+    expect(getOpponentDifficulty('gpt-4o')).toBe('normal');
+    expect(shouldAllowTakeback('balanced', 'hard', 0)).toBe(true);
+    expect(shouldAllowTakeback('balanced', 'hard', 1)).toBe(false);
+    expect(shouldAllowTakeback('tactical', 'hard', 0)).toBe(false);
+  });
+
+  it('takes back the player move and the reply to it', () => {
+    expect(getTakebackPlies(game, 'white')).toBe(2);
+    expect(getTakebackPlies(game.slice(0, 3), 'white')).toBe(1);
+    expect(getTakebackPlies(game.slice(0, 1), 'black')).toBe(0);
+  });
+
+  it('replays up to the player next turn', () => {
+    expect(getRedoPlies(game, 'white')).toBe(2);
+    expect(getRedoPlies(game.slice(2), 'white')).toBe(2);
+    expect(getRedoPlies(game.slice(1), 'white')).toBe(1);
+    expect(getRedoPlies([], 'white')).toBe(0);
+  });
+
+  it('numbers the moves it describes', () => {
+    expect(describeMoves(game.slice(2), 2)).toBe('2. Nf3 Nc6');
+    expect(describeMoves(game.slice(1, 3), 1)).toBe('1... e5 2. Nf3');
+    expect(describeMoves(game.slice(0, 1), 0, 5, 'black')).toBe('5... e4');
+  });
+});
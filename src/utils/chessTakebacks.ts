@@ -0,0 +1,57 @@
+import { Move, PieceColor } from '@/types/chess';
+import { AIPlayer } from './aiPlayerManager';
+
+// How many takebacks each AI personality grants in a rated game; casual games allow any number
+const TAKEBACK_ALLOWANCE: Record<AIPlayer['personality'], number> = {
+  aggressive: 0,
+  tactical: 1,
+  balanced: 2,
+  defensive: 3
+};
+
+export type OpponentDifficulty = 'normal' | 'hard';
+
+// The local engine searches every move, so it is harder than the language model opponents
+const OPPONENT_DIFFICULTIES: Record<string, OpponentDifficulty> = {
+  engine: 'hard'
+};
+
+// Harder opponents are less forgiving and grant one takeback fewer
+const DIFFICULTY_ADJUSTMENT: Record<OpponentDifficulty, number> = {
+  normal: 0,
+  hard: -1
+};
+
+export const getOpponentDifficulty = (opponentType?: string): OpponentDifficulty =>
+  OPPONENT_DIFFICULTIES[opponentType ?? ''] ?? 'normal';
+
+export const shouldAllowTakeback = (
+  personality: AIPlayer['personality'],
+  difficulty: OpponentDifficulty,
+  takebacksGranted: number
+): boolean => takebacksGranted < TAKEBACK_ALLOWANCE[personality] + DIFFICULTY_ADJUSTMENT[difficulty];
+
+// Half-moves to undo so the player is to move again: their last move and every reply to it
+export const getTakebackPlies = (moves: Move[], playerColor: PieceColor): number => {
+  const lastOwnMove = moves.map(move => move.piece.color).lastIndexOf(playerColor);
+  return lastOwnMove === -1 ? 0 : moves.length - lastOwnMove;
+};
+
+// Half-moves to replay from the front of a redo stack: the next move and replies up to the player's next turn
+export const getRedoPlies = (redoMoves: Move[], playerColor: PieceColor): number => {
+  if (redoMoves.length === 0) return 0;
+  const nextOwnMove = redoMoves.findIndex((move, index) => index > 0 && move.piece.color === playerColor);
+  return nextOwnMove === -1 ? redoMoves.length : nextOwnMove;
+};
+
+// Numbered SAN for a run of moves, e.g. "12. Nf3 Nc6" or "12... Nc6 13. Nf3"
+export const describeMoves = (moves: Move[], firstPly: number, startFullmove = 1, startTurn: PieceColor = 'white'): string => {
+  const offset = startTurn === 'white' ? 0 : 1;
+  return moves.map((move, index) => {
+    const ply = firstPly + index + offset;
+    const moveNumber = startFullmove + Math.floor(ply / 2);
+    const san = move.san ?? move.notation;
+    if (ply % 2 === 0) return `${moveNumber}. ${san}`;
+    return index === 0 ? `${moveNumber}... ${san}` : san;
+  }).join(' ');
+};
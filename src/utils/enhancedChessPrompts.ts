@@ -1,12 +1,11 @@
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
-import { generateFEN, convertToSAN, getLastMove } from './chessNotation';
+import { ChessPiece, PieceColor, Move, Position } from '@/types/chess';
+import { generateFEN, convertToSAN, getLastMove, moveToSAN } from './chessNotation';
 import { analyzeTacticalSituation, TacticalSituation } from './chessStateAnalysis';
 import { validateGameState, GameStateValidation } from './chessRuleEnforcement';
-import { isPawnPromotion } from './chessLogic';
+import { positionToCoords, isPawnPromotion, isCastlingMove, isEnPassantMove } from './chessLogic';
 
 export const generateEnhancedMovePrompt = (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   gameHistory: Move[],
   validMoves: string[],
   opponentName: string = 'Player',
@@ -14,15 +13,16 @@ export const generateEnhancedMovePrompt = (
 ): string => {
   console.log('📝 Generating Enhanced Move Prompt with Rule Enforcement');
   
-  const fen = generateFEN(board, color);
+  const { board, turn: color } = position;
+  const fen = generateFEN(position);
   const moveHistory = convertToSAN(gameHistory);
-  const moveCount = Math.floor(gameHistory.length / 2) + 1;
-  const tacticalSituation = analyzeTacticalSituation(board, color);
-  const gameValidation = validateGameState(board, color);
+  const moveCount = position.fullmoveNumber;
+  const tacticalSituation = analyzeTacticalSituation(position);
+  const gameValidation = validateGameState(position);
   const boardDescription = generateDetailedBoardDescription(board);
   const gameContext = generateGameContext(gameHistory, opponentName, aiName, color);
   const strategicContext = generateStrategicContext(tacticalSituation, color, gameValidation);
-  const specialMovesInfo = generateSpecialMovesInfo(board, color, validMoves);
+  const specialMovesInfo = generateSpecialMovesInfo(position, validMoves);
   
   console.log('📊 Enhanced Prompt Context:', {
     moveCount,
@@ -53,7 +53,8 @@ CRITICAL CHESS RULES:
 - If your king IS in check, you MUST escape check immediately
 - You CANNOT capture the opponent's king (the game ends at checkmate)
 - You MUST only choose from the LEGAL moves provided
-- Castling is allowed when conditions are met (king and rook haven't moved, path clear, not in check)
+- Castling is allowed only when the king and rook haven't moved, the path is clear, and the king is not in check and does not pass through or land on an attacked square
+- En passant: a pawn that just advanced two squares may be captured by an adjacent enemy pawn as if it had moved one square, on the very next move only
 - Pawn promotion is mandatory when a pawn reaches the final rank
 
 GAME CONTEXT:
@@ -84,16 +85,19 @@ ${moveHistory || 'Game just started'}
 LEGAL MOVES AVAILABLE:
 ${filteredValidMoves.join(', ')}
 
+SAME MOVES IN SAN:
+${formatMovesAsSAN(position, filteredValidMoves)}
+
 ${gameValidation.isInCheck ? '🚨 CRITICAL: Your king is in CHECK! You MUST escape check immediately with one of the legal moves above.' : ''}
 ${gameValidation.isCheckmate ? '💀 GAME OVER: This is checkmate - no legal moves available.' : ''}
 ${gameValidation.isStalemate ? '🤝 GAME OVER: This is stalemate - no legal moves available but not in check.' : ''}
 ${gameValidation.checkingPieces.length > 0 ? `⚠️ CHECKING PIECES: Your king is attacked by pieces at: ${gameValidation.checkingPieces.join(', ')}` : ''}
 
 INSTRUCTIONS:
-1. You MUST choose EXACTLY one move from the LEGAL MOVES list above
+1. You MUST choose EXACTLY one move from the LEGAL MOVES list above, written exactly as listed (e2-e4); the SAN list is for reference only
 2. If in check, your move MUST escape check (all provided moves already satisfy this)
 3. Consider tactical opportunities while respecting chess rules
-4. If a move involves pawn promotion, include your choice in the response
+4. If a move involves pawn promotion, you will be asked for the piece afterwards
 5. Explain your move choice briefly but clearly
 
 Respond with valid JSON:
@@ -104,17 +108,24 @@ Respond with valid JSON:
 }`;
 };
 
+const formatMovesAsSAN = (position: Position, moves: string[]): string => {
+  return moves.map(move => {
+    const [from, to] = move.split('-');
+    return moveToSAN(position, from, to);
+  }).join(', ');
+};
+
 export const generatePromotionPrompt = (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   promotionSquare: string,
   gameHistory: Move[],
   opponentName: string = 'Player',
   aiName?: string
 ): string => {
-  const fen = generateFEN(board, color);
+  const color = position.turn;
+  const fen = generateFEN(position);
   const moveHistory = convertToSAN(gameHistory);
-  const tacticalSituation = analyzeTacticalSituation(board, color);
+  const tacticalSituation = analyzeTacticalSituation(position);
   
   return `PAWN PROMOTION REQUIRED
 
@@ -151,21 +162,22 @@ Respond with valid JSON:
 }`;
 };
 
-const generateSpecialMovesInfo = (board: (ChessPiece | null)[][], color: PieceColor, validMoves: string[]): string => {
+const generateSpecialMovesInfo = (position: Position, validMoves: string[]): string => {
+  const { board, turn: color, enPassant } = position;
   let info = '';
   
   // Check for castling moves
   const castlingMoves = validMoves.filter(move => {
     const [from, to] = move.split('-');
-    const [fromRow, fromCol] = [from.charCodeAt(0) - 97, 8 - parseInt(from[1])];
-    const [toRow, toCol] = [to.charCodeAt(0) - 97, 8 - parseInt(to[1])];
-    const piece = board[8 - parseInt(from[1])][from.charCodeAt(0) - 97];
-    return piece?.type === 'king' && Math.abs(toCol - fromCol) === 2;
+    const [fromRow, fromCol] = positionToCoords(from);
+    const piece = board[fromRow][fromCol];
+    return !!piece && isCastlingMove(from, to, piece);
   });
   
   if (castlingMoves.length > 0) {
     info += `🏰 CASTLING AVAILABLE: ${castlingMoves.join(', ')}\n`;
     info += `   Castling moves king 2 squares and rook to adjacent square\n`;
+    info += `   Only listed because your king is not in check and does not pass through or land on an attacked square\n`;
   }
   
   // Check for promotion moves
@@ -181,6 +193,17 @@ const generateSpecialMovesInfo = (board: (ChessPiece | null)[][], color: PieceCo
     info += `   These moves will promote pawn to Queen (or other piece of choice)\n`;
   }
   
+  // Check for en passant captures
+  const enPassantMoves = validMoves.filter(move => {
+    const [from, to] = move.split('-');
+    return isEnPassantMove(position, from, to);
+  });
+  
+  if (enPassantMoves.length > 0) {
+    info += `♟️ EN PASSANT AVAILABLE: ${enPassantMoves.join(', ')}\n`;
+    info += `   Captures the pawn that just advanced two squares; it is removed from ${enPassant![0]}${color === 'white' ? '5' : '4'}\n`;
+  }
+  
   return info || 'No special moves available this turn.';
 };
 
@@ -321,12 +344,11 @@ const generateStrategicContext = (
 export const generateRetryPrompt = (
   invalidMove: string,
   reason: string,
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   validMoves: string[]
 ): string => {
-  const gameValidation = validateGameState(board, color);
-  const tacticalSituation = analyzeTacticalSituation(board, color);
+  const gameValidation = validateGameState(position);
+  const tacticalSituation = analyzeTacticalSituation(position);
   
   return `MOVE CORRECTION NEEDED - CHESS RULE VIOLATION:
 
@@ -342,6 +364,9 @@ ${generateTacticalAnalysis(tacticalSituation)}
 LEGAL MOVES YOU MUST CHOOSE FROM:
 ${gameValidation.legalMoves.filter(move => validMoves.includes(move)).join(', ')}
 
+SAME MOVES IN SAN:
+${formatMovesAsSAN(position, gameValidation.legalMoves.filter(move => validMoves.includes(move)))}
+
 ${gameValidation.isInCheck ? '🚨 CRITICAL: You are in CHECK and must escape immediately!' : ''}
 ${gameValidation.isCheckmate ? '💀 GAME OVER: This is checkmate - no legal moves available.' : ''}
 
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildGameRecord, FinishedGame, flushPendingGames, getPendingGameCount, getUnratedNote, saveFinishedGame } from './gamePersistence';
+
+const { upsert, maybeSingle, invoke } = vi.hoisted(() => ({ upsert: vi.fn(), maybeSingle: vi.fn(), invoke: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ upsert, select: () => ({ eq: () => ({ maybeSingle }) }) }),
+    functions: { invoke },
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: 'user-1' } } } })
+    }
+  }
+}));
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+};
+
+const finishedGame: FinishedGame = {
+  gameMode: 'human-vs-ai',
+  opponent1Type: 'human',
+  opponent2Type: 'gpt-4o',
+  playerColor: 'white',
+  winner: 'black',
+  reason: 'checkmate',
+  moves: [],
+  pgn: '0-1',
+  durationSeconds: 42,
+  whiteName: 'Player',
+  blackName: 'GPT-4o'
+};
+
+describe('gamePersistence', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', createStorage());
+    upsert.mockReset();
+    maybeSingle.mockReset();
+    maybeSingle.mockResolvedValue({ data: null, error: null });
+    invoke.mockReset();
+    invoke.mockResolvedValue({ data: { rating: 1240 }, error: null });
+  });
+
+  describe('buildGameRecord', () => {
+    it('records the result from the human player point of view', () => {
+      const record = buildGameRecord(finishedGame, 'user-1');
+      expect(record).toMatchObject({ user_id: 'user-1', result: 'loss', winner: 'black', player_color: 'white', duration_seconds: 42 });
+      expect(record.game_data).toMatchObject({ pgn: '0-1', reason: 'checkmate', white: 'Player', black: 'GPT-4o' });
+    });
+
+    it('records the score for games without a human', () => {
+      const record = buildGameRecord({ ...finishedGame, gameMode: 'ai-vs-ai', playerColor: undefined, winner: 'white' }, null);
+      expect(record.result).toBe('1-0');
+      expect(record.player_color).toBeNull();
+    });
+
+    it('gives every record its own id', () => {
+      expect(buildGameRecord(finishedGame, null).id).not.toBe(buildGameRecord(finishedGame, null).id);
+    });
+
+    it('reuses the id of the autosaved game', () => {
+      expect(buildGameRecord({ ...finishedGame, id: 'saved-game' }, null).id).toBe('saved-game');
+    });
+  });
+
+  it('saves a finished game directly when Supabase is reachable', async () => {
+    upsert.mockResolvedValue({ error: null });
+    expect(await saveFinishedGame(finishedGame)).toBe(true);
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'user-1', moves_count: 0 }));
+    expect(getPendingGameCount()).toBe(0);
+  });
+
+  it('asks the rating service to rate saved games against an AI', async () => {
+    upsert.mockResolvedValue({ error: null });
+    await saveFinishedGame(finishedGame);
+    const { id } = upsert.mock.calls[0][0];
+    expect(invoke).toHaveBeenCalledWith('update-ratings', { body: { gameId: id } });
+  });
+
+  it('does not rate games without a human player', async () => {
+    upsert.mockResolvedValue({ error: null });
+    await saveFinishedGame({ ...finishedGame, gameMode: 'ai-vs-ai', playerColor: undefined });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('records aborted games without rating them', async () => {
+    upsert.mockResolvedValue({ error: null });
+    await saveFinishedGame({ ...finishedGame, winner: null, reason: 'aborted' });
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ result: 'aborted', winner: null }));
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('records casual games without rating them', async () => {
+    upsert.mockResolvedValue({ error: null });
+    await saveFinishedGame({ ...finishedGame, casual: true });
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+      game_data: expect.objectContaining({ casual: true })
+    }));
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('records wins on time and agreed draws without rating them', async () => {
+    upsert.mockResolvedValue({ error: null });
+    await saveFinishedGame({ ...finishedGame, winner: 'white', reason: 'time' });
+    await saveFinishedGame({ ...finishedGame, winner: 'draw', reason: 'draw' });
+    expect(upsert).toHaveBeenCalledTimes(2);
+    expect(invoke).not.toHaveBeenCalled();
+
+    await saveFinishedGame({ ...finishedGame, winner: 'black', reason: 'time' });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('explains why a game against an AI is not rated', () => {
+    expect(getUnratedNote({ ...finishedGame, winner: 'white', reason: 'time' })).toBe('Games won or drawn on time are not rated');
+    expect(getUnratedNote({ ...finishedGame, winner: 'draw', reason: 'draw' })).toBe('Draws by agreement are not rated');
+    expect(getUnratedNote({ ...finishedGame, winner: 'black', reason: 'time' })).toBeNull();
+    expect(getUnratedNote({ ...finishedGame, winner: 'draw', reason: 'draw', casual: true })).toBeNull();
+  });
+
+  it('keeps a saved game saved when rating fails', async () => {
+    upsert.mockResolvedValue({ error: null });
+    invoke.mockResolvedValue({ data: null, error: new Error('offline') });
+    expect(await saveFinishedGame(finishedGame)).toBe(true);
+    expect(getPendingGameCount()).toBe(0);
+  });
+
+  it('queues the game when the save fails and saves it on the next flush', async () => {
+    upsert.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    expect(await saveFinishedGame(finishedGame)).toBe(false);
+    expect(getPendingGameCount()).toBe(1);
+
+    upsert.mockResolvedValue({ error: null });
+    expect(await flushPendingGames()).toBe(1);
+    expect(getPendingGameCount()).toBe(0);
+    expect(upsert.mock.calls[0][0].id).toBe(upsert.mock.calls[1][0].id);
+  });
+
+  it('treats a retried save of a game that is already finished as saved and still rates it', async () => {
+    upsert.mockResolvedValueOnce({ error: { code: '500', message: 'timeout' } });
+    await saveFinishedGame(finishedGame);
+    expect(getPendingGameCount()).toBe(1);
+
+    // The first attempt reached the table, so updating the finished row is refused
+    upsert.mockResolvedValue({ error: { code: '42501', message: 'new row violates row-level security policy for table "games"' } });
+    maybeSingle.mockResolvedValue({ data: { finished_at: '2026-10-19T12:00:00Z' }, error: null });
+    expect(await flushPendingGames()).toBe(1);
+    expect(getPendingGameCount()).toBe(0);
+    expect(invoke).toHaveBeenCalledWith('update-ratings', { body: { gameId: upsert.mock.calls[0][0].id } });
+  });
+
+  it('keeps retrying a game whose row is not saved yet', async () => {
+    upsert.mockResolvedValue({ error: { code: '42501', message: 'new row violates row-level security policy for table "games"' } });
+    expect(await saveFinishedGame(finishedGame)).toBe(false);
+    expect(getPendingGameCount()).toBe(1);
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('gives up on a game after repeated failures', async () => {
+    upsert.mockResolvedValue({ error: { code: '500', message: 'timeout' } });
+    await saveFinishedGame(finishedGame);
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await flushPendingGames();
+    }
+    expect(getPendingGameCount()).toBe(0);
+  });
+});
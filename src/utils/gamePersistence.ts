@@ -0,0 +1,200 @@
+import { GameMode, GameResult, Move, PieceColor } from '@/types/chess';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { toPGNResult } from './chessPGN';
+import { getUnratedReason } from '../../supabase/functions/_shared/gameVerification';
+
+type GameInsert = Database['public']['Tables']['games']['Insert'];
+
+export interface GameCommentary {
+  sender: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface FinishedGame {
+  // Id of the autosaved in-progress game, whose row the finished record replaces
+  id?: string;
+  gameMode: GameMode;
+  opponent1Type: string;
+  opponent2Type: string;
+  // Set when a human played; results are then recorded from their point of view
+  playerColor?: PieceColor;
+  winner: GameResult['winner'];
+  reason: GameResult['reason'];
+  moves: Move[];
+  pgn: string;
+  durationSeconds: number;
+  whiteName: string;
+  blackName: string;
+  commentary?: GameCommentary[];
+  // Casual games allow unlimited takebacks and are never rated
+  casual?: boolean;
+}
+
+interface PendingGame {
+  record: GameInsert;
+  attempts: number;
+}
+
+const PENDING_GAMES_KEY = 'pending_games';
+const MAX_SAVE_ATTEMPTS = 5;
+
+type GameOutcome = Pick<FinishedGame, 'gameMode' | 'playerColor' | 'winner' | 'reason'>;
+
+const getResultLabel = (game: GameOutcome): string => {
+  if (game.reason === 'aborted') return 'aborted';
+  if (game.winner === 'draw') return 'draw';
+  if (game.gameMode === 'human-vs-ai' && game.playerColor) {
+    return game.winner === game.playerColor ? 'win' : 'loss';
+  }
+  return toPGNResult(game.winner);
+};
+
+export const buildGameRecord = (game: FinishedGame, userId: string | null): GameInsert => ({
+  // Generated up front so a retried save cannot create a second row
+  id: game.id ?? crypto.randomUUID(),
+  user_id: userId,
+  game_mode: game.gameMode,
+  opponent1_type: game.opponent1Type,
+  opponent2_type: game.opponent2Type,
+  player_color: game.playerColor ?? null,
+  result: getResultLabel(game),
+  winner: game.winner,
+  moves_count: game.moves.length,
+  duration_seconds: game.durationSeconds,
+  finished_at: new Date().toISOString(),
+  game_data: {
+    pgn: game.pgn,
+    reason: game.reason,
+    white: game.whiteName,
+    black: game.blackName,
+    moves: game.moves,
+    commentary: game.commentary ?? [],
+    casual: game.casual ?? false
+  } as unknown as Json
+});
+
+const readPendingGames = (): PendingGame[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_GAMES_KEY) || '[]');
+  } catch (error) {
+    console.error('❌ Discarding unreadable pending games queue:', error);
+    return [];
+  }
+};
+
+const writePendingGames = (pending: PendingGame[]) => {
+  if (pending.length > 0) {
+    localStorage.setItem(PENDING_GAMES_KEY, JSON.stringify(pending));
+  } else {
+    localStorage.removeItem(PENDING_GAMES_KEY);
+  }
+};
+
+// Finished rows can no longer be updated, so a save that went through on an earlier attempt is
+// refused by row level security when retried; finding the row finished means it is saved
+const isAlreadyFinished = async (id: string): Promise<boolean> => {
+  const { data, error } = await supabase.from('games').select('finished_at').eq('id', id).maybeSingle();
+  return !error && !!data?.finished_at;
+};
+
+const upsertGameRecord = async (record: GameInsert): Promise<boolean> => {
+  try {
+    const { error } = await supabase.from('games').upsert(record);
+    if (!error) return true;
+
+    if (await isAlreadyFinished(record.id!)) {
+      console.log('✅ Game was already saved:', record.id);
+      return true;
+    }
+
+    console.error('❌ Failed to save game:', error);
+    return false;
+  } catch (error) {
+    console.error('❌ Failed to save game:', error);
+    return false;
+  }
+};
+
+// Ratings are computed by the update-ratings edge function so clients cannot write their own stats
+const requestRatingUpdate = async (record: GameInsert) => {
+  // Aborted and casual games never count towards a rating
+  const casual = (record.game_data as { casual?: boolean } | null)?.casual;
+  if (!record.user_id || record.game_mode !== 'human-vs-ai' || record.result === 'aborted' || casual) return;
+
+  // Results the rating service cannot check are left unrated; the board tells the player so
+  const unrated = getUnratedReason((record.game_data as { reason?: string } | null)?.reason, record.result);
+  if (unrated) {
+    console.log('⏭️ Game not rated:', unrated);
+    return;
+  }
+
+  const { data, error } = await supabase.functions.invoke('update-ratings', { body: { gameId: record.id } });
+  if (error) {
+    console.error('❌ Rating update failed:', error);
+    return;
+  }
+  console.log('📈 Rating updated:', data);
+};
+
+const saveAndRate = async (record: GameInsert): Promise<boolean> => {
+  if (!(await upsertGameRecord(record))) return false;
+
+  await requestRatingUpdate(record).catch(error => console.error('❌ Rating update failed:', error));
+  return true;
+};
+
+// Why a finished game the player would expect to be rated is not, or null when it is rated
+export const getUnratedNote = (game: GameOutcome & Pick<FinishedGame, 'casual'>): string | null => {
+  if (game.gameMode !== 'human-vs-ai' || !game.playerColor || game.casual || game.reason === 'aborted') return null;
+  return getUnratedReason(game.reason, getResultLabel(game));
+};
+
+export const getPendingGameCount = () => readPendingGames().length;
+
+// Retries queued saves; records that keep failing are dropped after MAX_SAVE_ATTEMPTS
+export const flushPendingGames = async (): Promise<number> => {
+  const pending = readPendingGames();
+  if (pending.length === 0) return 0;
+
+  console.log('📤 Retrying queued game saves:', pending.length);
+  const remaining: PendingGame[] = [];
+  let saved = 0;
+
+  for (const entry of pending) {
+    if (await saveAndRate(entry.record)) {
+      saved++;
+    } else if (entry.attempts + 1 < MAX_SAVE_ATTEMPTS) {
+      remaining.push({ ...entry, attempts: entry.attempts + 1 });
+    } else {
+      console.error('🗑️ Giving up on game save after repeated failures:', entry.record.id);
+    }
+  }
+
+  // Saves queued while this flush was running must not be lost
+  const queuedMeanwhile = readPendingGames().filter(entry => !pending.some(old => old.record.id === entry.record.id));
+  writePendingGames([...remaining, ...queuedMeanwhile]);
+  return saved;
+};
+
+// Returns true when the game reached Supabase, false when it was queued for a later retry
+export const saveFinishedGame = async (game: FinishedGame): Promise<boolean> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const record = buildGameRecord(game, session?.user.id ?? null);
+
+  console.log('💾 Saving finished game:', {
+    id: record.id,
+    result: record.result,
+    moves: record.moves_count
+  });
+
+  if (await saveAndRate(record)) {
+    await flushPendingGames();
+    return true;
+  }
+
+  writePendingGames([...readPendingGames(), { record, attempts: 1 }]);
+  console.log('📥 Game queued for retry when Supabase is reachable');
+  return false;
+};
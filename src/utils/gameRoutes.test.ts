@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInitialPosition, makeMove } from './chessLogic';
+import { parseFEN } from './chessNotation';
+import {
+  getGamePath,
+  getProfilePath,
+  getSetupPath,
+  getSnapshotRouteState,
+  isGameMode,
+  loadAnalysisGame,
+  rememberAnalysisGame
+} from './gameRoutes';
+import { SavedGameSnapshot, toSnapshotPositions } from './savedGames';
+
+const { rpc } = vi.hoisted(() => ({ rpc: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc }
+}));
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+};
+
+const start = createInitialPosition();
+const afterE4 = makeMove(start, 'e2', 'e4');
+const e4 = { from: 'e2', to: 'e4', piece: start.board[6][4]!, timestamp: 1, notation: 'e2-e4', san: 'e4' };
+
+describe('gameRoutes', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', createStorage());
+    rpc.mockReset();
+    rpc.mockResolvedValue({ data: null, error: null });
+  });
+
+  it('builds links for every screen', () => {
+    expect(getSetupPath()).toBe('/setup');
+    expect(getSetupPath('human-vs-human', '8/8/8/8/8/8/8/K6k w - - 0 1')).toBe('/setup/human-vs-human?fen=8%2F8%2F8%2F8%2F8%2F8%2F8%2FK6k%20w%20-%20-%200%201');
+    expect(getGamePath('ai-vs-ai', 'abc')).toBe('/battle/abc');
+    expect(getGamePath('human-vs-human', 'abc')).toBe('/play/abc');
+    expect(getProfilePath('magnus carlsen')).toBe('/profile/magnus%20carlsen');
+    expect(isGameMode('human-vs-ai')).toBe(true);
+    expect(isGameMode('ai-vs-human')).toBe(false);
+  });
+
+  it('restores a remembered game from the local cache', async () => {
+    const id = rememberAnalysisGame({ id: 'game-1', startPosition: start, moves: [e4], whiteName: 'Player', blackName: 'Engine', result: '0-1' });
+    expect(id).toBe('game-1');
+
+    const game = await loadAnalysisGame('game-1');
+    expect(game).toMatchObject({ id: 'game-1', whiteName: 'Player', blackName: 'Engine', result: '0-1' });
+    expect(game?.moves.map(move => move.san)).toEqual(['e4']);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('gives games without an id one to link to', () => {
+    const id = rememberAnalysisGame({ startPosition: start, moves: [], whiteName: 'A', blackName: 'B' });
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('falls back to the shared finished game', async () => {
+    rpc.mockResolvedValueOnce({ data: { pgn: '[White "Ann"]\n[Black "Bob"]\n\n1. e4 e5 1-0' }, error: null });
+
+    const game = await loadAnalysisGame('finished');
+    expect(rpc).toHaveBeenCalledWith('get_shared_game', { game_id: 'finished' });
+    expect(game?.whiteName).toBe('Ann');
+    expect(game?.moves).toHaveLength(2);
+    expect(await loadAnalysisGame('missing')).toBeNull();
+  });
+
+  it('describes how a saved game began', () => {
+    const snapshot: SavedGameSnapshot = {
+      id: 'saved',
+      board: 'human-vs-ai',
+      gameMode: 'human-vs-human',
+      opponent1Type: 'human',
+      opponent2Type: 'human',
+      whiteName: 'White',
+      blackName: 'Black',
+      ...toSnapshotPositions(start, afterE4, [start]),
+      moves: [e4],
+      gameTime: 5,
+      casual: true,
+      updatedAt: 1
+    };
+
+    const { settings, startFen } = getSnapshotRouteState(snapshot);
+    expect(settings).toMatchObject({ mode: 'human-vs-human', opponent1Type: 'human', casual: true });
+    expect(parseFEN(startFen!)).toEqual(start);
+  });
+});
@@ -0,0 +1,133 @@
+import { GameMode, GameSettings } from '@/types/chess';
+import { supabase } from '@/integrations/supabase/client';
+import { AnalysisGame } from './chessAnalysis';
+import { parseFEN } from './chessNotation';
+import { exportPGN, importPGN, PGNResult } from './chessPGN';
+import { loadSavedGames, SavedGameSnapshot } from './savedGames';
+
+// Every screen has a URL so games and profiles can be bookmarked and shared. A game link carries only
+// the game's id: in-progress games are found among the saved snapshots, finished ones through the
+// get_shared_game function, and games analyzed on this device, imported PGNs included, in a local cache.
+
+export const ROUTES = {
+  home: '/',
+  auth: '/auth',
+  setup: '/setup',
+  importPGN: '/import',
+  profile: '/profile'
+};
+
+// Carried in the history entry of a new game, so a reload before the first move still knows the settings
+export interface NewGameRouteState {
+  settings: GameSettings;
+  startFen?: string;
+}
+
+const GAME_MODES: GameMode[] = ['human-vs-ai', 'ai-vs-ai', 'human-vs-human'];
+
+export const isGameMode = (value: string | undefined): value is GameMode => GAME_MODES.includes(value as GameMode);
+
+export const getSetupPath = (mode?: GameMode, startFen?: string) => {
+  const path = mode ? `${ROUTES.setup}/${mode}` : ROUTES.setup;
+  return startFen ? `${path}?fen=${encodeURIComponent(startFen)}` : path;
+};
+
+export const getPlayPath = (gameId: string) => `/play/${gameId}`;
+export const getBattlePath = (gameId: string) => `/battle/${gameId}`;
+export const getAnalysisPath = (gameId: string) => `/analysis/${gameId}`;
+export const getProfilePath = (username: string) => `${ROUTES.profile}/${encodeURIComponent(username)}`;
+
+// AI vs AI games are watched on the battle board, everything else is played on the human board
+export const getGamePath = (mode: GameMode, gameId: string) =>
+  mode === 'ai-vs-ai' ? getBattlePath(gameId) : getPlayPath(gameId);
+
+export const getSavedGamePath = (game: SavedGameSnapshot) =>
+  game.board === 'ai-battle' ? getBattlePath(game.id) : getPlayPath(game.id);
+
+// The settings a saved game was started with, for starting another like it
+export const getSnapshotRouteState = (game: SavedGameSnapshot): NewGameRouteState => ({
+  settings: {
+    mode: game.gameMode,
+    opponent1Type: game.opponent1Type,
+    opponent2Type: game.opponent2Type,
+    playerColor: game.playerColor,
+    timeControl: game.clock?.timeControl,
+    casual: game.casual,
+    whitePlayerId: game.whitePlayerId,
+    blackPlayerId: game.blackPlayerId
+  },
+  startFen: game.startFen
+});
+
+export const findSavedGame = async (gameId: string, userId?: string): Promise<SavedGameSnapshot | null> => {
+  const games = await loadSavedGames(userId);
+  return games.find(game => game.id === gameId) ?? null;
+};
+
+const ANALYSIS_GAMES_KEY = 'analysis_games';
+const MAX_ANALYSIS_GAMES = 10;
+
+interface CachedAnalysisGame {
+  id: string;
+  pgn: string;
+}
+
+const readAnalysisGames = (): CachedAnalysisGame[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ANALYSIS_GAMES_KEY) || '[]');
+  } catch (error) {
+    console.error('❌ Discarding unreadable analysis games:', error);
+    return [];
+  }
+};
+
+const fromPGN = (pgn: string, id: string): AnalysisGame => {
+  const { tags, startPosition, moves, result } = importPGN(pgn);
+  return {
+    id,
+    startPosition,
+    moves,
+    whiteName: tags.White || 'White',
+    blackName: tags.Black || 'Black',
+    result
+  };
+};
+
+// Kept as PGN, which is compact and already round-trips positions and moves. Games without an id,
+// such as imported PGNs, are given one; returns the id to link to.
+export const rememberAnalysisGame = (game: AnalysisGame): string => {
+  const id = game.id ?? crypto.randomUUID();
+  const pgn = exportPGN({
+    moves: game.moves,
+    startPosition: game.startPosition,
+    result: (game.result ?? '*') as PGNResult,
+    tags: { White: game.whiteName, Black: game.blackName }
+  });
+  const others = readAnalysisGames().filter(cached => cached.id !== id);
+  localStorage.setItem(ANALYSIS_GAMES_KEY, JSON.stringify([{ id, pgn }, ...others].slice(0, MAX_ANALYSIS_GAMES)));
+  return id;
+};
+
+export const loadAnalysisGame = async (id: string, userId?: string): Promise<AnalysisGame | null> => {
+  const cached = readAnalysisGames().find(game => game.id === id);
+  if (cached) return fromPGN(cached.pgn, id);
+
+  const saved = await findSavedGame(id, userId);
+  if (saved) {
+    return {
+      id,
+      startPosition: parseFEN(saved.startFen),
+      moves: saved.moves,
+      whiteName: saved.whiteName,
+      blackName: saved.blackName
+    };
+  }
+
+  const { data, error } = await supabase.rpc('get_shared_game', { game_id: id });
+  if (error) {
+    console.error('❌ Failed to load shared game:', error);
+    return null;
+  }
+  const pgn = (data as { pgn?: string } | null)?.pgn;
+  return pgn ? fromPGN(pgn, id) : null;
+};
@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockLLMServer, startMockLLMServer } from '../../scripts/mockLLMServer';
+import { createChessLLMProvider, LLM_OPPONENTS, saveLLMApiKey, setLLMBaseUrl } from './chessLLMProviders';
+import { createInitialPosition } from './chessLogic';
+import { getAllLegalMoves } from './chessRuleEnforcement';
+import { getLLMMove } from './llmChessService';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+};
+
+const start = createInitialPosition();
+const legalMoves = getAllLegalMoves(start);
+const provider = createChessLLMProvider({ ...LLM_OPPONENTS['gpt-4o'], timeoutMs: 200 });
+
+const getPrompt = (server: MockLLMServer, index: number) =>
+  server.requests[index].body.messages.map((message: { content: string }) => message.content).join('\n');
+
+describe('llmChessService against the mock LLM server', () => {
+  let server: MockLLMServer;
+
+  beforeAll(async () => {
+    server = await startMockLLMServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', createStorage());
+    saveLLMApiKey('openai', 'test-key');
+    setLLMBaseUrl('openai', server.url);
+    server.requests.length = 0;
+  });
+
+  it('plays the legal move the model chose', async () => {
+    server.script(['legal']);
+
+    const result = await getLLMMove(provider, start, [], 'Player', 'ChessGPT Master');
+    expect(legalMoves).toContain(result.move?.notation);
+    expect(result.chatMessage).toMatch(/^Mock legal move/);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].body.model).toBe('gpt-4o');
+    expect(server.requests[0].body.response_format.json_schema.schema.properties.move.enum).toEqual(legalMoves);
+  });
+
+  it('asks again after an illegal move', async () => {
+    server.script(['illegal', 'legal']);
+
+    const result = await getLLMMove(provider, start, []);
+    expect(legalMoves).toContain(result.move?.notation);
+    expect(result.chatMessage).toMatch(/^Mock legal move/);
+    expect(server.requests).toHaveLength(2);
+    expect(getPrompt(server, 1)).toContain('Your previous move "e1-e8" was INVALID');
+    expect(getPrompt(server, 1)).toContain("move: Invalid enum value");
+  });
+
+  it('retries a reply that is not JSON', async () => {
+    server.script(['malformed', 'legal']);
+
+    const result = await getLLMMove(provider, start, []);
+    expect(result.chatMessage).toMatch(/^Mock legal move/);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('retries a request that timed out', async () => {
+    server.script(['timeout', 'legal']);
+
+    const result = await getLLMMove(provider, start, []);
+    expect(result.chatMessage).toMatch(/^Mock legal move/);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('falls back to the local engine when rate limited', async () => {
+    server.script(['rate-limit', 'rate-limit']);
+
+    const result = await getLLMMove(provider, start, []);
+    expect(legalMoves).toContain(result.move?.notation);
+    expect(result.chatMessage).toBe('AI temporarily unavailable. Using legal fallback move.');
+    expect(server.requests.map(request => request.behavior)).toEqual(['rate-limit', 'rate-limit']);
+  });
+});
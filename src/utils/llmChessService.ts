@@ -0,0 +1,574 @@
+import { Move, PieceType, Position } from '@/types/chess';
+import { getAllLegalMoves, validateGameState, isLegalMove } from './chessRuleEnforcement';
+import { generateEnhancedMovePrompt, generateRetryPrompt, generatePromotionPrompt } from './enhancedChessPrompts';
+import { isPawnPromotion, positionToCoords, getCapturedPiece } from './chessLogic';
+import { generateFEN } from './chessNotation';
+import { describeDrawReason } from './chessDrawRules';
+import { searchInBackground } from './chessEngineClient';
+import { ChessLLMProvider, LLMChatMessage } from './chessLLMProviders';
+import { createMoveReplySchema, describeReplyError, MoveReply, promotionReplySchema, PromotionReply } from './chessLLMSchemas';
+import { 
+  generateAnalysisPrompt, 
+  generateExplanationPrompt,
+  generateHintPrompt
+} from './chessPrompts';
+
+interface LLMMoveResponse {
+  move: Move | null;
+  chatMessage: string;
+  aiName?: string;
+  promotionPiece?: PieceType;
+}
+
+interface PromotionResponse {
+  promotionPiece: PieceType;
+  chatMessage: string;
+}
+
+const FALLBACK_ENGINE_TIME_MS = 500;
+const API_RETRY_DELAY_MS = 1000;
+
+export const getLLMMove = async (
+  provider: ChessLLMProvider,
+  position: Position,
+  gameHistory: Move[],
+  opponentName: string = 'Player',
+  currentAiName?: string,
+  retryCount: number = 0
+): Promise<LLMMoveResponse> => {
+  console.log('🤖 LLM Move Request Started with Rule Enforcement');
+  const color = position.turn;
+  console.log('📊 Input Data:', {
+    provider: provider.id,
+    model: provider.model,
+    color,
+    opponentName,
+    currentAiName,
+    gameHistoryLength: gameHistory.length,
+    retryCount
+  });
+
+  // Use legal moves instead of basic valid moves
+  const gameValidation = validateGameState(position);
+  const legalMoves = gameValidation.legalMoves;
+  
+  console.log('✅ Game State Validation:', {
+    isInCheck: gameValidation.isInCheck,
+    isCheckmate: gameValidation.isCheckmate,
+    isStalemate: gameValidation.isStalemate,
+    legalMovesCount: legalMoves.length,
+    gameOver: gameValidation.gameOver
+  });
+  
+  // Handle game over scenarios
+  if (gameValidation.gameOver) {
+    console.log('🏁 Game Over Detected:', {
+      checkmate: gameValidation.isCheckmate,
+      drawReason: gameValidation.drawReason,
+      winner: gameValidation.winner
+    });
+    
+    let gameOverMessage = '';
+    if (gameValidation.isCheckmate) {
+      gameOverMessage = `Checkmate! ${gameValidation.winner === color ? 'I lose' : 'I win'}!`;
+    } else if (gameValidation.drawReason) {
+      gameOverMessage = `Draw! ${describeDrawReason(gameValidation.drawReason)}.`;
+    }
+    
+    return { 
+      move: null, 
+      chatMessage: gameOverMessage,
+      aiName: currentAiName 
+    };
+  }
+  
+  if (legalMoves.length === 0) {
+    console.log('❌ No legal moves available');
+    return { 
+      move: null, 
+      chatMessage: 'No legal moves available - this should not happen!',
+      aiName: currentAiName 
+    };
+  }
+
+  try {
+    const prompt = generateEnhancedMovePrompt(position, gameHistory, legalMoves, opponentName, currentAiName);
+    console.log('📝 Enhanced Rule-Aware Prompt Generated:', {
+      promptLength: prompt.length,
+      checksIncluded: prompt.includes('CHECK'),
+      rulesEmphasized: prompt.includes('CRITICAL CHESS RULES')
+    });
+
+    const reply = await callProvider(provider, prompt, legalMoves);
+    console.log('🔄 LLM Raw Response:', reply);
+
+    // The reply must name one of the legal moves; anything else is sent back with the reason
+    const validation = createMoveReplySchema(legalMoves).safeParse(reply);
+    if (!validation.success) {
+      const reason = describeReplyError(validation.error);
+      console.error('❌ LLM reply failed validation:', { reply, reason });
+      
+      if (retryCount < 2) {
+        console.log('🔄 Retrying with rule violation correction...');
+        return retryWithRuleViolation(provider, position, gameHistory, legalMoves, describeRejectedMove(reply), reason, opponentName, currentAiName, retryCount + 1);
+      }
+      
+      return createFallbackMove(legalMoves, position, 'AI did not choose a legal move. Chess rules enforced - using legal alternative.', currentAiName);
+    }
+
+    const response = validation.data;
+    const moveNotation = response.move;
+    const move = createMoveFromNotation(moveNotation, position);
+    console.log('✅ Legal Move Validated and Created:', {
+      notation: moveNotation,
+      moveCreated: !!move,
+      followsChessRules: true
+    });
+
+    if (!move) {
+      console.error('❌ Failed to create move object from legal notation:', moveNotation);
+      
+      if (retryCount < 2) {
+        console.log('🔄 Retrying move object creation...');
+        return retryWithRuleViolation(provider, position, gameHistory, legalMoves, moveNotation, 'Failed to create move object from notation', opponentName, currentAiName, retryCount + 1);
+      }
+      
+      return createFallbackMove(legalMoves, position, 'Move creation failed. Using legal fallback.', currentAiName);
+    }
+
+    if (isPawnPromotion(move.from, move.to, move.piece)) {
+      console.log('👑 Pawn promotion detected, requesting AI choice...');
+      
+      try {
+        const promotionChoice = await getAIPromotionChoice(provider, position, move.to, gameHistory, opponentName, currentAiName);
+        console.log('✅ AI promotion choice received:', promotionChoice);
+        
+        return {
+          move,
+          chatMessage: `${response.chatMessage} ${promotionChoice.chatMessage}`,
+          aiName: response.aiName || currentAiName,
+          promotionPiece: promotionChoice.promotionPiece
+        };
+      } catch (error) {
+        console.error('❌ Promotion choice failed, defaulting to Queen:', error);
+        return {
+          move,
+          chatMessage: `${response.chatMessage} Promoting to Queen by default.`,
+          aiName: response.aiName || currentAiName,
+          promotionPiece: 'queen'
+        };
+      }
+    }
+
+    console.log('🎉 Legal LLM Move Success:', {
+      move: moveNotation,
+      chatMessage: response.chatMessage,
+      aiName: response.aiName || currentAiName,
+      chesRulesEnforced: true
+    });
+
+    return {
+      move,
+      chatMessage: response.chatMessage,
+      aiName: response.aiName || currentAiName
+    };
+  } catch (error) {
+    console.error('💥 LLM API Error:', error);
+    
+    if (retryCount < 1) {
+      console.log('🔄 Retrying after API error...');
+      await new Promise(resolve => setTimeout(resolve, API_RETRY_DELAY_MS));
+      return getLLMMove(provider, position, gameHistory, opponentName, currentAiName, retryCount + 1);
+    }
+    
+    return createFallbackMove(legalMoves, position, 'AI temporarily unavailable. Using legal fallback move.', currentAiName);
+  }
+};
+
+export const getAIPromotionChoice = async (
+  provider: ChessLLMProvider,
+  position: Position,
+  promotionSquare: string,
+  gameHistory: Move[],
+  opponentName: string = 'Player',
+  aiName?: string
+): Promise<PromotionResponse> => {
+  console.log('👑 AI Promotion Choice Request:', { color: position.turn, promotionSquare, aiName });
+  
+  try {
+    const prompt = generatePromotionPrompt(position, promotionSquare, gameHistory, opponentName, aiName);
+    console.log('📝 Promotion Prompt Generated:', prompt.substring(0, 200) + '...');
+    
+    const reply = await callProvider(provider, prompt);
+    console.log('✅ Promotion Response:', reply);
+    
+    const validation = promotionReplySchema.safeParse(reply);
+    if (!validation.success) {
+      throw new Error(`Invalid promotion reply: ${describeReplyError(validation.error)}`);
+    }
+    
+    const { promotionPiece, chatMessage } = validation.data;
+    return {
+      promotionPiece,
+      chatMessage: chatMessage || `Promoting to ${promotionPiece}.`
+    };
+  } catch (error) {
+    console.error('❌ Promotion Choice Error:', error);
+    return {
+      promotionPiece: 'queen',
+      chatMessage: 'Promoting to Queen (default choice).'
+    };
+  }
+};
+
+const retryWithRuleViolation = async (
+  provider: ChessLLMProvider,
+  position: Position,
+  gameHistory: Move[],
+  legalMoves: string[],
+  invalidMove: string,
+  reason: string,
+  opponentName: string,
+  currentAiName: string | undefined,
+  retryCount: number
+): Promise<LLMMoveResponse> => {
+  console.log('🔄 Retrying with chess rule violation correction:', { invalidMove, reason, retryCount });
+  
+  const correctionPrompt = generateRetryPrompt(invalidMove, reason, position, legalMoves);
+  console.log('📝 Rule Violation Correction Prompt:', correctionPrompt.substring(0, 300) + '...');
+  
+  try {
+    const reply = await callProvider(provider, correctionPrompt, legalMoves);
+    const validation = createMoveReplySchema(legalMoves).safeParse(reply);
+    
+    if (validation.success) {
+      const move = createMoveFromNotation(validation.data.move, position);
+      if (move) {
+        console.log('✅ Rule violation correction successful:', validation.data.move);
+        return {
+          move,
+          chatMessage: validation.data.chatMessage || 'Corrected to legal move following chess rules.',
+          aiName: currentAiName
+        };
+      }
+    }
+    
+    console.error('❌ Rule violation correction failed, using fallback:', validation.success ? 'move could not be created' : describeReplyError(validation.error));
+    return createFallbackMove(legalMoves, position, 'Could not correct rule violation. Using legal fallback move.', currentAiName);
+  } catch (error) {
+    console.error('💥 Rule violation correction attempt failed:', error);
+    return createFallbackMove(legalMoves, position, 'Error in rule correction. Using legal fallback move.', currentAiName);
+  }
+};
+
+export const getPositionAnalysis = async (provider: ChessLLMProvider, position: Position, gameHistory: Move[]): Promise<string> => {
+  console.log('📊 Position Analysis Request:', { color: position.turn, historyLength: gameHistory.length });
+  
+  try {
+    const prompt = generateAnalysisPrompt(position, gameHistory);
+    console.log('📝 Analysis Prompt Generated:', prompt.substring(0, 100) + '...');
+    
+    const response = await askProvider(provider, prompt, SIMULATED_TEXT.analysis);
+    console.log('✅ Analysis Response:', response);
+    
+    return response || 'Position analysis unavailable.';
+  } catch (error) {
+    console.error('❌ Analysis Error:', error);
+    return 'Unable to analyze position at this time.';
+  }
+};
+
+export const getMoveExplanation = async (
+  provider: ChessLLMProvider,
+  move: string,
+  position: Position,
+  gameHistory: Move[]
+): Promise<string> => {
+  console.log('💭 Move Explanation Request:', { move, historyLength: gameHistory.length });
+  
+  try {
+    const prompt = generateExplanationPrompt(move, position, gameHistory);
+    console.log('📝 Explanation Prompt Generated:', prompt.substring(0, 100) + '...');
+    
+    const response = await askProvider(provider, prompt, SIMULATED_TEXT.explanation);
+    console.log('✅ Explanation Response:', response);
+    
+    return response || 'Move explanation unavailable.';
+  } catch (error) {
+    console.error('❌ Explanation Error:', error);
+    return 'Unable to explain move at this time.';
+  }
+};
+
+export const getHint = async (provider: ChessLLMProvider, position: Position, validMoves: string[]): Promise<string> => {
+  console.log('💡 Hint Request:', { color: position.turn, validMovesCount: validMoves.length });
+  
+  try {
+    const prompt = generateHintPrompt(position, validMoves);
+    console.log('📝 Hint Prompt Generated:', prompt.substring(0, 100) + '...');
+    
+    const response = await askProvider(provider, prompt, SIMULATED_TEXT.hint);
+    console.log('✅ Hint Response:', response);
+    
+    return response || 'No hint available.';
+  } catch (error) {
+    console.error('❌ Hint Error:', error);
+    return 'Unable to provide hint at this time.';
+  }
+};
+
+// Chat for opponents without an assistant thread; the whole conversation is sent each time
+export const getLLMChatReply = async (
+  provider: ChessLLMProvider,
+  messages: LLMChatMessage[],
+  position: Position
+): Promise<string> => {
+  console.log('💬 LLM Chat Request:', { provider: provider.id, messageCount: messages.length });
+
+  if (!provider.isConfigured()) {
+    console.log('⚠️ Provider not configured, using simulated chat');
+    return simulateChatReply();
+  }
+
+  // The latest message carries the position so replies can refer to the board
+  const last = messages[messages.length - 1];
+  const withPosition = [
+    ...messages.slice(0, -1),
+    { ...last, content: `${last.content}\n\n(Current position, ${position.turn} to move: ${generateFEN(position)})` }
+  ];
+
+  try {
+    const reply = await provider.chat(withPosition);
+    return reply || simulateChatReply();
+  } catch (error) {
+    console.error('❌ LLM Chat Error:', error);
+    return simulateChatReply();
+  }
+};
+
+// Asks for a move when given the legal moves, otherwise for a promotion choice. Resolves with the reply as
+// parsed JSON for the caller to validate; failures (rate limits, timeouts, replies that are not JSON)
+// reach the caller, which retries or falls back.
+const callProvider = async (provider: ChessLLMProvider, prompt: string, legalMoves?: string[]): Promise<unknown> => {
+  console.log('🔄 LLM API Call Starting:', {
+    provider: provider.id,
+    model: provider.model,
+    kind: legalMoves ? 'move' : 'promotion',
+    promptLength: prompt.length,
+    timestamp: new Date().toISOString()
+  });
+
+  if (!provider.isConfigured()) {
+    console.log('⚠️ Provider not configured, using enhanced simulation');
+    return simulateLLMCall(prompt, legalMoves);
+  }
+
+  console.log(`📡 Making real ${provider.id} API call...`);
+  const reply = legalMoves ? await provider.requestMove(prompt, legalMoves) : await provider.choosePromotion(prompt);
+  console.log('✅ Parsed LLM Response:', reply);
+  return reply;
+};
+
+// What the model offered instead of a legal move, for the correction prompt
+const describeRejectedMove = (reply: unknown) => {
+  const move = (reply as { move?: unknown } | null)?.move;
+  return typeof move === 'string' ? move : JSON.stringify(reply) ?? 'no move';
+};
+
+const askProvider = async (provider: ChessLLMProvider, prompt: string, simulated: string): Promise<string> => {
+  if (!provider.isConfigured()) {
+    console.log('⚠️ Provider not configured, using simulated text');
+    return simulated;
+  }
+
+  try {
+    return await provider.analyze(prompt);
+  } catch (error) {
+    console.error('💥 Real LLM API Error:', error);
+    return simulated;
+  }
+};
+
+const simulateLLMCall = async (prompt: string, legalMoves?: string[]): Promise<MoveReply | PromotionReply> => {
+  console.log('🎭 Simulating LLM API Call with Rule Awareness');
+  
+  // Simulate realistic thinking time
+  const thinkingTime = 1500 + Math.random() * 2000;
+  console.log(`⏳ Simulating thinking time: ${Math.round(thinkingTime)}ms`);
+  
+  await new Promise(resolve => setTimeout(resolve, thinkingTime));
+  
+  // Handle promotion prompts
+  if (!legalMoves) {
+    const promotionOptions = promotionReplySchema.shape.promotionPiece.options;
+    const selectedPromotion = promotionOptions[Math.floor(Math.random() * promotionOptions.length)];
+    
+    return {
+      promotionPiece: selectedPromotion,
+      chatMessage: `Promoting to ${selectedPromotion} for maximum tactical advantage.`
+    };
+  }
+  
+  // Prioritize moves based on context
+  let selectedMove = legalMoves[0];
+  
+  // Check for urgent situations in prompt
+  if (prompt.includes('CHECK') || prompt.includes('CHECKMATE')) {
+    console.log('🚨 Detected check/mate situation, selecting escape move');
+    selectedMove = legalMoves[0]; // First move should be a legal escape
+  } else if (prompt.includes('THREATENED')) {
+    console.log('⚠️ Detected threats, selecting defensive move');
+    selectedMove = legalMoves[Math.floor(Math.random() * Math.min(3, legalMoves.length))];
+  } else {
+    selectedMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+  }
+  
+  const response = {
+    move: selectedMove,
+    chatMessage: generateContextualChatMessage(prompt),
+    aiName: 'ChessGPT-RuleEnforced'
+  };
+  
+  console.log('📤 Simulated Legal JSON Response:', response);
+  return response;
+};
+
+const SIMULATED_TEXT = {
+  analysis: 'The position shows complex tactical and strategic elements requiring careful evaluation while following chess rules.',
+  explanation: 'This move addresses the current position\'s requirements while maintaining rule compliance.',
+  hint: 'Focus on legal moves that ensure king safety while looking for tactical opportunities.'
+};
+
+const simulateChatReply = (): string => {
+  const replies = [
+    'Good question! Let me break down the key factors in this position.',
+    'From a technical standpoint, the critical elements are piece activity and king safety.',
+    'Your observation is quite accurate. The position requires precise calculation.'
+  ];
+  return replies[Math.floor(Math.random() * replies.length)];
+};
+
+const generateContextualChatMessage = (prompt: string): string => {
+  if (prompt.includes('CHECKMATE')) {
+    return 'This is checkmate - the game is over!';
+  }
+  if (prompt.includes('CHECK')) {
+    return 'Escaping check with the only legal move available.';
+  }
+  if (prompt.includes('THREATENED')) {
+    return 'Addressing the threats while maintaining legal play.';
+  }
+  if (prompt.includes('Opening')) {
+    return 'Developing pieces according to opening principles and chess rules.';
+  }
+  if (prompt.includes('Endgame')) {
+    return 'Focusing on endgame technique while respecting all chess rules.';
+  }
+  if (prompt.includes('CASTLING AVAILABLE')) {
+    return 'Considering castling to improve king safety.';
+  }
+  if (prompt.includes('PAWN PROMOTION AVAILABLE')) {
+    return 'Promoting pawn for maximum strategic advantage.';
+  }
+  
+  const messages = [
+    'A solid positional move that follows all chess rules.',
+    'This legal move maintains balance while creating pressure.',
+    'Centralizing my pieces with a rule-compliant move.',
+    'A strategic move that respects chess principles.',
+    'Improving my position while ensuring king safety.'
+  ];
+  
+  return messages[Math.floor(Math.random() * messages.length)];
+};
+
+const createMoveFromNotation = (notation: string, position: Position): Move | null => {
+  console.log('🔧 Creating Move Object:', { notation });
+  
+  const parts = notation.split('-');
+  if (parts.length !== 2) {
+    console.error('❌ Invalid notation format:', notation);
+    return null;
+  }
+  
+  const [from, to] = parts;
+  console.log('📍 Move Coordinates:', { from, to });
+  
+  // Validate square notation
+  if (!/^[a-h][1-8]$/.test(from) || !/^[a-h][1-8]$/.test(to)) {
+    console.error('❌ Invalid square notation:', { from, to });
+    return null;
+  }
+  
+  const [fromRow, fromCol] = positionToCoords(from);
+  const [toRow, toCol] = positionToCoords(to);
+  
+  console.log('🎯 Board Indices:', {
+    from: { row: fromRow, col: fromCol },
+    to: { row: toRow, col: toCol }
+  });
+  
+  // Validate board indices
+  if (fromRow < 0 || fromRow > 7 || fromCol < 0 || fromCol > 7 ||
+      toRow < 0 || toRow > 7 || toCol < 0 || toCol > 7) {
+    console.error('❌ Invalid board indices');
+    return null;
+  }
+  
+  const piece = position.board[fromRow]?.[fromCol];
+  const captured = getCapturedPiece(position, from, to);
+  
+  console.log('♟️ Piece Information:', {
+    piece: piece ? `${piece.color} ${piece.type}` : 'none',
+    captured: captured ? `${captured.color} ${captured.type}` : 'none'
+  });
+  
+  if (!piece) {
+    console.error('❌ No piece found at source square:', from);
+    return null;
+  }
+  
+  const move: Move = {
+    from,
+    to,
+    piece,
+    captured: captured || undefined,
+    timestamp: Date.now(),
+    notation
+  };
+  
+  console.log('✅ Move Object Created:', move);
+  return move;
+};
+
+const createFallbackMove = async (
+  legalMoves: string[],
+  position: Position,
+  message: string,
+  aiName?: string
+): Promise<LLMMoveResponse> => {
+  console.log('🚨 Creating Legal Fallback Move:', {
+    legalMovesCount: legalMoves.length,
+    message,
+    aiName
+  });
+  
+  // Let the local engine pick the move; a short search keeps the fallback responsive
+  const engineResult = await searchInBackground(position, { timeLimitMs: FALLBACK_ENGINE_TIME_MS });
+  const fallbackMove = engineResult
+    ? `${engineResult.from}-${engineResult.to}`
+    : legalMoves[Math.floor(Math.random() * legalMoves.length)];
+  console.log('🤖 Selected Engine Fallback Move:', fallbackMove);
+  
+  const move = createMoveFromNotation(fallbackMove, position);
+  
+  const response = {
+    move,
+    chatMessage: message,
+    aiName: aiName || 'ChessBot-RuleEnforced',
+    promotionPiece: engineResult?.promotion
+  };
+  
+  console.log('✅ Legal Fallback Response Created:', response);
+  return response;
+};
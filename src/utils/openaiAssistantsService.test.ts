@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockLLMServer, startMockLLMServer } from '../../scripts/mockLLMServer';
+import { saveLLMApiKey, setLLMBaseUrl } from './chessLLMProviders';
+import { createPromotingMoveReplySchema } from './chessLLMSchemas';
+import { createInitialPosition } from './chessLogic';
+import { parseFEN } from './chessNotation';
+import { getAllLegalMoves } from './chessRuleEnforcement';
+import { createChessAssistant, createGameThread, getAssistantChessMove, sendChatToAssistant } from './openaiAssistantsService';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+};
+
+describe('openaiAssistantsService against the mock LLM server', () => {
+  let server: MockLLMServer;
+
+  beforeAll(async () => {
+    server = await startMockLLMServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', createStorage());
+    saveLLMApiKey('openai', 'test-key');
+    setLLMBaseUrl('openai', server.url);
+  });
+
+  it('plays and chats on an assistant thread', async () => {
+    const start = createInitialPosition();
+    const assistant = await createChessAssistant('gpt-4o');
+    expect(assistant.id).toMatch(/^asst_mock_/);
+    const threadId = await createGameThread(assistant.id, { gameMode: 'human-vs-ai', playerColor: 'black' });
+    expect(threadId).toMatch(/^thread_mock_/);
+
+    server.script(['legal']);
+    const result = await getAssistantChessMove(assistant.id, threadId, start, []);
+    expect(getAllLegalMoves(start)).toContain(result?.move?.notation);
+    expect(result?.chatMessage).toMatch(/^Mock legal move/);
+    const submitted = server.requests.find(request => request.path.endsWith('/submit_tool_outputs'));
+    expect(submitted?.body?.tool_outputs?.[0].output).toMatch(/^Move .* played\.$/);
+
+    expect(await sendChatToAssistant(assistant.id, threadId, 'Nice opening!')).toBe('Mock reply.');
+  });
+
+  it('takes the promotion piece from the tool call', async () => {
+    const assistant = await createChessAssistant('gpt-4o');
+    const threadId = await createGameThread(assistant.id, { gameMode: 'human-vs-ai', playerColor: 'black' });
+    const promotion = parseFEN('7k/P7/8/8/8/8/8/K7 w - - 0 1');
+    const run = () => server.requests.filter(request => request.path.endsWith('/runs')).pop();
+
+    server.script(['legal']);
+    const result = await getAssistantChessMove(assistant.id, threadId, promotion, []);
+    expect(result?.move?.notation).toBe('a7-a8');
+    expect(result?.promotionPiece).toBe('knight');
+    expect(run().body.tools[0].function.parameters.properties.promotionPiece).toBeDefined();
+
+    server.script(['legal']);
+    const quiet = await getAssistantChessMove(assistant.id, threadId, createInitialPosition(), []);
+    expect(quiet?.promotionPiece).toBeUndefined();
+
+    const unnamed = createPromotingMoveReplySchema(['a7-a8'], ['a7-a8']).safeParse({ move: 'a7-a8', chatMessage: 'Queening.' });
+    expect(unnamed.success).toBe(false);
+  });
+
+  it('rejects an illegal tool call and leaves the move to the engine', async () => {
+    const assistant = await createChessAssistant('gpt-4o');
+    const threadId = await createGameThread(assistant.id, { gameMode: 'human-vs-ai', playerColor: 'black' });
+
+    server.script(['illegal']);
+    expect(await getAssistantChessMove(assistant.id, threadId, createInitialPosition(), [])).toBeNull();
+    const submitted = server.requests.filter(request => request.path.endsWith('/submit_tool_outputs')).pop();
+    expect(submitted?.body?.tool_outputs?.[0].output).toContain('Move rejected: move: Invalid enum value');
+  });
+});
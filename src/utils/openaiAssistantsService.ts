@@ -1,6 +1,10 @@
 
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
+import { ChessPiece, Move, PieceType, Position } from '@/types/chess';
 import { getAllLegalMoves, validateGameState } from './chessRuleEnforcement';
+import { getCapturedPiece, isPawnPromotion } from './chessLogic';
+import { generateFEN, convertToSAN } from './chessNotation';
+import { getLLMApiKey, getLLMBaseUrl, LLM_OPPONENTS, LLM_REQUEST_TIMEOUT_MS } from './chessLLMProviders';
+import { createPromotingMoveOutput, createPromotingMoveReplySchema, describeReplyError } from './chessLLMSchemas';
 
 interface AssistantConfig {
   name: string;
@@ -20,10 +24,12 @@ interface AssistantResponse {
   move: Move | null;
   chatMessage: string;
   analysis?: string;
+  promotionPiece?: PieceType;
   threadId: string;
 }
 
-const OPENAI_API_URL = 'https://api.openai.com/v1';
+// Follows the OpenAI base URL, so a local stand-in server can take the assistant's place
+const getApiUrl = () => getLLMBaseUrl({ provider: 'openai' });
 
 // Chess tool definitions for function calling
 const CHESS_TOOLS = [
@@ -75,7 +81,7 @@ const CHESS_TOOLS = [
   }
 ];
 
-// Assistant configurations for different chess personalities
+// Only OpenAI runs assistants; Claude and Gemini play through their own providers in chessLLMProviders
 const ASSISTANT_CONFIGS: Record<string, AssistantConfig> = {
   'gpt-4o': {
     name: 'ChessGPT Master',
@@ -103,51 +109,7 @@ Communication style:
 - Keep responses conversational but informative
 
 Always follow chess rules strictly and never suggest illegal moves.`,
-    model: 'gpt-4o',
-    tools: CHESS_TOOLS
-  },
-  'claude': {
-    name: 'Claude Chess Mentor',
-    instructions: `You are Claude, an AI chess mentor focused on thoughtful, strategic play and chess education.
-
-Your personality: Thoughtful, patient, and philosophically inclined. You see chess as an art form and enjoy discussing the deeper aspects of the game.
-
-Approach to chess:
-- Favor positional understanding over tactical complications
-- Emphasize long-term planning and strategic concepts
-- Appreciate elegant, harmonious piece coordination
-- Value solid, sound play over risky attacks
-
-Your teaching style:
-- Draw connections between chess and life lessons
-- Explain the "why" behind moves, not just the "what"
-- Encourage pattern recognition and intuitive understanding
-- Use analogies and metaphors to explain complex concepts
-
-Always maintain a supportive, encouraging tone while playing at a strong level.`,
-    model: 'gpt-4o',
-    tools: CHESS_TOOLS
-  },
-  'gemini': {
-    name: 'Gemini Chess Explorer',
-    instructions: `You are Gemini, an innovative AI chess player who loves exploring creative and unconventional approaches to chess.
-
-Your personality: Creative, experimental, and energetic. You enjoy finding surprising moves and unconventional solutions.
-
-Chess style:
-- Look for creative, unexpected moves
-- Enjoy tactical complications and sharp positions
-- Willing to sacrifice material for dynamic compensation
-- Appreciate beautiful combinations and artistic play
-
-Your approach:
-- Think outside the box while respecting chess principles
-- Find the most interesting move when multiple good options exist
-- Explain creative ideas and alternative possibilities
-- Encourage imaginative thinking about positions
-
-Maintain high energy and enthusiasm while providing strong chess play.`,
-    model: 'gpt-4o',
+    model: LLM_OPPONENTS['gpt-4o'].model,
     tools: CHESS_TOOLS
   }
 };
@@ -155,7 +117,7 @@ Maintain high energy and enthusiasm while providing strong chess play.`,
 export const createChessAssistant = async (assistantType: string): Promise<ChessAssistant> => {
   console.log('🤖 Creating Chess Assistant:', assistantType);
   
-  const apiKey = localStorage.getItem('openai_api_key');
+  const apiKey = getLLMApiKey('openai');
   
   if (!apiKey) {
     console.log('⚠️ No API key found, using simulated assistant');
@@ -172,7 +134,7 @@ export const createChessAssistant = async (assistantType: string): Promise<Chess
       throw new Error(`Unknown assistant type: ${assistantType}`);
     }
 
-    const response = await fetch(`${OPENAI_API_URL}/assistants`, {
+    const response = await fetch(`${getApiUrl()}/assistants`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -212,7 +174,7 @@ export const createChessAssistant = async (assistantType: string): Promise<Chess
 export const createGameThread = async (assistantId: string, gameSetup: any): Promise<string> => {
   console.log('🧵 Creating game thread for assistant:', assistantId);
   
-  const apiKey = localStorage.getItem('openai_api_key');
+  const apiKey = getLLMApiKey('openai');
   
   if (!apiKey || assistantId.startsWith('simulated') || assistantId.startsWith('fallback')) {
     console.log('⚠️ Using simulated thread');
@@ -220,7 +182,7 @@ export const createGameThread = async (assistantId: string, gameSetup: any): Pro
   }
 
   try {
-    const response = await fetch(`${OPENAI_API_URL}/threads`, {
+    const response = await fetch(`${getApiUrl()}/threads`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -249,16 +211,17 @@ export const createGameThread = async (assistantId: string, gameSetup: any): Pro
   }
 };
 
+// Resolves with null when the assistant fails to play a legal move, leaving the move to the local engine
 export const getAssistantChessMove = async (
   assistantId: string,
   threadId: string,
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   gameHistory: Move[]
-): Promise<AssistantResponse> => {
+): Promise<AssistantResponse | null> => {
+  const { board, turn: color } = position;
   console.log('🎯 Getting assistant chess move:', { assistantId, threadId, color });
   
-  const gameValidation = validateGameState(board, color);
+  const gameValidation = validateGameState(position);
   const legalMoves = gameValidation.legalMoves;
   
   if (gameValidation.gameOver) {
@@ -273,18 +236,18 @@ export const getAssistantChessMove = async (
     };
   }
 
-  const apiKey = localStorage.getItem('openai_api_key');
+  const apiKey = getLLMApiKey('openai');
   
   if (!apiKey || assistantId.startsWith('simulated') || assistantId.startsWith('fallback')) {
     console.log('⚠️ Using simulated assistant response');
-    return simulateAssistantMove(assistantId, board, color, legalMoves, threadId);
+    return simulateAssistantMove(position, legalMoves, threadId);
   }
 
   try {
     // Create position description
-    const positionFEN = boardToFEN(board);
+    const positionFEN = generateFEN(position);
     const gamePhase = determineGamePhase(board);
-    const moveHistory = gameHistory.map(m => m.notation).join(' ');
+    const moveHistory = convertToSAN(gameHistory);
     
     const contextMessage = `Current position (${color} to move):
 FEN: ${positionFEN}
@@ -295,7 +258,7 @@ Move history: ${moveHistory}
 Please analyze this position and suggest your best move. Explain your thinking and provide engaging commentary about the position.`;
 
     // Add message to thread
-    await fetch(`${OPENAI_API_URL}/threads/${threadId}/messages`, {
+    await fetch(`${getApiUrl()}/threads/${threadId}/messages`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -308,8 +271,13 @@ Please analyze this position and suggest your best move. Explain your thinking a
       })
     });
 
-    // Run the assistant
-    const runResponse = await fetch(`${OPENAI_API_URL}/threads/${threadId}/runs`, {
+    // Run the assistant, which must answer by calling play_move with one of the legal moves
+    const moveOutput = createPromotingMoveOutput(legalMoves);
+    const promotingMoves = legalMoves.filter(notation => {
+      const move = createMoveFromNotation(notation, position);
+      return move && isPawnPromotion(move.from, move.to, move.piece);
+    });
+    const runResponse = await fetch(`${getApiUrl()}/threads/${threadId}/runs`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -318,46 +286,59 @@ Please analyze this position and suggest your best move. Explain your thinking a
       },
       body: JSON.stringify({
         assistant_id: assistantId,
-        instructions: `You must suggest a legal chess move from this list: ${legalMoves.join(', ')}. 
-        Format your response to clearly indicate your chosen move.`
-      })
+        instructions: `Choose your move by calling ${moveOutput.name} with a move from this list, exactly as written: ${legalMoves.join(', ')}. 
+        Put your commentary on the position in its chatMessage. If the move promotes a pawn, set promotionPiece.`,
+        tools: [{
+          type: 'function',
+          function: { name: moveOutput.name, description: moveOutput.description, parameters: moveOutput.schema, strict: true }
+        }],
+        tool_choice: { type: 'function', function: { name: moveOutput.name } },
+        parallel_tool_calls: false
+      }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
     });
 
+    if (!runResponse.ok) {
+      throw new Error(`Failed to start run: ${runResponse.status} ${runResponse.statusText}`);
+    }
+
     const run = await runResponse.json();
     
-    // Poll for completion
-    let runStatus = await pollRunCompletion(apiKey, threadId, run.id);
+    // Poll until the run stops to call the tool
+    const runStatus = await pollRunCompletion(apiKey, threadId, run.id);
+    const toolCall = runStatus.required_action?.submit_tool_outputs?.tool_calls?.[0];
     
-    if (runStatus.status === 'completed') {
-      // Get the assistant's response
-      const messagesResponse = await fetch(`${OPENAI_API_URL}/threads/${threadId}/messages`, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'OpenAI-Beta': 'assistants=v2'
-        }
-      });
-      
-      const messages = await messagesResponse.json();
-      const assistantMessage = messages.data[0];
-      const responseText = assistantMessage.content[0].text.value;
-      
-      // Extract move from response
-      const move = extractMoveFromResponse(responseText, legalMoves, board);
-      
-      console.log('✅ Assistant response received:', { move: move?.notation, responseText });
-      
-      return {
-        move,
-        chatMessage: responseText,
-        analysis: responseText,
-        threadId
-      };
-    } else {
-      throw new Error(`Run failed with status: ${runStatus.status}`);
+    if (runStatus.status !== 'requires_action' || !toolCall) {
+      throw new Error(`Run ended without a move, status: ${runStatus.status}`);
+    }
+    
+    const validation = createPromotingMoveReplySchema(legalMoves, promotingMoves).safeParse(parseToolArguments(toolCall.function.arguments));
+    
+    // The run waits on the tool output either way; tell the assistant whether its move stood
+    await submitToolOutput(apiKey, threadId, run.id, toolCall.id, validation.success
+      ? `Move ${validation.data.move} played.`
+      : `Move rejected: ${describeReplyError(validation.error)}`);
+    
+    if (!validation.success) {
+      throw new Error(`Assistant chose an invalid move: ${describeReplyError(validation.error)}`);
     }
+    
+    const { move: moveNotation, chatMessage } = validation.data;
+    const move = createMoveFromNotation(moveNotation, position);
+    const promotionPiece = promotingMoves.includes(moveNotation) ? validation.data.promotionPiece : undefined;
+    
+    console.log('✅ Assistant move received:', { move: move?.notation, promotionPiece, chatMessage });
+    
+    return {
+      move,
+      chatMessage,
+      analysis: chatMessage,
+      promotionPiece,
+      threadId
+    };
   } catch (error) {
     console.error('❌ Assistant move failed:', error);
-    return simulateAssistantMove(assistantId, board, color, legalMoves, threadId);
+    return null;
   }
 };
 
@@ -368,15 +349,15 @@ export const sendChatToAssistant = async (
 ): Promise<string> => {
   console.log('💬 Sending chat to assistant:', { assistantId, threadId, userMessage });
   
-  const apiKey = localStorage.getItem('openai_api_key');
+  const apiKey = getLLMApiKey('openai');
   
   if (!apiKey || assistantId.startsWith('simulated') || assistantId.startsWith('fallback')) {
-    return simulateChatResponse(assistantId, userMessage);
+    return simulateChatResponse();
   }
 
   try {
     // Add user message to thread
-    await fetch(`${OPENAI_API_URL}/threads/${threadId}/messages`, {
+    await fetch(`${getApiUrl()}/threads/${threadId}/messages`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -390,7 +371,7 @@ export const sendChatToAssistant = async (
     });
 
     // Run the assistant
-    const runResponse = await fetch(`${OPENAI_API_URL}/threads/${threadId}/runs`, {
+    const runResponse = await fetch(`${getApiUrl()}/threads/${threadId}/runs`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -399,14 +380,19 @@ export const sendChatToAssistant = async (
       },
       body: JSON.stringify({
         assistant_id: assistantId
-      })
+      }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
     });
 
+    if (!runResponse.ok) {
+      throw new Error(`Failed to start chat run: ${runResponse.status} ${runResponse.statusText}`);
+    }
+
     const run = await runResponse.json();
     const runStatus = await pollRunCompletion(apiKey, threadId, run.id);
     
     if (runStatus.status === 'completed') {
-      const messagesResponse = await fetch(`${OPENAI_API_URL}/threads/${threadId}/messages`, {
+      const messagesResponse = await fetch(`${getApiUrl()}/threads/${threadId}/messages`, {
         headers: {
           'Authorization': `Bearer ${apiKey}`,
           'OpenAI-Beta': 'assistants=v2'
@@ -421,14 +407,49 @@ export const sendChatToAssistant = async (
     }
   } catch (error) {
     console.error('❌ Chat failed:', error);
-    return simulateChatResponse(assistantId, userMessage);
+    return simulateChatResponse();
+  }
+};
+
+// Adds a note to the thread without running the assistant, so it reads it before its next move.
+// Used when moves are taken back so the thread's picture of the game matches the board.
+export const addThreadNote = async (
+  assistantId: string,
+  threadId: string,
+  note: string
+): Promise<void> => {
+  const apiKey = getLLMApiKey('openai');
+
+  if (!apiKey || assistantId.startsWith('simulated') || assistantId.startsWith('fallback')) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`${getApiUrl()}/threads/${threadId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'OpenAI-Beta': 'assistants=v2'
+      },
+      body: JSON.stringify({
+        role: 'user',
+        content: note
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to add thread note: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('❌ Thread note failed:', error);
   }
 };
 
 // Helper functions
 const pollRunCompletion = async (apiKey: string, threadId: string, runId: string, maxAttempts = 30) => {
   for (let i = 0; i < maxAttempts; i++) {
-    const response = await fetch(`${OPENAI_API_URL}/threads/${threadId}/runs/${runId}`, {
+    const response = await fetch(`${getApiUrl()}/threads/${threadId}/runs/${runId}`, {
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'OpenAI-Beta': 'assistants=v2'
@@ -437,7 +458,7 @@ const pollRunCompletion = async (apiKey: string, threadId: string, runId: string
     
     const run = await response.json();
     
-    if (run.status === 'completed' || run.status === 'failed' || run.status === 'cancelled') {
+    if (['completed', 'requires_action', 'failed', 'cancelled', 'expired'].includes(run.status)) {
       return run;
     }
     
@@ -447,32 +468,46 @@ const pollRunCompletion = async (apiKey: string, threadId: string, runId: string
   throw new Error('Run polling timeout');
 };
 
-const extractMoveFromResponse = (response: string, legalMoves: string[], board: (ChessPiece | null)[][]): Move | null => {
-  // Look for moves in the response text
-  for (const moveNotation of legalMoves) {
-    if (response.includes(moveNotation)) {
-      return createMoveFromNotation(moveNotation, board);
-    }
+// Tool arguments that are not JSON go on to validation as they are, so the rejection says why
+const parseToolArguments = (args: string): unknown => {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
   }
-  
-  // Fallback to first legal move
-  if (legalMoves.length > 0) {
-    return createMoveFromNotation(legalMoves[0], board);
+};
+
+const submitToolOutput = async (apiKey: string, threadId: string, runId: string, toolCallId: string, output: string) => {
+  const response = await fetch(`${getApiUrl()}/threads/${threadId}/runs/${runId}/submit_tool_outputs`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'OpenAI-Beta': 'assistants=v2'
+    },
+    body: JSON.stringify({
+      tool_outputs: [{ tool_call_id: toolCallId, output }]
+    }),
+    signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to submit tool output: ${response.status} ${response.statusText}`);
   }
-  
-  return null;
+
+  // Let the run finish so the thread takes new messages
+  await pollRunCompletion(apiKey, threadId, runId);
 };
 
-const createMoveFromNotation = (notation: string, board: (ChessPiece | null)[][]): Move | null => {
+const createMoveFromNotation = (notation: string, position: Position): Move | null => {
   const parts = notation.split('-');
   if (parts.length !== 2) return null;
   
   const [from, to] = parts;
   const [fromCol, fromRow] = [from.charCodeAt(0) - 97, 8 - parseInt(from[1])];
-  const [toCol, toRow] = [to.charCodeAt(0) - 97, 8 - parseInt(to[1])];
   
-  const piece = board[fromRow]?.[fromCol];
-  const captured = board[toRow]?.[toCol];
+  const piece = position.board[fromRow]?.[fromCol];
+  const captured = getCapturedPiece(position, from, to);
   
   if (!piece) return null;
   
@@ -486,36 +521,6 @@ const createMoveFromNotation = (notation: string, board: (ChessPiece | null)[][]
   };
 };
 
-const boardToFEN = (board: (ChessPiece | null)[][]): string => {
-  const pieceSymbols = {
-    white: { king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: 'P' },
-    black: { king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p' }
-  };
-  
-  return board.map(row => {
-    let rowString = '';
-    let emptyCount = 0;
-    
-    row.forEach(piece => {
-      if (piece) {
-        if (emptyCount > 0) {
-          rowString += emptyCount;
-          emptyCount = 0;
-        }
-        rowString += pieceSymbols[piece.color][piece.type];
-      } else {
-        emptyCount++;
-      }
-    });
-    
-    if (emptyCount > 0) {
-      rowString += emptyCount;
-    }
-    
-    return rowString;
-  }).join('/');
-};
-
 const determineGamePhase = (board: (ChessPiece | null)[][]): 'opening' | 'middlegame' | 'endgame' => {
   let pieceCount = 0;
   let majorPieces = 0;
@@ -538,39 +543,22 @@ const determineGamePhase = (board: (ChessPiece | null)[][]): 'opening' | 'middle
 
 // Simulation functions for when API is not available
 const simulateAssistantMove = async (
-  assistantId: string,
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   legalMoves: string[],
   threadId: string
 ): Promise<AssistantResponse> => {
   await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 3000));
   
   const selectedMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
-  const move = createMoveFromNotation(selectedMove, board);
-  
-  const personality = assistantId.includes('claude') ? 'thoughtful' : 
-                     assistantId.includes('gemini') ? 'creative' : 'analytical';
+  const move = createMoveFromNotation(selectedMove, position);
   
-  const messages = {
-    thoughtful: [
-      "After careful consideration, I believe this move maintains the harmony of my position.",
-      "This move follows sound positional principles while keeping my pieces well-coordinated.",
-      "A solid choice that improves my position gradually and systematically."
-    ],
-    creative: [
-      "Here's an interesting move that creates some dynamic possibilities!",
-      "I'm going for something a bit unconventional here - let's see what happens!",
-      "This move opens up some fascinating tactical possibilities."
-    ],
-    analytical: [
-      "After analyzing the position, this move offers the best practical chances.",
-      "My calculation shows this move leads to a favorable position.",
-      "This is the most precise move in the current position."
-    ]
-  };
+  const messages = [
+    "After analyzing the position, this move offers the best practical chances.",
+    "My calculation shows this move leads to a favorable position.",
+    "This is the most precise move in the current position."
+  ];
   
-  const chatMessage = messages[personality][Math.floor(Math.random() * messages[personality].length)];
+  const chatMessage = messages[Math.floor(Math.random() * messages.length)];
   
   return {
     move,
@@ -579,27 +567,12 @@ const simulateAssistantMove = async (
   };
 };
 
-const simulateChatResponse = (assistantId: string, userMessage: string): string => {
-  const personality = assistantId.includes('claude') ? 'thoughtful' : 
-                     assistantId.includes('gemini') ? 'creative' : 'analytical';
-  
-  const responses = {
-    thoughtful: [
-      "That's a fascinating perspective on the position. Chess really is a beautiful art form.",
-      "I appreciate your thoughtful approach to the game. What are you thinking about next?",
-      "Your question touches on some deep chess principles. Let me share my thoughts..."
-    ],
-    creative: [
-      "Wow, that's an exciting way to look at it! I love exploring new ideas in chess.",
-      "You're thinking outside the box - that's exactly the kind of creativity chess needs!",
-      "That opens up so many interesting possibilities! What's your plan?"
-    ],
-    analytical: [
-      "Good question! Let me break down the key factors in this position.",
-      "From a technical standpoint, the critical elements to consider are...",
-      "Your observation is quite accurate. The position requires precise calculation."
-    ]
-  };
+const simulateChatResponse = (): string => {
+  const responses = [
+    "Good question! Let me break down the key factors in this position.",
+    "From a technical standpoint, the critical elements to consider are...",
+    "Your observation is quite accurate. The position requires precise calculation."
+  ];
   
-  return responses[personality][Math.floor(Math.random() * responses[personality].length)];
+  return responses[Math.floor(Math.random() * responses.length)];
 };
@@ -1,15 +1,15 @@
 
-import { ChessPiece, PieceColor, Move } from '@/types/chess';
-import { getAllValidMoves, positionToCoords, analyzeBoardState, isCheckmate, isStalemate } from './chessLogic';
+import { ChessPiece, PieceColor, Move, Position } from '@/types/chess';
+import { getAllValidMoves, positionToCoords, analyzeBoardState, isCheckmate, isStalemate, getCapturedPiece } from './chessLogic';
 
 export const getOpenAIMove = async (
-  board: (ChessPiece | null)[][],
-  color: PieceColor,
+  position: Position,
   gameHistory: Move[],
   opponentName: string = 'Player',
   currentAiName?: string
 ): Promise<{ move: Move | null; chatMessage: string; aiName?: string }> => {
-  const validMoves = getAllValidMoves(board, color);
+  const { board, turn: color } = position;
+  const validMoves = getAllValidMoves(position);
   
   if (validMoves.length === 0) {
     return { move: null, chatMessage: '' };
@@ -17,14 +17,14 @@ export const getOpenAIMove = async (
   
   try {
     // Comprehensive board analysis
-    const boardAnalysis = analyzeBoardState(board, color);
-    const opponentAnalysis = analyzeBoardState(board, color === 'white' ? 'black' : 'white');
+    const boardAnalysis = analyzeBoardState(position);
+    const opponentAnalysis = analyzeBoardState(position, color === 'white' ? 'black' : 'white');
     const gameMoves = gameHistory.map(move => move.notation);
     const gamePhase = determineGamePhase(gameHistory.length, board);
     
     // Check for special game states
-    const isCheckmate_ = isCheckmate(board, color);
-    const isStalemate_ = isStalemate(board, color);
+    const isCheckmate_ = isCheckmate(position);
+    const isStalemate_ = isStalemate(position);
     
     if (isCheckmate_) {
       return { move: null, chatMessage: `Checkmate! ${opponentName} wins!` };
@@ -75,8 +75,7 @@ export const getOpenAIMove = async (
     const [from, to] = response.move.split('-');
     const [fromRow, fromCol] = positionToCoords(from);
     const piece = board[fromRow][fromCol];
-    const [toRow, toCol] = positionToCoords(to);
-    const captured = board[toRow][toCol];
+    const captured = getCapturedPiece(position, from, to);
     
     if (!piece) {
       console.error('❌ No piece found at source square after validation');
@@ -101,14 +100,13 @@ export const getOpenAIMove = async (
     console.error('💥 OpenAI move generation failed:', error);
     
     // Enhanced fallback with board analysis
-    const boardAnalysis = analyzeBoardState(board, color);
+    const boardAnalysis = analyzeBoardState(position);
     const intelligentMove = selectBestMove(validMoves, boardAnalysis, determineGamePhase(gameHistory.length, board));
     const [from, to] = intelligentMove.split('-');
     
     const [fromRow, fromCol] = positionToCoords(from);
     const piece = board[fromRow][fromCol];
-    const [toRow, toCol] = positionToCoords(to);
-    const captured = board[toRow][toCol];
+    const captured = getCapturedPiece(position, from, to);
     
     if (!piece) return { move: null, chatMessage: '' };
     
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInitialPosition, makeMove } from './chessLogic';
+import { loadSavedGames, removeLocalSnapshot, restoreSnapshotPositions, saveGameSnapshot, SavedGameSnapshot, toSnapshotPositions } from './savedGames';
+
+const { upsert, remoteRows, getSession } = vi.hoisted(() => ({
+  upsert: vi.fn(),
+  remoteRows: { data: [] as { id: string; game_data: unknown }[] },
+  getSession: vi.fn()
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    is: () => query,
+    order: () => query,
+    limit: async () => ({ data: remoteRows.data, error: null })
+  };
+  return {
+    supabase: {
+      from: () => ({ upsert, ...query }),
+      auth: { getSession }
+    }
+  };
+});
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  };
+};
+
+const start = createInitialPosition();
+const afterE4 = makeMove(start, 'e2', 'e4');
+
+const snapshot = (id: string, updatedAt: number): SavedGameSnapshot => ({
+  id,
+  board: 'human-vs-ai',
+  gameMode: 'human-vs-ai',
+  opponent1Type: 'human',
+  opponent2Type: 'engine',
+  playerColor: 'white',
+  whiteName: 'Player',
+  blackName: 'Local Engine',
+  ...toSnapshotPositions(start, afterE4, [start]),
+  moves: [{ from: 'e2', to: 'e4', piece: start.board[6][4], timestamp: 1, notation: 'e2-e4', san: 'e4' }],
+  gameTime: 12,
+  updatedAt
+});
+
+describe('savedGames', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', createStorage());
+    upsert.mockReset();
+    upsert.mockResolvedValue({ error: null });
+    getSession.mockResolvedValue({ data: { session: null } });
+    remoteRows.data = [];
+  });
+
+  it('round-trips positions through FEN', () => {
+    const restored = restoreSnapshotPositions(snapshot('a', 1));
+    expect(restored.position).toEqual(afterE4);
+    expect(restored.startPosition).toEqual(start);
+    expect(restored.positionHistory).toEqual([start]);
+  });
+
+  it('saves locally and replaces earlier saves of the same game', async () => {
+    await saveGameSnapshot(snapshot('a', 1));
+    await saveGameSnapshot(snapshot('b', 2));
+    await saveGameSnapshot({ ...snapshot('a', 3), gameTime: 30 });
+
+    const games = await loadSavedGames();
+    expect(games.map(game => game.id)).toEqual(['a', 'b']);
+    expect(games[0].gameTime).toBe(30);
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('also saves remotely when signed in', async () => {
+    getSession.mockResolvedValue({ data: { session: { user: { id: 'user-1' } } } });
+    await saveGameSnapshot(snapshot('a', 1));
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'a', user_id: 'user-1', moves_count: 1 }));
+  });
+
+  it('keeps the newest copy when a game is saved both locally and remotely', async () => {
+    await saveGameSnapshot(snapshot('a', 1));
+    remoteRows.data = [
+      { id: 'a', game_data: { snapshot: { ...snapshot('a', 5), gameTime: 99 } } },
+      { id: 'c', game_data: { snapshot: snapshot('c', 2) } }
+    ];
+
+    const games = await loadSavedGames('user-1');
+    expect(games.map(game => game.id)).toEqual(['a', 'c']);
+    expect(games[0].gameTime).toBe(99);
+  });
+
+  it('forgets a game once it has finished', async () => {
+    await saveGameSnapshot(snapshot('a', 1));
+    removeLocalSnapshot('a');
+    expect(await loadSavedGames()).toEqual([]);
+  });
+});
@@ -0,0 +1,166 @@
+import { GameMode, Move, PieceColor, Position } from '@/types/chess';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { generateFEN, parseFEN } from './chessNotation';
+import { ClockState } from './chessClock';
+
+// In-progress games are autosaved after every move: always to localStorage, and for signed-in
+// users to a `games` row with no finished_at. The finished game later overwrites that row.
+
+export interface SavedChatMessage {
+  id: string;
+  sender: 'human' | 'ai';
+  message: string;
+  timestamp: number;
+}
+
+export interface SavedCommentary {
+  id: string;
+  timestamp: number;
+  message: string;
+  type: 'move' | 'analysis' | 'event';
+  playerId?: string;
+}
+
+export interface SavedGameSnapshot {
+  id: string;
+  // Which board component restores the game
+  board: 'human-vs-ai' | 'ai-battle';
+  gameMode: GameMode;
+  opponent1Type: string;
+  opponent2Type: string;
+  playerColor?: PieceColor;
+  whiteName: string;
+  blackName: string;
+  startFen: string;
+  fen: string;
+  // FEN of every position before the current one, for repetition detection
+  positionHistory: string[];
+  moves: Move[];
+  gameTime: number;
+  chatMessages?: SavedChatMessage[];
+  assistantId?: string;
+  threadId?: string;
+  aiName?: string;
+  whitePlayerId?: string;
+  blackPlayerId?: string;
+  commentary?: SavedCommentary[];
+  // Saved stopped; absent for untimed games
+  clock?: ClockState;
+  casual?: boolean;
+  takebacksGranted?: number;
+  updatedAt: number;
+}
+
+const SAVED_GAMES_KEY = 'saved_games';
+const MAX_LOCAL_SAVED_GAMES = 10;
+
+export const toSnapshotPositions = (startPosition: Position, position: Position, positionHistory: Position[]) => ({
+  startFen: generateFEN(startPosition),
+  fen: generateFEN(position),
+  positionHistory: positionHistory.map(generateFEN)
+});
+
+export const restoreSnapshotPositions = (snapshot: SavedGameSnapshot) => ({
+  startPosition: parseFEN(snapshot.startFen),
+  position: parseFEN(snapshot.fen),
+  positionHistory: snapshot.positionHistory.map(fen => parseFEN(fen))
+});
+
+const readLocalGames = (): SavedGameSnapshot[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_GAMES_KEY) || '[]');
+  } catch (error) {
+    console.error('❌ Discarding unreadable saved games:', error);
+    return [];
+  }
+};
+
+const writeLocalGames = (games: SavedGameSnapshot[]) => {
+  if (games.length > 0) {
+    localStorage.setItem(SAVED_GAMES_KEY, JSON.stringify(games));
+  } else {
+    localStorage.removeItem(SAVED_GAMES_KEY);
+  }
+};
+
+const saveRemoteSnapshot = async (snapshot: SavedGameSnapshot) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const { error } = await supabase.from('games').upsert({
+    id: snapshot.id,
+    user_id: session.user.id,
+    game_mode: snapshot.gameMode,
+    opponent1_type: snapshot.opponent1Type,
+    opponent2_type: snapshot.opponent2Type,
+    player_color: snapshot.playerColor ?? null,
+    moves_count: snapshot.moves.length,
+    duration_seconds: snapshot.gameTime,
+    game_data: { snapshot } as unknown as Json
+  });
+
+  if (error) {
+    console.error('❌ Failed to autosave game remotely:', error);
+  }
+};
+
+export const saveGameSnapshot = async (snapshot: SavedGameSnapshot) => {
+  const others = readLocalGames().filter(game => game.id !== snapshot.id);
+  writeLocalGames([snapshot, ...others].slice(0, MAX_LOCAL_SAVED_GAMES));
+
+  try {
+    await saveRemoteSnapshot(snapshot);
+  } catch (error) {
+    // The local copy is enough to resume; the next move retries the remote save
+    console.error('❌ Failed to autosave game remotely:', error);
+  }
+};
+
+// Called once the game has finished; the finished record replaces the remote snapshot
+export const removeLocalSnapshot = (id: string) => {
+  writeLocalGames(readLocalGames().filter(game => game.id !== id));
+};
+
+export const discardSavedGame = async (id: string) => {
+  removeLocalSnapshot(id);
+
+  const { error } = await supabase.from('games').delete().eq('id', id).is('finished_at', null);
+  if (error) {
+    console.error('❌ Failed to discard saved game:', error);
+  }
+};
+
+const loadRemoteSnapshots = async (userId: string): Promise<SavedGameSnapshot[]> => {
+  const { data, error } = await supabase
+    .from('games')
+    .select('id, game_data')
+    .eq('user_id', userId)
+    .is('finished_at', null)
+    .order('created_at', { ascending: false })
+    .limit(MAX_LOCAL_SAVED_GAMES);
+
+  if (error) {
+    console.error('❌ Failed to load saved games:', error);
+    return [];
+  }
+
+  return (data || [])
+    .map(row => (row.game_data as unknown as { snapshot?: SavedGameSnapshot } | null)?.snapshot)
+    .filter((snapshot): snapshot is SavedGameSnapshot => !!snapshot);
+};
+
+// Local and remote copies of the same game are merged, keeping whichever was saved last
+export const loadSavedGames = async (userId?: string): Promise<SavedGameSnapshot[]> => {
+  const remote = userId ? await loadRemoteSnapshots(userId) : [];
+  const byId = new Map<string, SavedGameSnapshot>();
+
+  [...readLocalGames(), ...remote].forEach(snapshot => {
+    const existing = byId.get(snapshot.id);
+    if (!existing || existing.updatedAt < snapshot.updatedAt) {
+      byId.set(snapshot.id, snapshot);
+    }
+  });
+
+  return [...byId.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+};
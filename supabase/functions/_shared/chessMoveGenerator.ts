@@ -0,0 +1,380 @@
+// 0x88 move generator. Squares are row * 16 + col with row 0 being rank 8, matching the
+// Position board; any square with (square & 0x88) set is off the board, which makes
+// edge detection a single mask. Moves are made and unmade in place on one mutable
+// board instead of copying a Position per candidate.
+//
+// The app and the edge functions share it, so it imports nothing: the types below are the
+// parts of the app's chess types it reads, and the app's Position satisfies them.
+
+type PieceType = 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
+type PieceColor = 'white' | 'black';
+
+export interface GeneratorPosition {
+  readonly board: readonly (readonly ({ type: PieceType; color: PieceColor } | null)[])[];
+  readonly turn: PieceColor;
+  readonly castling: {
+    white: { kingside: boolean; queenside: boolean };
+    black: { kingside: boolean; queenside: boolean };
+  };
+  readonly enPassant: string | null;
+}
+
+// A piece code is its color bit OR'd with its type
+export const WHITE = 8;
+export const BLACK = 16;
+export const COLOR_MASK = WHITE | BLACK;
+export const TYPE_MASK = 7;
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+// Indexed by type code - 1
+export const PIECE_TYPES: PieceType[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+const PROMOTION_CODES = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const BISHOP_DIRECTIONS = [-17, -15, 15, 17];
+const ROOK_DIRECTIONS = [-16, -1, 1, 16];
+
+const WHITE_KINGSIDE = 1;
+const WHITE_QUEENSIDE = 2;
+const BLACK_KINGSIDE = 4;
+const BLACK_QUEENSIDE = 8;
+
+const E1 = 116;
+const E8 = 4;
+
+// Rights that survive a move touching each square; king and rook home squares clear theirs
+const CASTLING_MASK = new Array(128).fill(15);
+CASTLING_MASK[E1] = 15 & ~(WHITE_KINGSIDE | WHITE_QUEENSIDE);
+CASTLING_MASK[E1 + 3] = 15 & ~WHITE_KINGSIDE;
+CASTLING_MASK[E1 - 4] = 15 & ~WHITE_QUEENSIDE;
+CASTLING_MASK[E8] = 15 & ~(BLACK_KINGSIDE | BLACK_QUEENSIDE);
+CASTLING_MASK[E8 + 3] = 15 & ~BLACK_KINGSIDE;
+CASTLING_MASK[E8 - 4] = 15 & ~BLACK_QUEENSIDE;
+
+export const FLAG_EN_PASSANT = 1;
+export const FLAG_CASTLE = 2;
+export const FLAG_DOUBLE_PUSH = 4;
+
+export interface GeneratorState {
+  squares: Uint8Array;
+  turn: number;
+  castling: number;
+  enPassant: number;
+  kings: { [color: number]: number };
+}
+
+export interface GeneratedMove {
+  from: number;
+  to: number;
+  piece: number;
+  captured: number;
+  promotion: number;
+  flags: number;
+}
+
+export interface UndoInfo {
+  castling: number;
+  enPassant: number;
+}
+
+const toSquare = (name: string): number => (8 - parseInt(name[1])) * 16 + (name.charCodeAt(0) - 97);
+
+export const squareName = (square: number): string =>
+  `${String.fromCharCode(97 + (square & 7))}${8 - (square >> 4)}`;
+
+const colorCode = (color: PieceColor) => (color === 'white' ? WHITE : BLACK);
+
+export const createGeneratorState = (position: GeneratorPosition, turn: PieceColor = position.turn): GeneratorState => {
+  const squares = new Uint8Array(128);
+  const kings: { [color: number]: number } = { [WHITE]: -1, [BLACK]: -1 };
+
+  position.board.forEach((row, rowIndex) => {
+    row.forEach((piece, colIndex) => {
+      if (!piece) return;
+      const square = rowIndex * 16 + colIndex;
+      const code = colorCode(piece.color) | (PIECE_TYPES.indexOf(piece.type) + 1);
+      squares[square] = code;
+      if (piece.type === 'king') kings[colorCode(piece.color)] = square;
+    });
+  });
+
+  const { white, black } = position.castling;
+  const castling =
+    (white.kingside ? WHITE_KINGSIDE : 0) |
+    (white.queenside ? WHITE_QUEENSIDE : 0) |
+    (black.kingside ? BLACK_KINGSIDE : 0) |
+    (black.queenside ? BLACK_QUEENSIDE : 0);
+
+  return {
+    squares,
+    turn: colorCode(turn),
+    castling,
+    // The en passant square only belongs to the side whose turn it really is
+    enPassant: position.enPassant && turn === position.turn ? toSquare(position.enPassant) : -1,
+    kings
+  };
+};
+
+export const isSquareAttackedBy = (state: GeneratorState, square: number, byColor: number): boolean => {
+  const { squares } = state;
+
+  // A pawn attacks diagonally forward, so look one row back from its point of view
+  const pawnRow = byColor === WHITE ? 16 : -16;
+  for (const side of [-1, 1]) {
+    const from = square + pawnRow + side;
+    if (!(from & 0x88) && squares[from] === (byColor | PAWN)) return true;
+  }
+
+  for (const offset of KNIGHT_OFFSETS) {
+    const from = square + offset;
+    if (!(from & 0x88) && squares[from] === (byColor | KNIGHT)) return true;
+  }
+
+  for (const offset of KING_OFFSETS) {
+    const from = square + offset;
+    if (!(from & 0x88) && squares[from] === (byColor | KING)) return true;
+  }
+
+  for (const direction of BISHOP_DIRECTIONS) {
+    for (let from = square + direction; !(from & 0x88); from += direction) {
+      const piece = squares[from];
+      if (!piece) continue;
+      if ((piece & COLOR_MASK) === byColor && ((piece & TYPE_MASK) === BISHOP || (piece & TYPE_MASK) === QUEEN)) return true;
+      break;
+    }
+  }
+
+  for (const direction of ROOK_DIRECTIONS) {
+    for (let from = square + direction; !(from & 0x88); from += direction) {
+      const piece = squares[from];
+      if (!piece) continue;
+      if ((piece & COLOR_MASK) === byColor && ((piece & TYPE_MASK) === ROOK || (piece & TYPE_MASK) === QUEEN)) return true;
+      break;
+    }
+  }
+
+  return false;
+};
+
+export const isKingAttacked = (state: GeneratorState, color: number): boolean => {
+  const king = state.kings[color];
+  return king >= 0 && isSquareAttackedBy(state, king, color ^ COLOR_MASK);
+};
+
+const addPawnMove = (moves: GeneratedMove[], from: number, to: number, piece: number, captured: number, flags: number) => {
+  const row = to >> 4;
+  if (row === 0 || row === 7) {
+    PROMOTION_CODES.forEach(promotion => moves.push({ from, to, piece, captured, promotion, flags }));
+  } else {
+    moves.push({ from, to, piece, captured, promotion: 0, flags });
+  }
+};
+
+// Moves that follow the piece rules; castling already excludes passing through check
+export const generatePseudoLegalMoves = (state: GeneratorState): GeneratedMove[] => {
+  const { squares, turn: us } = state;
+  const them = us ^ COLOR_MASK;
+  const moves: GeneratedMove[] = [];
+
+  for (let from = 0; from < 128; from++) {
+    if (from & 0x88) {
+      from += 7;
+      continue;
+    }
+
+    const piece = squares[from];
+    if (!piece || (piece & COLOR_MASK) !== us) continue;
+    const type = piece & TYPE_MASK;
+
+    if (type === PAWN) {
+      const forward = us === WHITE ? -16 : 16;
+      const startRow = us === WHITE ? 6 : 1;
+      const one = from + forward;
+
+      if (!(one & 0x88) && !squares[one]) {
+        addPawnMove(moves, from, one, piece, 0, 0);
+        const two = one + forward;
+        if (from >> 4 === startRow && !squares[two]) {
+          moves.push({ from, to: two, piece, captured: 0, promotion: 0, flags: FLAG_DOUBLE_PUSH });
+        }
+      }
+
+      for (const side of [-1, 1]) {
+        const to = one + side;
+        if (to & 0x88) continue;
+        const target = squares[to];
+        if (target && (target & COLOR_MASK) === them) {
+          addPawnMove(moves, from, to, piece, target, 0);
+        } else if (to === state.enPassant) {
+          moves.push({ from, to, piece, captured: them | PAWN, promotion: 0, flags: FLAG_EN_PASSANT });
+        }
+      }
+      continue;
+    }
+
+    if (type === KNIGHT || type === KING) {
+      for (const offset of type === KNIGHT ? KNIGHT_OFFSETS : KING_OFFSETS) {
+        const to = from + offset;
+        if (to & 0x88) continue;
+        const target = squares[to];
+        if (!target || (target & COLOR_MASK) === them) {
+          moves.push({ from, to, piece, captured: target, promotion: 0, flags: 0 });
+        }
+      }
+      continue;
+    }
+
+    const directions = type === BISHOP ? BISHOP_DIRECTIONS : type === ROOK ? ROOK_DIRECTIONS : KING_OFFSETS;
+    for (const direction of directions) {
+      for (let to = from + direction; !(to & 0x88); to += direction) {
+        const target = squares[to];
+        if (target) {
+          if ((target & COLOR_MASK) === them) {
+            moves.push({ from, to, piece, captured: target, promotion: 0, flags: 0 });
+          }
+          break;
+        }
+        moves.push({ from, to, piece, captured: 0, promotion: 0, flags: 0 });
+      }
+    }
+  }
+
+  addCastlingMoves(state, moves);
+  return moves;
+};
+
+const addCastlingMoves = (state: GeneratorState, moves: GeneratedMove[]) => {
+  const { squares, turn: us } = state;
+  const them = us ^ COLOR_MASK;
+  const king = us === WHITE ? E1 : E8;
+  const kingside = us === WHITE ? WHITE_KINGSIDE : BLACK_KINGSIDE;
+  const queenside = us === WHITE ? WHITE_QUEENSIDE : BLACK_QUEENSIDE;
+
+  if (squares[king] !== (us | KING) || !(state.castling & (kingside | queenside))) return;
+  if (isSquareAttackedBy(state, king, them)) return;
+
+  if (
+    state.castling & kingside &&
+    squares[king + 3] === (us | ROOK) &&
+    !squares[king + 1] && !squares[king + 2] &&
+    !isSquareAttackedBy(state, king + 1, them) && !isSquareAttackedBy(state, king + 2, them)
+  ) {
+    moves.push({ from: king, to: king + 2, piece: us | KING, captured: 0, promotion: 0, flags: FLAG_CASTLE });
+  }
+
+  if (
+    state.castling & queenside &&
+    squares[king - 4] === (us | ROOK) &&
+    !squares[king - 1] && !squares[king - 2] && !squares[king - 3] &&
+    !isSquareAttackedBy(state, king - 1, them) && !isSquareAttackedBy(state, king - 2, them)
+  ) {
+    moves.push({ from: king, to: king - 2, piece: us | KING, captured: 0, promotion: 0, flags: FLAG_CASTLE });
+  }
+};
+
+export const applyMove = (state: GeneratorState, move: GeneratedMove): UndoInfo => {
+  const { squares } = state;
+  const undo: UndoInfo = { castling: state.castling, enPassant: state.enPassant };
+  const us = move.piece & COLOR_MASK;
+
+  squares[move.to] = move.promotion ? us | move.promotion : move.piece;
+  squares[move.from] = 0;
+
+  if (move.flags & FLAG_EN_PASSANT) {
+    squares[move.to + (us === WHITE ? 16 : -16)] = 0;
+  } else if (move.flags & FLAG_CASTLE) {
+    const [rookFrom, rookTo] = move.to > move.from ? [move.from + 3, move.from + 1] : [move.from - 4, move.from - 1];
+    squares[rookTo] = squares[rookFrom];
+    squares[rookFrom] = 0;
+  }
+
+  if ((move.piece & TYPE_MASK) === KING) state.kings[us] = move.to;
+
+  state.castling &= CASTLING_MASK[move.from] & CASTLING_MASK[move.to];
+  state.enPassant = move.flags & FLAG_DOUBLE_PUSH ? (move.from + move.to) / 2 : -1;
+  state.turn ^= COLOR_MASK;
+
+  return undo;
+};
+
+export const undoMove = (state: GeneratorState, move: GeneratedMove, undo: UndoInfo) => {
+  const { squares } = state;
+  const us = move.piece & COLOR_MASK;
+
+  squares[move.from] = move.piece;
+
+  if (move.flags & FLAG_EN_PASSANT) {
+    squares[move.to] = 0;
+    squares[move.to + (us === WHITE ? 16 : -16)] = move.captured;
+  } else {
+    squares[move.to] = move.captured;
+    if (move.flags & FLAG_CASTLE) {
+      const [rookFrom, rookTo] = move.to > move.from ? [move.from + 3, move.from + 1] : [move.from - 4, move.from - 1];
+      squares[rookFrom] = squares[rookTo];
+      squares[rookTo] = 0;
+    }
+  }
+
+  if ((move.piece & TYPE_MASK) === KING) state.kings[us] = move.from;
+
+  state.castling = undo.castling;
+  state.enPassant = undo.enPassant;
+  state.turn = us;
+};
+
+export const generateLegalMoves = (state: GeneratorState): GeneratedMove[] => {
+  const us = state.turn;
+  return generatePseudoLegalMoves(state).filter(move => {
+    const undo = applyMove(state, move);
+    const legal = !isKingAttacked(state, us);
+    undoMove(state, move, undo);
+    return legal;
+  });
+};
+
+// "e2-e4" strings in board scan order; the four promotion choices collapse into one entry
+const toNotations = (moves: GeneratedMove[]): string[] => {
+  const sorted = [...moves].sort((a, b) => a.from - b.from || a.to - b.to);
+  const notations: string[] = [];
+  sorted.forEach(move => {
+    const notation = `${squareName(move.from)}-${squareName(move.to)}`;
+    if (notations[notations.length - 1] !== notation) notations.push(notation);
+  });
+  return notations;
+};
+
+export const generateLegalMoveNotations = (position: GeneratorPosition): string[] =>
+  toNotations(generateLegalMoves(createGeneratorState(position)));
+
+export const generatePseudoLegalMoveNotations = (position: GeneratorPosition, color: PieceColor = position.turn): string[] =>
+  toNotations(generatePseudoLegalMoves(createGeneratorState(position, color)));
+
+export const isPositionInCheck = (position: GeneratorPosition, color: PieceColor = position.turn): boolean =>
+  isKingAttacked(createGeneratorState(position, color), colorCode(color));
+
+// Number of leaf nodes of the legal move tree; the standard correctness benchmark for move generators
+export const perft = (position: GeneratorPosition, depth: number): number => {
+  const state = createGeneratorState(position);
+
+  const countNodes = (remaining: number): number => {
+    const moves = generateLegalMoves(state);
+    if (remaining === 1) return moves.length;
+
+    let nodes = 0;
+    moves.forEach(move => {
+      const undo = applyMove(state, move);
+      nodes += countNodes(remaining - 1);
+      undoMove(state, move, undo);
+    });
+    return nodes;
+  };
+
+  return depth === 0 ? 1 : countNodes(depth);
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getUnratedReason, replayGame, verifyRatedResult } from './gameVerification';
+
+const toMoves = (notations: string[]) => notations.map(notation => {
+  const [from, to] = notation.split('-');
+  return { from, to };
+});
+
+const FOOLS_MATE = toMoves(['f2-f3', 'e7-e5', 'g2-g4', 'd8-h4']);
+const KNIGHT_SHUFFLE = toMoves(['g1-f3', 'g8-f6', 'f3-g1', 'f6-g8', 'g1-f3', 'g8-f6', 'f3-g1', 'f6-g8']);
+
+describe('gameVerification', () => {
+  it('replays a game to its final position', () => {
+    expect(replayGame(FOOLS_MATE)).toEqual({ turn: 'white', checkmate: true, drawReasons: [] });
+    expect(replayGame(KNIGHT_SHUFFLE).drawReasons).toEqual(['threefold-repetition']);
+    expect(() => replayGame(toMoves(['e2-e4', 'e7-e4']))).toThrow('Move 2 (e7-e4) is not legal');
+  });
+
+  it('rates checkmate for the side that delivered it', () => {
+    expect(verifyRatedResult({ moves: FOOLS_MATE, reason: 'checkmate', result: 'win', playerColor: 'black' })).toEqual({ result: 'win' });
+    expect(verifyRatedResult({ moves: FOOLS_MATE, reason: 'checkmate', result: 'loss', playerColor: 'white' })).toEqual({ result: 'loss' });
+    expect(verifyRatedResult({ moves: FOOLS_MATE.slice(0, 3), reason: 'checkmate', result: 'loss', playerColor: 'white' }))
+      .toEqual({ error: 'The final position is not checkmate' });
+  });
+
+  it('rates draws the final position supports', () => {
+    expect(verifyRatedResult({ moves: KNIGHT_SHUFFLE, reason: 'threefold-repetition', result: 'draw', playerColor: 'white' })).toEqual({ result: 'draw' });
+    expect(verifyRatedResult({ moves: KNIGHT_SHUFFLE, reason: 'stalemate', result: 'draw', playerColor: 'white' }))
+      .toEqual({ error: 'A game ending by stalemate cannot be verified from its moves' });
+  });
+
+  it('counts resignations and time forfeits by the player as defeats', () => {
+    expect(verifyRatedResult({ moves: [], reason: 'resignation', result: 'loss', playerColor: 'white' })).toEqual({ result: 'loss' });
+    expect(verifyRatedResult({ moves: toMoves(['e2-e4']), reason: 'time', result: 'loss', playerColor: 'black' })).toEqual({ result: 'loss' });
+  });
+
+  it('leaves wins and draws on time unrated', () => {
+    expect(verifyRatedResult({ moves: toMoves(['e2-e4']), reason: 'time', result: 'win', playerColor: 'white' }))
+      .toEqual({ unrated: 'Games won or drawn on time are not rated' });
+    expect(verifyRatedResult({ moves: toMoves(['e2-e4']), reason: 'time', result: 'draw', playerColor: 'white' }))
+      .toEqual({ unrated: 'Games won or drawn on time are not rated' });
+  });
+
+  it('leaves draws by agreement unrated', () => {
+    expect(verifyRatedResult({ moves: toMoves(['e2-e4', 'e7-e5']), reason: 'draw', result: 'draw', playerColor: 'white' }))
+      .toEqual({ unrated: 'Draws by agreement are not rated' });
+    expect(getUnratedReason('checkmate', 'win')).toBeNull();
+    expect(getUnratedReason('threefold-repetition', 'draw')).toBeNull();
+  });
+
+  it('refuses games it cannot replay or verify', () => {
+    expect(verifyRatedResult({ moves: 'e4 e5', reason: 'checkmate', result: 'loss', playerColor: 'white' }))
+      .toEqual({ error: 'Game moves are missing or unreadable' });
+    expect(verifyRatedResult({ moves: toMoves(['e2-e5']), reason: 'checkmate', result: 'loss', playerColor: 'white' }))
+      .toEqual({ error: 'Game does not replay from the starting position: Move 1 (e2-e5) is not legal' });
+    expect(verifyRatedResult({ moves: toMoves(['e2-e4', 'e7-e5']), reason: 'insufficient-material', result: 'draw', playerColor: 'white' }))
+      .toEqual({ error: 'A game ending by insufficient-material cannot be verified from its moves' });
+  });
+});
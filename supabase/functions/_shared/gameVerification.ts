@@ -0,0 +1,176 @@
+import {
+  applyMove,
+  BISHOP,
+  COLOR_MASK,
+  createGeneratorState,
+  FLAG_EN_PASSANT,
+  GeneratorPosition,
+  GeneratorState,
+  generateLegalMoves,
+  isKingAttacked,
+  KING,
+  KNIGHT,
+  PAWN,
+  PIECE_TYPES,
+  squareName,
+  TYPE_MASK,
+  WHITE
+} from './chessMoveGenerator.ts';
+
+// Rated games are replayed from the saved moves so a result is never taken on the client's word.
+// Only what the moves prove is rated, along with defeats the player would gain nothing by inventing;
+// other results are left unrated rather than refused.
+
+type Color = 'white' | 'black';
+
+export interface SavedMove {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+export interface ReplayedGame {
+  // Side to move in the final position
+  turn: Color;
+  checkmate: boolean;
+  // Draws that hold in the final position, whether automatic or claimable
+  drawReasons: string[];
+}
+
+export interface RatedGameClaim {
+  moves: unknown;
+  // The end reason the client recorded, e.g. 'checkmate' or 'resignation'
+  reason: unknown;
+  // The player's result the client recorded: 'win', 'loss' or 'draw'
+  result: unknown;
+  playerColor: Color;
+}
+
+export type VerifiedResult = { result: 'win' | 'loss' | 'draw' } | { unrated: string } | { error: string };
+
+const BACK_RANK = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'] as const;
+
+const STARTING_POSITION: GeneratorPosition = {
+  board: [
+    BACK_RANK.map(type => ({ type, color: 'black' as const })),
+    BACK_RANK.map(() => ({ type: 'pawn' as const, color: 'black' as const })),
+    ...Array.from({ length: 4 }, () => BACK_RANK.map(() => null)),
+    BACK_RANK.map(() => ({ type: 'pawn' as const, color: 'white' as const })),
+    BACK_RANK.map(type => ({ type, color: 'white' as const }))
+  ],
+  turn: 'white',
+  castling: { white: { kingside: true, queenside: true }, black: { kingside: true, queenside: true } },
+  enPassant: null
+};
+
+const isSavedMove = (move: unknown): move is SavedMove => {
+  const { from, to, promotion } = (move ?? {}) as Record<string, unknown>;
+  return typeof from === 'string' && typeof to === 'string' && (promotion === undefined || promotion === null || typeof promotion === 'string');
+};
+
+// Placement, side to move, castling rights and a usable en passant square, as the app counts repetitions
+const positionKey = (state: GeneratorState, legalMoves: ReturnType<typeof generateLegalMoves>) => {
+  const enPassant = legalMoves.some(move => move.flags & FLAG_EN_PASSANT) ? state.enPassant : -1;
+  return `${state.squares.join(',')} ${state.turn} ${state.castling} ${enPassant}`;
+};
+
+// Kings alone, one minor piece, or bishops that all stand on the same square colour
+const hasInsufficientMaterial = (state: GeneratorState) => {
+  const minors: { type: number; squareColor: number }[] = [];
+  for (let square = 0; square < 128; square++) {
+    const piece = state.squares[square];
+    if (square & 0x88 || !piece || (piece & TYPE_MASK) === KING) continue;
+    const type = piece & TYPE_MASK;
+    if (type !== BISHOP && type !== KNIGHT) return false;
+    minors.push({ type, squareColor: ((square >> 4) + (square & 7)) % 2 });
+  }
+  if (minors.length <= 1) return true;
+  return minors.every(minor => minor.type === BISHOP && minor.squareColor === minors[0].squareColor);
+};
+
+// Plays the moves from the standard starting position; throws on the first one that is not legal
+export const replayGame = (moves: SavedMove[]): ReplayedGame => {
+  const state = createGeneratorState(STARTING_POSITION);
+  let legalMoves = generateLegalMoves(state);
+  const seen = new Map<string, number>([[positionKey(state, legalMoves), 1]]);
+  let halfmoveClock = 0;
+
+  moves.forEach((saved, index) => {
+    const promotion = saved.promotion ? PIECE_TYPES.indexOf(saved.promotion as typeof PIECE_TYPES[number]) + 1 : 0;
+    const move = legalMoves.find(candidate =>
+      squareName(candidate.from) === saved.from &&
+      squareName(candidate.to) === saved.to &&
+      // A promotion saved without a piece is a queen, as the board plays it
+      (!candidate.promotion || candidate.promotion === (promotion || PIECE_TYPES.indexOf('queen') + 1))
+    );
+    if (!move) {
+      throw new Error(`Move ${index + 1} (${saved.from}-${saved.to}) is not legal`);
+    }
+
+    halfmoveClock = (move.piece & TYPE_MASK) === PAWN || move.captured ? 0 : halfmoveClock + 1;
+    applyMove(state, move);
+    legalMoves = generateLegalMoves(state);
+    const key = positionKey(state, legalMoves);
+    seen.set(key, (seen.get(key) ?? 0) + 1);
+  });
+
+  const inCheck = isKingAttacked(state, state.turn);
+  const repetitions = seen.get(positionKey(state, legalMoves)) ?? 1;
+  const drawReasons = [
+    legalMoves.length === 0 && !inCheck && 'stalemate',
+    hasInsufficientMaterial(state) && 'insufficient-material',
+    halfmoveClock >= 150 && 'seventy-five-move-rule',
+    halfmoveClock >= 100 && 'fifty-move-rule',
+    repetitions >= 5 && 'fivefold-repetition',
+    repetitions >= 3 && 'threefold-repetition'
+  ].filter((reason): reason is string => !!reason);
+
+  return {
+    turn: (state.turn & COLOR_MASK) === WHITE ? 'white' : 'black',
+    checkmate: legalMoves.length === 0 && inCheck,
+    drawReasons
+  };
+};
+
+// The clock runs on the player's device and draw offers are settled there, so the server cannot check
+// a win or draw on time or a draw by agreement; returns why such a game is not rated, or null
+export const getUnratedReason = (reason: unknown, result: unknown): string | null => {
+  if (reason === 'time' && result !== 'loss') return 'Games won or drawn on time are not rated';
+  if (reason === 'draw') return 'Draws by agreement are not rated';
+  return null;
+};
+
+// The player's result as the moves prove it, why the game is left unrated, or why it cannot be rated
+export const verifyRatedResult = ({ moves, reason, result, playerColor }: RatedGameClaim): VerifiedResult => {
+  if (!Array.isArray(moves) || !moves.every(isSavedMove)) {
+    return { error: 'Game moves are missing or unreadable' };
+  }
+
+  const unrated = getUnratedReason(reason, result);
+  if (unrated) {
+    return { unrated };
+  }
+
+  // Only the player can resign, and losing on time is all that is left of a time forfeit
+  if (reason === 'resignation' || reason === 'time') {
+    return { result: 'loss' };
+  }
+
+  let replayed: ReplayedGame;
+  try {
+    replayed = replayGame(moves);
+  } catch (error) {
+    return { error: `Game does not replay from the starting position: ${(error as Error).message}` };
+  }
+
+  if (reason === 'checkmate') {
+    if (!replayed.checkmate) return { error: 'The final position is not checkmate' };
+    return { result: replayed.turn === playerColor ? 'loss' : 'win' };
+  }
+
+  if (typeof reason === 'string' && replayed.drawReasons.includes(reason)) {
+    return { result: 'draw' };
+  }
+
+  return { error: `A game ending by ${String(reason)} cannot be verified from its moves` };
+};
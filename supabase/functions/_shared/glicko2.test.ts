@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DEVIATION, rateGame, updateRating } from './glicko2';
+
+describe('glicko2', () => {
+  it("matches the worked example from Glickman's paper", () => {
+    const updated = updateRating({ rating: 1500, deviation: 200, volatility: 0.06 }, [
+      { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 }
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.deviation).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('widens the deviation for a period without games', () => {
+    const updated = updateRating({ rating: 1500, deviation: 50, volatility: 0.06 }, []);
+    expect(updated.rating).toBe(1500);
+    expect(updated.deviation).toBeCloseTo(51.07, 1);
+  });
+
+  it('never lets the deviation exceed its starting value', () => {
+    const updated = updateRating({ rating: 1500, deviation: DEFAULT_DEVIATION, volatility: 0.06 }, []);
+    expect(updated.deviation).toBe(DEFAULT_DEVIATION);
+  });
+
+  it('moves both players in opposite directions after a decisive game', () => {
+    const [winner, loser] = rateGame(
+      { rating: 1250, deviation: 350, volatility: 0.06 },
+      { rating: 1500, deviation: 200, volatility: 0.06 },
+      1
+    );
+
+    expect(winner.rating).toBeGreaterThan(1250);
+    expect(loser.rating).toBeLessThan(1500);
+    // The uncertain newcomer moves much further than the established opponent
+    expect(winner.rating - 1250).toBeGreaterThan(1500 - loser.rating);
+  });
+
+  it('pulls ratings together after a draw', () => {
+    const [lower, higher] = rateGame(
+      { rating: 1300, deviation: 100, volatility: 0.06 },
+      { rating: 1700, deviation: 100, volatility: 0.06 },
+      0.5
+    );
+
+    expect(lower.rating).toBeGreaterThan(1300);
+    expect(higher.rating).toBeLessThan(1700);
+  });
+});
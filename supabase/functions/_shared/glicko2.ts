@@ -0,0 +1,106 @@
+// Glicko-2 rating updates, following Glickman's "Example of the Glicko-2 system"
+// (http://www.glicko.net/glicko/glicko2.pdf). Ratings are stored on the familiar Elo-like
+// scale; the conversion to the internal Glicko-2 scale happens here.
+
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface GlickoResult {
+  opponent: GlickoRating;
+  // 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+}
+
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+// Constrains how much the volatility can change; Glickman suggests 0.3 to 1.2
+const TAU = 0.5;
+const SCALE = 173.7178;
+const BASE_RATING = 1500;
+const CONVERGENCE_TOLERANCE = 0.000001;
+// Keeps a long-inactive or brand new player's uncertainty from exceeding the starting value
+const MAX_DEVIATION = DEFAULT_DEVIATION;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number) =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+// Step 5: solve for the new volatility with the Illinois variant of regula falsi
+const computeVolatility = (phi: number, sigma: number, delta: number, v: number) => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denominator * denominator) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+};
+
+// Rates one rating period; a period with no games only widens the deviation
+export const updateRating = (player: GlickoRating, results: GlickoResult[]): GlickoRating => {
+  const mu = (player.rating - BASE_RATING) / SCALE;
+  const phi = player.deviation / SCALE;
+
+  if (results.length === 0) {
+    const widened = Math.sqrt(phi * phi + player.volatility * player.volatility) * SCALE;
+    return { ...player, deviation: Math.min(widened, MAX_DEVIATION) };
+  }
+
+  const opponents = results.map(({ opponent, score }) => {
+    const opponentMu = (opponent.rating - BASE_RATING) / SCALE;
+    const opponentPhi = opponent.deviation / SCALE;
+    return { gPhi: g(opponentPhi), expected: expectedScore(mu, opponentMu, opponentPhi), score };
+  });
+
+  const v = 1 / opponents.reduce((sum, { gPhi, expected }) => sum + gPhi * gPhi * expected * (1 - expected), 0);
+  const improvement = opponents.reduce((sum, { gPhi, expected, score }) => sum + gPhi * (score - expected), 0);
+  const delta = v * improvement;
+
+  const volatility = computeVolatility(phi, player.volatility, delta, v);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + BASE_RATING,
+    deviation: Math.min(newPhi * SCALE, MAX_DEVIATION),
+    volatility
+  };
+};
+
+// Updates both sides of a single game, each against the other's pre-game rating
+export const rateGame = (first: GlickoRating, second: GlickoRating, firstScore: number): [GlickoRating, GlickoRating] => [
+  updateRating(first, [{ opponent: second, score: firstScore }]),
+  updateRating(second, [{ opponent: first, score: 1 - firstScore }])
+];
@@ -3,6 +3,8 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+// Points the function at another OpenAI-compatible server, such as the mock LLM server in scripts/
+const openAIBaseUrl = Deno.env.get('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,7 +25,7 @@ serve(async (req) => {
 
     const prompt = generateChessPrompt(board, color, legalMoves, gameHistory, opponentName, aiName);
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    const response = await fetch(`${openAIBaseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${openAIApiKey}`,
@@ -42,7 +44,25 @@ serve(async (req) => {
           }
         ],
         temperature: 0.7,
-        max_tokens: 300
+        max_tokens: 300,
+        // Structured output holds the reply to the legal moves
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: 'play_move',
+            strict: true,
+            schema: {
+              type: 'object',
+              properties: {
+                move: { type: 'string', enum: legalMoves },
+                chatMessage: { type: 'string' },
+                aiName: { type: 'string' }
+              },
+              required: ['move', 'chatMessage', 'aiName'],
+              additionalProperties: false
+            }
+          }
+        }
       })
     });
 
@@ -59,11 +79,9 @@ serve(async (req) => {
 
     const parsed = JSON.parse(content);
     
-    // Validate the move is in the legal moves list
+    // The client falls back to its own engine; a substitute move here would hide the failure
     if (!legalMoves.includes(parsed.move)) {
-      // Fallback to a random legal move
-      parsed.move = legalMoves[Math.floor(Math.random() * legalMoves.length)];
-      parsed.chatMessage = 'Making a strategic move.';
+      throw new Error(`Illegal move from OpenAI: ${parsed.move}`);
     }
 
     return new Response(JSON.stringify(parsed), {
@@ -98,7 +116,7 @@ ${board}
 Legal moves available: ${legalMoves.join(', ')}
 Recent moves: ${gameHistory.map((m: any) => m.notation).join(', ')}
 
-Choose the best legal move and respond with JSON format:
+Choose the best legal move, written exactly as listed, and respond with JSON format:
 {
   "move": "e2-e4",
   "chatMessage": "I'm developing my pieces with this central pawn move.",
@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_DEVIATION, DEFAULT_VOLATILITY, GlickoRating, rateGame } from "../_shared/glicko2.ts";
+import { verifyRatedResult } from "../_shared/gameVerification.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Matches the default current_score the client shows before a first rated game
+const DEFAULT_PLAYER_RATING = 1250;
+const DEFAULT_AI_RATING = 1500;
+const SCORES: Record<string, number> = { win: 1, draw: 0.5, loss: 0 };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error('Supabase service credentials not configured');
+    }
+
+    // Stats are written with the service role; the caller is identified by their own JWT
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to have games rated' }, 401);
+    }
+
+    const { gameId } = await req.json();
+    if (!gameId) {
+      return jsonResponse({ error: 'gameId is required' }, 400);
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('id, user_id, game_mode, opponent1_type, opponent2_type, player_color, result, finished_at, rated_at, game_data')
+      .eq('id', gameId)
+      .maybeSingle();
+
+    if (gameError) throw gameError;
+    if (!game || game.user_id !== user.id) {
+      return jsonResponse({ error: 'Game not found' }, 404);
+    }
+    if (game.rated_at) {
+      return jsonResponse({ error: 'Game has already been rated' }, 409);
+    }
+
+    // The first opponent plays white, so the player's seat must match their colour
+    const aiType = game.opponent1_type === 'human' ? game.opponent2_type : game.opponent1_type;
+    const humanColor = game.opponent1_type === 'human' ? 'white' : 'black';
+    if (game.game_mode !== 'human-vs-ai' || aiType === 'human' || game.player_color !== humanColor || !game.finished_at) {
+      return jsonResponse({ error: 'Only finished games against an AI are rated' }, 422);
+    }
+    if (game.game_data?.casual) {
+      return jsonResponse({ error: 'Casual games are not rated' }, 422);
+    }
+
+    // The row is written by the client, so the result is worked out again from the moves
+    const verified = verifyRatedResult({
+      moves: game.game_data?.moves,
+      reason: game.game_data?.reason,
+      result: game.result,
+      playerColor: humanColor,
+    });
+    if ('error' in verified) {
+      return jsonResponse({ error: verified.error }, 422);
+    }
+    if ('unrated' in verified) {
+      return jsonResponse({ rated: false, reason: verified.unrated });
+    }
+    if (verified.result !== game.result) {
+      return jsonResponse({ error: `Recorded result ${game.result} does not match the moves (${verified.result})` }, 422);
+    }
+    const score = SCORES[verified.result];
+
+    const { data: aiRating, error: aiRatingError } = await supabase
+      .from('ai_ratings')
+      .select('*')
+      .eq('opponent_type', aiType)
+      .maybeSingle();
+    if (aiRatingError) throw aiRatingError;
+    if (!aiRating) {
+      return jsonResponse({ error: `${aiType} is not a rated opponent` }, 422);
+    }
+
+    // Claim the game first so concurrent requests cannot rate it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('games')
+      .update({ rated_at: new Date().toISOString() })
+      .eq('id', gameId)
+      .is('rated_at', null)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse({ error: 'Game has already been rated' }, 409);
+    }
+
+    const { data: stats } = await supabase.from('user_stats').select('*').eq('user_id', user.id).maybeSingle();
+
+    const player: GlickoRating = {
+      rating: stats?.current_score ?? DEFAULT_PLAYER_RATING,
+      deviation: stats?.rating_deviation ?? DEFAULT_DEVIATION,
+      volatility: stats?.rating_volatility ?? DEFAULT_VOLATILITY,
+    };
+    const opponent: GlickoRating = {
+      rating: aiRating.rating ?? DEFAULT_AI_RATING,
+      deviation: aiRating.rating_deviation ?? DEFAULT_DEVIATION,
+      volatility: aiRating.rating_volatility ?? DEFAULT_VOLATILITY,
+    };
+
+    const [newPlayer, newOpponent] = rateGame(player, opponent, score);
+    const newScore = Math.round(newPlayer.rating);
+
+    const { error: statsError } = await supabase.from('user_stats').upsert({
+      user_id: user.id,
+      games_played: (stats?.games_played ?? 0) + 1,
+      wins: (stats?.wins ?? 0) + (score === 1 ? 1 : 0),
+      losses: (stats?.losses ?? 0) + (score === 0 ? 1 : 0),
+      draws: (stats?.draws ?? 0) + (score === 0.5 ? 1 : 0),
+      current_score: newScore,
+      high_score: Math.max(stats?.high_score ?? DEFAULT_PLAYER_RATING, newScore),
+      rating_deviation: newPlayer.deviation,
+      rating_volatility: newPlayer.volatility,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id' });
+    if (statsError) throw statsError;
+
+    const { error: aiError } = await supabase.from('ai_ratings').upsert({
+      opponent_type: aiType,
+      rating: newOpponent.rating,
+      rating_deviation: newOpponent.deviation,
+      rating_volatility: newOpponent.volatility,
+      games_played: (aiRating.games_played ?? 0) + 1,
+      updated_at: new Date().toISOString(),
+    });
+    if (aiError) throw aiError;
+
+    console.log('Rated game', gameId, { aiType, score, from: player.rating, to: newScore });
+
+    return jsonResponse({
+      rating: newScore,
+      ratingChange: newScore - Math.round(player.rating),
+      aiType,
+      aiRating: Math.round(newOpponent.rating),
+    });
+  } catch (error) {
+    console.error('Error in update-ratings function:', error);
+    // Database errors are plain objects with a message rather than Error instances
+    const message = (error as { message?: string })?.message ?? String(error);
+    return jsonResponse({ error: message }, 500);
+  }
+});
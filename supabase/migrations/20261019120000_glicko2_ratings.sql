@@ -0,0 +1,53 @@
+-- Glicko-2 ratings: players keep their rating in user_stats.current_score, AI opponents get
+-- one rating per opponent type. Only the update-ratings edge function (service role) writes them.
+
+alter table public.user_stats
+  add column if not exists rating_deviation double precision not null default 350,
+  add column if not exists rating_volatility double precision not null default 0.06;
+
+-- Set once a game has been rated so it can never count twice
+alter table public.games
+  add column if not exists rated_at timestamp with time zone;
+
+create table if not exists public.ai_ratings (
+  opponent_type text primary key,
+  rating double precision not null default 1500,
+  rating_deviation double precision not null default 350,
+  rating_volatility double precision not null default 0.06,
+  games_played integer not null default 0,
+  updated_at timestamp with time zone not null default now()
+);
+
+insert into public.ai_ratings (opponent_type)
+values ('gpt-4o'), ('claude'), ('gemini'), ('engine')
+on conflict (opponent_type) do nothing;
+
+alter table public.ai_ratings enable row level security;
+
+create policy "AI ratings are public"
+  on public.ai_ratings for select
+  using (true);
+
+-- Stats and ratings are derived from rated games; clients may read but never write them
+alter table public.user_stats enable row level security;
+
+revoke insert, update, delete on public.user_stats from anon, authenticated;
+revoke insert, update, delete on public.ai_ratings from anon, authenticated;
+
+-- Only the rating service may set rated_at; clients can neither pre-mark nor reset it
+create or replace function public.protect_game_rated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role' then
+    new.rated_at := case when tg_op = 'UPDATE' then old.rated_at else null end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_game_rated_at on public.games;
+create trigger protect_game_rated_at
+  before insert or update on public.games
+  for each row execute function public.protect_game_rated_at();
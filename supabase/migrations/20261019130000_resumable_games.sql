@@ -0,0 +1,15 @@
+-- In-progress games are autosaved as games rows without finished_at. Players update them after
+-- every move, may discard them, and replace them with the finished record when the game ends.
+
+create policy "Users can update their own unfinished games"
+  on public.games for update
+  using (auth.uid() = user_id and finished_at is null)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own unfinished games"
+  on public.games for delete
+  using (auth.uid() = user_id and finished_at is null);
+
+create index if not exists games_user_unfinished_idx
+  on public.games (user_id, created_at desc)
+  where finished_at is null;
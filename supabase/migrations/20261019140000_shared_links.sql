@@ -0,0 +1,54 @@
+-- Shared links: anyone with a game's id may read the finished game, and player profiles can be
+-- looked up by username. Both go through security definer functions so the tables' row level
+-- security, and private columns such as profiles.email, stay as they are.
+
+create or replace function public.get_shared_game(game_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select game_data
+  from public.games
+  where id = game_id and finished_at is not null;
+$$;
+
+create or replace function public.get_public_profile(profile_username text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'username', p.username,
+    'stats', (
+      select jsonb_build_object(
+        'games_played', s.games_played,
+        'wins', s.wins,
+        'losses', s.losses,
+        'draws', s.draws,
+        'current_score', s.current_score,
+        'high_score', s.high_score
+      )
+      from public.user_stats s
+      where s.user_id = p.id
+    ),
+    'games', coalesce((
+      select jsonb_agg(g order by g.created_at desc)
+      from (
+        select id, opponent1_type, opponent2_type, result, moves_count, duration_seconds, created_at
+        from public.games
+        where user_id = p.id and finished_at is not null
+        order by created_at desc
+        limit 10
+      ) g
+    ), '[]'::jsonb)
+  )
+  from public.profiles p
+  where p.username = profile_username;
+$$;
+
+grant execute on function public.get_shared_game(uuid) to anon, authenticated;
+grant execute on function public.get_public_profile(text) to anon, authenticated;